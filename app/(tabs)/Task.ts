@@ -1,14 +1,47 @@
+import { DEFAULT_LIST_ID } from '@/lib/lists';
+import type { Priority } from '@/lib/priority';
+import type { RecurrenceRule } from '@/lib/recurrence';
+import type { Reminder } from '@/lib/reminders';
+import type { Subtask } from '@/lib/subtasks';
+
 // Task model
 export default class Task {
   id: string;
   title: string;
   completed: boolean;
   isEditing: boolean;
+  createdAt: number;
+  // Last change to anything but editing state; see lib/timestamps
+  updatedAt: number;
+  // Epoch milliseconds, or null when the task has no due date
+  dueDate: number | null = null;
+  reminders: Reminder[] = [];
+  recurrence: RecurrenceRule | null = null;
+  completedAt: number | null = null;
+  subtasks: Subtask[] = [];
+  listId: string = DEFAULT_LIST_ID;
+  tags: string[] = [];
+  priority: Priority = 'none';
+  // Position in manual sort order; see lib/ordering
+  order = 0;
+  // Free-form Markdown shown on the task's detail screen
+  notes = '';
 
-  constructor(id: string, title: string, completed = false, isEditing = false) {
+  constructor(
+    id: string,
+    title: string,
+    completed = false,
+    isEditing = false,
+    createdAt = Date.now()
+  ) {
     this.id = id;
     this.title = title;
     this.completed = completed;
     this.isEditing = isEditing;
+    this.createdAt = createdAt;
+    this.updatedAt = createdAt;
   }
 }
+
+// Shape of a task as persisted; editing state is UI-only and never stored
+export type TaskData = Omit<Task, 'isEditing'>;
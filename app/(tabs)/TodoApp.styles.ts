@@ -1,86 +1,282 @@
 import {StyleSheet,} from 'react-native';
 
-export const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    paddingTop: 60,
-    paddingHorizontal: 20,
-    backgroundColor: '#f8f9fa',
-  },
-  heading: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    marginBottom: 24,
-    color: '#222',
-    alignSelf: 'center',
-    fontFamily: 'Poppins_600SemiBold',
-  },
-  inputContainer: {
-    flexDirection: 'row',
-    marginBottom: 16,
-  },
-  input: {
-    flex: 1,
-    height: 48,
-    borderColor: '#ccc',
-    borderWidth: 1,
-    borderRadius: 8,
-    paddingHorizontal: 16,
-    backgroundColor: '#fff',
-    fontSize: 16,
-    color: '#222',
-    fontFamily: 'Poppins_400Regular',
-  },
-  addButton: {
-    backgroundColor: '#007bff',
-    borderRadius: 8,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 16,
-    marginLeft: 8,
-  },
-  animatedWrapper: {
-    overflow: 'hidden',
-  },
-  taskItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#fff',
-    padding: 12,
-    borderRadius: 8,
-    marginBottom: 10,
-    elevation: 1,
-  },
-  checkIcon: {
-    marginRight: 12,
-  },
-  taskText: {
-    flex: 1,
-    fontSize: 16,
-    color: '#222',
-    fontFamily: 'Poppins_400Regular',
-  },
-  completedText: {
-    textDecorationLine: 'line-through',
-    color: '#888',
-  },
-  taskTextInput: {
-    flex: 1,
-    fontSize: 16,
-    borderBottomWidth: 1,
-    borderColor: '#ccc',
-    paddingVertical: 2,
-    color: '#222',
-  },
-  iconButton: {
-    paddingHorizontal: 6,
-    paddingVertical: 4,
-  },
-  emptyText: {
-    textAlign: 'center',
-    color: '#888',
-    marginTop: 32,
-    fontSize: 16,
-    fontFamily: 'Poppins_400Regular',
-  },
-});
\ No newline at end of file
+import { type Palette } from '@/constants/Colors';
+
+// Styles for the task screen and its rows; pass them through `useThemedStyles`
+export const createTaskStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      paddingTop: 60,
+      paddingHorizontal: 20,
+      backgroundColor: colors.background,
+    },
+    headerRow: {
+      justifyContent: 'center',
+      marginBottom: 24,
+    },
+    heading: {
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      alignSelf: 'center',
+      textAlign: 'center',
+      // Keeps clear of the buttons on either side
+      marginHorizontal: 72,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    subheading: {
+      fontSize: 14,
+      color: colors.textMuted,
+      alignSelf: 'center',
+      fontFamily: 'Poppins_400Regular',
+    },
+    headerActions: {
+      position: 'absolute',
+      end: 0,
+      flexDirection: 'row',
+    },
+    historyButtons: {
+      position: 'absolute',
+      start: 0,
+      flexDirection: 'row',
+    },
+    headerButton: {
+      padding: 4,
+    },
+    headerLink: {
+      fontSize: 16,
+      color: colors.accent,
+      fontFamily: 'Poppins_400Regular',
+    },
+    selectionShortcuts: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      gap: 24,
+      marginBottom: 12,
+    },
+    priorityFlag: {
+      marginEnd: 6,
+    },
+    searchContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      minHeight: 40,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      marginBottom: 12,
+      backgroundColor: colors.surfaceMuted,
+    },
+    searchInput: {
+      flex: 1,
+      marginStart: 8,
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    listSwitcher: {
+      flexGrow: 0,
+      marginBottom: 16,
+    },
+    listChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      marginEnd: 8,
+      backgroundColor: colors.surface,
+    },
+    listDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginEnd: 6,
+    },
+    listChipText: {
+      fontSize: 14,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    listChipTextActive: {
+      color: colors.onAccent,
+    },
+    inputContainer: {
+      flexDirection: 'row',
+      marginBottom: 16,
+    },
+    input: {
+      flex: 1,
+      minHeight: 48,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      paddingHorizontal: 16,
+      backgroundColor: colors.surface,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    addButton: {
+      backgroundColor: colors.accent,
+      borderRadius: 8,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      marginStart: 8,
+    },
+    animatedWrapper: {
+      overflow: 'hidden',
+    },
+    taskItem: {
+      backgroundColor: colors.surface,
+      padding: 12,
+      borderRadius: 8,
+      elevation: 1,
+    },
+    taskMain: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    taskItemDueToday: {
+      borderLeftWidth: 4,
+      borderLeftColor: colors.warning,
+    },
+    taskItemOverdue: {
+      borderLeftWidth: 4,
+      borderLeftColor: colors.danger,
+      backgroundColor: colors.dangerMuted,
+    },
+    selectableRow: {
+      marginBottom: 10,
+    },
+    taskItemSelected: {
+      backgroundColor: colors.accentMuted,
+    },
+    taskBody: {
+      flex: 1,
+    },
+    dueRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 2,
+    },
+    recurrenceText: {
+      fontSize: 12,
+      color: colors.accent,
+      marginTop: 2,
+      fontFamily: 'Poppins_400Regular',
+    },
+    dueText: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginEnd: 6,
+      fontFamily: 'Poppins_400Regular',
+    },
+    dueTodayText: {
+      color: colors.warning,
+    },
+    overdueText: {
+      color: colors.danger,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    metaIcon: {
+      marginEnd: 6,
+    },
+    tagRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginTop: 4,
+    },
+    tagChip: {
+      backgroundColor: colors.accentMuted,
+      borderRadius: 10,
+      paddingHorizontal: 8,
+      paddingVertical: 1,
+      marginEnd: 4,
+      marginBottom: 2,
+    },
+    tagText: {
+      fontSize: 12,
+      color: colors.accent,
+      fontFamily: 'Poppins_400Regular',
+    },
+    progressRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 2,
+    },
+    progressText: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginStart: 4,
+      fontFamily: 'Poppins_400Regular',
+    },
+    subtaskList: {
+      marginTop: 8,
+      marginStart: 36,
+    },
+    subtaskItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 4,
+    },
+    subtaskText: {
+      flex: 1,
+      marginStart: 8,
+      fontSize: 14,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    subtaskInput: {
+      fontSize: 14,
+      paddingVertical: 4,
+      borderBottomWidth: 1,
+      borderColor: colors.border,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    checkIcon: {
+      marginEnd: 12,
+    },
+    taskText: {
+      flex: 1,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    searchMatch: {
+      backgroundColor: colors.highlight,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    completedText: {
+      textDecorationLine: 'line-through',
+      color: colors.textMuted,
+    },
+    taskTextInput: {
+      flex: 1,
+      fontSize: 16,
+      borderBottomWidth: 1,
+      borderColor: colors.border,
+      paddingVertical: 2,
+      color: colors.text,
+    },
+    taskButtonsRow: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      marginTop: 4,
+    },
+    iconButton: {
+      paddingHorizontal: 6,
+      paddingVertical: 4,
+    },
+    emptyText: {
+      textAlign: 'center',
+      color: colors.textMuted,
+      marginTop: 32,
+      fontSize: 16,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,28 +10,68 @@ import {
   Platform,
   Keyboard,
   TouchableWithoutFeedback,
-  LayoutAnimation,
   UIManager,
-  Alert,
+  ScrollView,
 } from 'react-native';
-import { styles } from './TodoApp.styles';
+import { createTaskStyles } from './TodoApp.styles';
 import Task from './Task';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DraggableRow } from '@/components/DraggableRow';
+import { DueDatePicker } from '@/components/DueDatePicker';
+import { FilterBar } from '@/components/FilterBar';
+import { RecurrenceSheet } from '@/components/RecurrenceSheet';
+import { ReminderSheet } from '@/components/ReminderSheet';
+import { TagManageSheet } from '@/components/TagManageSheet';
+import { TagSheet } from '@/components/TagSheet';
+import { TaskActionsSheet, type TaskAction } from '@/components/TaskActionsSheet';
+import { SwipeableRow } from '@/components/SwipeableRow';
+import { TaskRow } from '@/components/TaskRow';
+import { UndoSnackbar } from '@/components/UndoSnackbar';
+import { OptionSheet } from '@/components/OptionSheet';
+import { QuickAddPreview } from '@/components/QuickAddPreview';
+import { SelectionBar, type BulkAction } from '@/components/SelectionBar';
+import { type MessageKey } from '@/constants/Messages';
+import { useConfirmDelete } from '@/hooks/useConfirmDelete';
+import { useI18n } from '@/hooks/useI18n';
+import { useNow } from '@/hooks/useNow';
+import { useLayoutAnimation } from '@/hooks/useReducedMotion';
+import { useSettings } from '@/hooks/useSettings';
+import { useTaskAnnouncements } from '@/hooks/useTaskAnnouncements';
+import { useTaskSearch } from '@/hooks/useTaskSearch';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { describeTask } from '@/lib/accessibility';
+import { setCompleted } from '@/lib/completion';
+import { snoozeDueDate } from '@/lib/dueDates';
+import { textDirectionStyle } from '@/lib/i18n';
+import { normalizeOrders, nextOrder, orderForMove } from '@/lib/ordering';
+import { PRIORITIES, type Priority } from '@/lib/priority';
+import { parseQuickAdd } from '@/lib/quickAdd';
+import { placeCompleted, SORT_OPTIONS, sortTasks, type SortOrder } from '@/lib/sorting';
+import {
+  deleteTag,
+  EMPTY_FILTER,
+  getSharedTags,
+  getTagCounts,
+  isFilterActive,
+  matchesFilter,
+  renameTag,
+  retagTasks,
+  type TaskFilter,
+} from '@/lib/tags';
 import { Ionicons } from '@expo/vector-icons';
-import * as Animatable from 'react-native-animatable';
 import AppLoading from 'expo-app-loading';
+import { useRouter } from 'expo-router';
 import {
   useFonts,
   Poppins_400Regular,
   Poppins_600SemiBold,
 } from '@expo-google-fonts/poppins';
 
-// Enable LayoutAnimation on Android
+// Enable layout animations on Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
   UIManager.setLayoutAnimationEnabledExperimental(true);
 }
 
-const STORAGE_KEY = '@tasks';
 
 const TodoApp: React.FC = () => {
   const [fontsLoaded] = useFonts({
@@ -39,66 +79,84 @@ const TodoApp: React.FC = () => {
     Poppins_600SemiBold,
   });
 
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const {
+    tasks,
+    setTasks,
+    updateTasks,
+    history,
+    archive,
+    lists,
+    setLists,
+    activeListId,
+    setActiveListId,
+    loaded,
+  } = useTaskStore();
+  const router = useRouter();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createTaskStyles);
+  const { settings } = useSettings();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const animateLayout = useLayoutAnimation();
+  const confirmDelete = useConfirmDelete();
+  const { add: addToArchive } = archive;
   const [taskTitle, setTaskTitle] = useState('');
+  const [sheet, setSheet] = useState<{ taskId: string; action: TaskAction | 'menu' } | null>(null);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const [filter, setFilter] = useState<TaskFilter>(EMPTY_FILTER);
+  const [managedTag, setManagedTag] = useState<string | null>(null);
+  const [choosingSort, setChoosingSort] = useState(false);
+  const [query, setQuery] = useState('');
+  // Ids picked for a bulk action, or null outside selection mode
+  const [selection, setSelection] = useState<string[] | null>(null);
+  const [bulkSheet, setBulkSheet] = useState<'tags' | 'priority' | 'list' | null>(null);
+  // Measured row heights, used to work out where a dragged row was dropped
+  const rowHeights = useRef(new Map<string, number>());
+  const now = useNow();
 
-  // Load tasks from storage
-  useEffect(() => {
-    const loadTasks = async () => {
-      try {
-        const json = await AsyncStorage.getItem(STORAGE_KEY);
-        if (json) {
-          const parsed = JSON.parse(json);
-          const loadedTasks = parsed.map(
-            (t: any) => new Task(t.id, t.title, t.completed, t.isEditing)
-          );
-          setTasks(loadedTasks);
-        }
-      } catch (e) {
-        Alert.alert('Error', 'Failed to load tasks.');
-      }
-    };
-    loadTasks();
-  }, []);
-
-  // Save tasks to storage
+  // Tags differ between lists, so start each list unfiltered and unselected
   useEffect(() => {
-    const saveTasks = async () => {
-      try {
-        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
-      } catch (e) {
-        Alert.alert('Error', 'Failed to save tasks.');
-      }
-    };
-    saveTasks();
-  }, [tasks]);
+    setFilter(EMPTY_FILTER);
+    setSelection(null);
+  }, [activeListId]);
 
-  // Add a new task
+  // Add a new task, picking its due date, tags, priority and repeat out of the typed text.
+  // Dates are read as of the same `now` as the preview, so the task matches what it showed.
   const addTask = useCallback(() => {
-    if (taskTitle.trim() === '') return;
-    const newTask = new Task(Date.now().toString(), taskTitle.trim());
-    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-    setTasks(prev => [...prev, newTask]);
+    const parsed = parseQuickAdd(taskTitle, now);
+    if (parsed.title === '') return;
+    const newTask = new Task(Date.now().toString(), parsed.title);
+    newTask.listId = activeListId;
+    newTask.dueDate = parsed.dueDate;
+    newTask.tags = parsed.tags;
+    newTask.priority = parsed.priority;
+    newTask.recurrence = parsed.recurrence;
+    animateLayout();
+    updateTasks(t('history.added'), prev => [...prev, { ...newTask, order: nextOrder(prev) }]);
     setTaskTitle('');
-  }, [taskTitle]);
+  }, [taskTitle, now, activeListId, updateTasks, animateLayout, t]);
 
-  // Remove a task
+  // Remove a task along with its steps
   const removeTask = useCallback((id: string) => {
-    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-    setTasks(prev => prev.filter(task => task.id !== id));
-  }, []);
+    confirmDelete(t('tasks.deleteOne'), () => {
+      animateLayout();
+      updateTasks(t('history.deleted'), prev => prev.filter(task => task.id !== id));
+    });
+  }, [updateTasks, animateLayout, confirmDelete, t]);
 
   // Toggle task completion
   const toggleTask = useCallback((id: string) => {
-    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-    setTasks(prev =>
-      prev.map(task =>
-        task.id === id
-          ? new Task(task.id, task.title, !task.completed, task.isEditing)
-          : task
-      )
-    );
-  }, []);
+    animateLayout();
+    updateTasks(t('history.completion'), prev => {
+      const task = prev.find(task => task.id === id);
+      return task ? setCompleted(prev, [id], !task.completed) : prev;
+    });
+  }, [updateTasks, animateLayout, t]);
+
+  // Show everything about a task on its own screen
+  const openTask = useCallback((id: string) => {
+    router.push({ pathname: '/task/[id]', params: { id } });
+  }, [router]);
 
   // Start editing a task
   const editTask = useCallback((id: string) => {
@@ -109,113 +167,568 @@ const TodoApp: React.FC = () => {
           : { ...task, isEditing: false }
       )
     );
-  }, []);
+  }, [setTasks]);
 
   // Cancel editing
   const cancelEdit = useCallback(() => {
     setTasks(prev => prev.map(task => ({ ...task, isEditing: false })));
     Keyboard.dismiss();
-  }, []);
+  }, [setTasks]);
 
   // Update a task's title
   const updateTask = useCallback((id: string, newTitle: string) => {
-    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-    setTasks(prev =>
+    animateLayout();
+    updateTasks(t('history.renamed'), prev =>
       prev.map(task =>
         task.id === id
-          ? new Task(task.id, newTitle.trim(), task.completed, false)
+          ? { ...task, title: newTitle.trim(), isEditing: false }
           : task
       )
     );
+  }, [updateTasks, animateLayout, t]);
+
+  // Apply changes to a single task
+  const changeTask = useCallback((id: string, changes: Partial<Task>) => {
+    updateTasks(t('history.updated'), prev =>
+      prev.map(task => (task.id === id ? { ...task, ...changes } : task))
+    );
+  }, [updateTasks, t]);
+
+  // Push a task's due date back to tomorrow
+  const snoozeTask = useCallback((id: string) => {
+    animateLayout();
+    updateTasks(t('history.snoozed'), prev =>
+      prev.map(task => (task.id === id ? { ...task, dueDate: snoozeDueDate(task.dueDate) } : task))
+    );
+  }, [updateTasks, animateLayout, t]);
+
+  // Open the actions menu or one of the task's editors
+  const openAction = useCallback((taskId: string, action: TaskAction | 'menu') => {
+    if (action === 'subtasks') {
+      setExpandedIds(prev => (prev.includes(taskId) ? prev : [...prev, taskId]));
+      setSheet(null);
+    } else if (action === 'snooze' || action === 'delete') {
+      if (action === 'snooze') snoozeTask(taskId);
+      else removeTask(taskId);
+      setSheet(null);
+    } else if (action === 'archive') {
+      animateLayout();
+      addToArchive([taskId]);
+      setSheet(null);
+    } else {
+      setSheet({ taskId, action });
+    }
+  }, [snoozeTask, addToArchive, removeTask, animateLayout]);
+
+  // Show or hide a task's steps
+  const toggleExpanded = useCallback((id: string) => {
+    setExpandedIds(prev =>
+      prev.includes(id) ? prev.filter(expandedId => expandedId !== id) : [...prev, id]
+    );
+  }, []);
+
+  // Filter by a tag tapped on a task row
+  const filterByTag = useCallback((tag: string) => {
+    setFilter(prev => (prev.tags.includes(tag) ? prev : { ...prev, tags: [...prev.tags, tag] }));
+  }, []);
+
+  // Rename or delete a tag on every task that carries it
+  const applyTagChange = useCallback(
+    (from: string, to: string | null) => {
+      if (to === null) updateTasks(t('history.tagDeleted', { tag: from }), prev => deleteTag(prev, from));
+      else updateTasks(t('history.tagRenamed', { tag: from }), prev => renameTag(prev, from, to));
+      setFilter(prev => ({ ...prev, tags: prev.tags.filter(tag => tag !== from) }));
+      setManagedTag(null);
+    },
+    [updateTasks, t]
+  );
+
+  // Remember how the active list is sorted
+  const setSort = useCallback(
+    (sort: SortOrder) => {
+      setLists(prev => prev.map(list => (list.id === activeListId ? { ...list, sort } : list)));
+      setChoosingSort(false);
+    },
+    [activeListId, setLists]
+  );
+
+  const quickAdd = useMemo(() => parseQuickAdd(taskTitle, now), [taskTitle, now]);
+  const activeList = lists.find(list => list.id === activeListId);
+  const listTasks = useMemo(
+    () => tasks.filter(task => task.listId === activeListId),
+    [tasks, activeListId]
+  );
+  useTaskAnnouncements(listTasks, activeListId, loaded);
+  const filteredTasks = useMemo(
+    () => listTasks.filter(task => matchesFilter(task, filter)),
+    [listTasks, filter]
+  );
+  // While searching, results come in order of relevance instead of the list's sort
+  const searchResults = useTaskSearch(filteredTasks, query);
+  const titleMatches = useMemo(
+    () => new Map(searchResults?.map(result => [result.task.id, result.titleMatches])),
+    [searchResults]
+  );
+  // Filtering for done tasks shows them wherever settings would put them
+  const completedPosition = filter.status === 'completed' ? 'inline' : settings.completedTasks;
+  const visibleTasks = placeCompleted(
+    searchResults ? searchResults.map(result => result.task) : sortTasks(filteredTasks, activeList?.sort ?? 'manual'),
+    completedPosition
+  );
+
+  // Manual reordering only makes sense when the list shows its manual order. Moving completed
+  // tasks to the bottom takes them out of that order, so a drop's neighbours wouldn't be its own.
+  const canReorder =
+    (activeList?.sort ?? 'manual') === 'manual' && searchResults === null && completedPosition !== 'bottom';
+
+  const measureRow = useCallback((id: string, height: number) => {
+    rowHeights.current.set(id, height);
+  }, []);
+
+  // Drop a dragged task into the position its travel distance lands on
+  const dropTask = useCallback(
+    (id: string, translationY: number) => {
+      const from = visibleTasks.findIndex(task => task.id === id);
+      if (from === -1) return;
+      const heightOf = (index: number) => rowHeights.current.get(visibleTasks[index].id) ?? 0;
+
+      let to = from;
+      let travelled = 0;
+      if (translationY > 0) {
+        while (to + 1 < visibleTasks.length && translationY > travelled + heightOf(to + 1) / 2) {
+          travelled += heightOf(++to);
+        }
+      } else {
+        while (to - 1 >= 0 && -translationY > travelled + heightOf(to - 1) / 2) {
+          travelled += heightOf(--to);
+        }
+      }
+
+      const order = orderForMove(visibleTasks, from, to);
+      if (order === null) return;
+      animateLayout();
+      updateTasks(t('history.moved'), prev =>
+        normalizeOrders(prev.map(task => (task.id === id ? { ...task, order } : task)))
+      );
+    },
+    [visibleTasks, updateTasks, animateLayout, t]
+  );
+
+  // Pick or unpick a task while selecting
+  const toggleSelected = useCallback((id: string) => {
+    setSelection(prev =>
+      prev?.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...(prev ?? []), id]
+    );
   }, []);
 
+  // Tasks that are selected and still exist; undo can remove some from under the selection
+  const selectedTasks = useMemo(
+    () => (selection ? tasks.filter(task => selection.includes(task.id)) : []),
+    [tasks, selection]
+  );
+  const selectedIds = selectedTasks.map(task => task.id);
+
+  // Apply a change to every selected task as one undoable step
+  const updateSelected = (message: MessageKey, updater: (prev: Task[]) => Task[]) => {
+    animateLayout();
+    updateTasks(t(message, { count: selectedIds.length }), updater);
+  };
+
+  // Leave selection mode. Bulk retagging only ends here, once the tag sheet closes,
+  // since several tags are often added in a row.
+  const finishSelection = () => {
+    setBulkSheet(null);
+    setSelection(null);
+  };
+
+  const applyBulkAction = (action: BulkAction) => {
+    switch (action) {
+      case 'complete':
+        updateSelected('history.bulkCompleted', prev => setCompleted(prev, selectedIds, true));
+        return finishSelection();
+      case 'uncomplete':
+        updateSelected('history.bulkReopened', prev => setCompleted(prev, selectedIds, false));
+        return finishSelection();
+      case 'delete':
+        return confirmDelete(t('tasks.deleteMany', { count: selectedIds.length }), () => {
+          updateSelected('history.bulkDeleted', prev => prev.filter(task => !selectedIds.includes(task.id)));
+          finishSelection();
+        });
+      case 'archive':
+        // Only the completed tasks in the selection are archived
+        animateLayout();
+        addToArchive(selectedIds);
+        return finishSelection();
+      default:
+        setBulkSheet(action);
+    }
+  };
+
+  const setSelectedFields = (message: MessageKey, changes: Partial<Task>) => {
+    updateSelected(message, prev =>
+      prev.map(task => (selectedIds.includes(task.id) ? { ...task, ...changes } : task))
+    );
+    finishSelection();
+  };
+
   // Render each task item
   const renderItem = useCallback(
-    ({ item }: { item: Task }) => (
-      <Animatable.View
-        animation="fadeInUp"
-        duration={400}
-        style={styles.animatedWrapper}
-      >
-        <View style={styles.taskItem}>
-          <TouchableOpacity onPress={() => toggleTask(item.id)}>
-            <Ionicons
-              name={item.completed ? 'checkmark-circle' : 'ellipse-outline'}
-              size={24}
-              color={item.completed ? '#28a745' : '#007bff'}
-              style={styles.checkIcon}
-            />
-          </TouchableOpacity>
-          {item.isEditing ? (
-            <TextInput
-              value={item.title}
-              onChangeText={text => updateTask(item.id, text)}
-              onSubmitEditing={() => updateTask(item.id, item.title)}
-              style={[styles.taskTextInput, { fontFamily: 'Poppins_400Regular' }]}
-              autoFocus
-              blurOnSubmit
-              returnKeyType="done"
-            />
-          ) : (
-            <Text
-              style={[
-                styles.taskText,
-                item.completed && styles.completedText,
-              ]}
-              onLongPress={() => editTask(item.id)}
-            >
-              {item.title}
-            </Text>
-          )}
-          {item.isEditing && (
-            <TouchableOpacity onPress={cancelEdit} style={styles.iconButton}>
-              <Ionicons name="close" size={18} color="#888" />
-            </TouchableOpacity>
-          )}
-          <TouchableOpacity onPress={() => editTask(item.id)} style={styles.iconButton}>
-            <Ionicons name="pencil" size={18} color="#007bff" />
-          </TouchableOpacity>
-          <TouchableOpacity onPress={() => removeTask(item.id)} style={styles.iconButton}>
-            <Ionicons name="trash" size={18} color="#dc3545" />
+    ({ item }: { item: Task }) => {
+      const selected = selection?.includes(item.id);
+      const row = (
+        <TaskRow
+          task={item}
+          now={now}
+          expanded={expandedIds.includes(item.id)}
+          titleMatches={titleMatches.get(item.id)}
+          selected={selected}
+          onToggle={toggleTask}
+          onOpen={openTask}
+          onEdit={editTask}
+          onCancelEdit={cancelEdit}
+          onUpdate={updateTask}
+          onChange={changeTask}
+          onOpenAction={openAction}
+          onToggleExpanded={toggleExpanded}
+          onPressTag={filterByTag}
+        />
+      );
+
+      // While selecting, the whole row is one tap target
+      if (selection) {
+        return (
+          <TouchableOpacity
+            onPress={() => toggleSelected(item.id)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: selected }}
+            accessibilityLabel={describeTask(item, now, i18n)}
+            style={styles.selectableRow}
+          >
+            <View pointerEvents="none">{row}</View>
           </TouchableOpacity>
-        </View>
-      </Animatable.View>
-    ),
-    [toggleTask, updateTask, editTask, cancelEdit, removeTask]
+        );
+      }
+
+      return (
+        <DraggableRow id={item.id} enabled={canReorder} onLayout={measureRow} onDrop={dropTask}>
+          <SwipeableRow
+            completed={item.completed}
+            onComplete={() => toggleTask(item.id)}
+            onDelete={() => removeTask(item.id)}
+            onSnooze={() => snoozeTask(item.id)}
+            onMove={() => openAction(item.id, 'list')}
+          >
+            {row}
+          </SwipeableRow>
+        </DraggableRow>
+      );
+    },
+    [
+      selection,
+      toggleSelected,
+      styles,
+      now,
+      i18n,
+      expandedIds,
+      titleMatches,
+      canReorder,
+      measureRow,
+      dropTask,
+      toggleTask,
+      openTask,
+      editTask,
+      cancelEdit,
+      updateTask,
+      removeTask,
+      snoozeTask,
+      changeTask,
+      openAction,
+      toggleExpanded,
+      filterByTag,
+    ]
   );
 
+  const sheetTask = tasks.find(task => task.id === sheet?.taskId);
+  const closeSheet = () => setSheet(null);
+  const textDirection = textDirectionStyle(i18n.direction);
+  const priorityOptions = PRIORITIES.map(option => ({ ...option, label: t(`priority.${option.value}`) }));
+  const sortOptions = SORT_OPTIONS.map(option => ({ ...option, label: t(`sort.${option.value}`) }));
+
   if (!fontsLoaded) return <AppLoading />;
 
   return (
     <TouchableWithoutFeedback onPress={cancelEdit}>
       <KeyboardAvoidingView
-        style={styles.container}
+        // Lays the screen out right to left for languages like Arabic, without restarting the app
+        style={[styles.container, { direction: i18n.direction }]}
         behavior={Platform.OS === 'ios' ? 'padding' : undefined}
       >
-        <Text style={styles.heading}>My Tasks</Text>
+        {selection ? (
+          <>
+            <View style={styles.headerRow}>
+              <View style={styles.historyButtons}>
+                <TouchableOpacity
+                  onPress={() => setSelection(null)}
+                  accessibilityRole="button"
+                  style={styles.headerButton}
+                >
+                  <Text style={styles.headerLink}>{t('common.cancel')}</Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.heading} accessibilityRole="header" numberOfLines={1}>
+                {t('tasks.selected', { count: selectedIds.length })}
+              </Text>
+            </View>
+            <View style={styles.selectionShortcuts}>
+              <TouchableOpacity onPress={() => setSelection(visibleTasks.map(task => task.id))}>
+                <Text style={styles.headerLink}>{t('tasks.selectAll')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() =>
+                  setSelection(visibleTasks.filter(task => task.completed).map(task => task.id))
+                }
+              >
+                <Text style={styles.headerLink}>{t('tasks.selectCompleted')}</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <View style={styles.headerRow}>
+            <View style={styles.historyButtons}>
+              <TouchableOpacity
+                onPress={history.undo}
+                disabled={!history.canUndo}
+                accessibilityLabel={
+                  history.lastEntry ? t('tasks.undoChange', { change: history.lastEntry.label }) : t('tasks.undo')
+                }
+                style={styles.headerButton}
+              >
+                <Ionicons
+                  // Back points the other way in right-to-left languages
+                  name={i18n.direction === 'rtl' ? 'arrow-redo' : 'arrow-undo'}
+                  size={20}
+                  color={history.canUndo ? colors.accent : colors.border}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={history.redo}
+                disabled={!history.canRedo}
+                accessibilityLabel={t('tasks.redo')}
+                style={styles.headerButton}
+              >
+                <Ionicons
+                  name={i18n.direction === 'rtl' ? 'arrow-undo' : 'arrow-redo'}
+                  size={20}
+                  color={history.canRedo ? colors.accent : colors.border}
+                />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.heading} accessibilityRole="header" numberOfLines={1}>
+              {activeList?.name ?? t('tasks.title')}
+            </Text>
+            <Text style={styles.subheading}>
+              {t('tasks.remaining', { count: listTasks.filter(task => !task.completed).length })}
+            </Text>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                onPress={() => setSelection([])}
+                accessibilityLabel={t('tasks.select')}
+                style={styles.headerButton}
+              >
+                <Ionicons name="checkmark-done" size={22} color={colors.accent} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setChoosingSort(true)}
+                accessibilityLabel={t('tasks.sort')}
+                style={styles.headerButton}
+              >
+                <Ionicons name="swap-vertical" size={22} color={colors.accent} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+        {lists.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.listSwitcher}
+            keyboardShouldPersistTaps="handled"
+          >
+            {lists.map(list => {
+              const active = list.id === activeListId;
+              return (
+                <TouchableOpacity
+                  key={list.id}
+                  onPress={() => setActiveListId(list.id)}
+                  accessibilityRole="tab"
+                  accessibilityState={{ selected: active }}
+                  style={[styles.listChip, active && { backgroundColor: list.color, borderColor: list.color }]}
+                >
+                  <View style={[styles.listDot, { backgroundColor: active ? colors.onAccent : list.color }]} />
+                  <Text style={[styles.listChipText, active && styles.listChipTextActive]}>
+                    {list.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
         <View style={styles.inputContainer}>
           <TextInput
-            style={styles.input}
-            placeholder="Add a new task"
+            style={[styles.input, textDirection]}
+            placeholder={t('tasks.newPlaceholder')}
+            accessibilityLabel={t('tasks.newLabel')}
+            accessibilityHint={t('tasks.newHint')}
             value={taskTitle}
             onChangeText={setTaskTitle}
-            placeholderTextColor="#888"
+            placeholderTextColor={colors.textMuted}
             onSubmitEditing={addTask}
             returnKeyType="done"
           />
-          <TouchableOpacity onPress={addTask} style={styles.addButton}>
-            <Ionicons name="add" size={24} color="#fff" />
+          <TouchableOpacity onPress={addTask} accessibilityLabel={t('tasks.add')} style={styles.addButton}>
+            <Ionicons name="add" size={24} color={colors.onAccent} />
           </TouchableOpacity>
         </View>
+        <QuickAddPreview result={quickAdd} now={now} />
+        <View style={styles.searchContainer}>
+          <Ionicons name="search" size={18} color={colors.textMuted} />
+          <TextInput
+            style={[styles.searchInput, textDirection]}
+            placeholder={t('tasks.search')}
+            accessibilityLabel={t('tasks.search')}
+            value={query}
+            onChangeText={setQuery}
+            placeholderTextColor={colors.textMuted}
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {query !== '' && (
+            <TouchableOpacity onPress={() => setQuery('')} accessibilityLabel={t('tasks.clearSearch')} hitSlop={8}>
+              <Ionicons name="close-circle" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+          )}
+        </View>
+        <FilterBar
+          filter={filter}
+          tags={getTagCounts(listTasks).map(({ tag }) => tag)}
+          onChange={setFilter}
+          onManageTag={setManagedTag}
+        />
         <FlatList
-          data={tasks}
+          data={visibleTasks}
           keyExtractor={item => item.id}
           renderItem={renderItem}
           ListEmptyComponent={
-            <Text style={styles.emptyText}>No tasks yet.</Text>
+            <Text style={styles.emptyText}>
+              {query.trim() !== ''
+                ? t('tasks.noSearchResults')
+                : isFilterActive(filter) && listTasks.length > 0
+                  ? t('tasks.noFilterResults')
+                  : filteredTasks.length > 0
+                    ? t('tasks.completedHidden')
+                    : t('tasks.empty')}
+            </Text>
           }
           keyboardShouldPersistTaps="handled"
         />
+        {selection && <SelectionBar count={selectedIds.length} onAction={applyBulkAction} />}
+        <UndoSnackbar entry={history.lastEntry} onUndo={history.undo} />
+        <TaskActionsSheet
+          task={sheet?.action === 'menu' ? sheetTask : undefined}
+          listName={lists.find(list => list.id === sheetTask?.listId)?.name}
+          onSelect={action => sheetTask && openAction(sheetTask.id, action)}
+          onClose={closeSheet}
+        />
+        <DueDatePicker
+          visible={sheet?.action === 'dueDate' && sheetTask !== undefined}
+          value={sheetTask?.dueDate ?? null}
+          onConfirm={dueDate => {
+            if (sheetTask) changeTask(sheetTask.id, { dueDate });
+            closeSheet();
+          }}
+          onCancel={closeSheet}
+        />
+        <ReminderSheet
+          task={sheet?.action === 'reminders' ? sheetTask : undefined}
+          onChange={reminders => sheetTask && changeTask(sheetTask.id, { reminders })}
+          onClose={closeSheet}
+        />
+        <TagSheet
+          title={t('tasks.tagsTitle', { title: sheetTask?.title ?? '' })}
+          visible={sheet?.action === 'tags' && sheetTask !== undefined}
+          tags={sheetTask?.tags ?? []}
+          allTasks={tasks}
+          onChange={tags => sheetTask && changeTask(sheetTask.id, { tags })}
+          onClose={closeSheet}
+        />
+        <TagManageSheet
+          tag={managedTag}
+          count={managedTag ? tasks.filter(task => task.tags.includes(managedTag)).length : 0}
+          onRename={to => managedTag && applyTagChange(managedTag, to)}
+          onDelete={() => managedTag && applyTagChange(managedTag, null)}
+          onClose={() => setManagedTag(null)}
+        />
+        <OptionSheet
+          title={sheetTask ? t('tasks.priorityTitle', { title: sheetTask.title }) : ''}
+          visible={sheet?.action === 'priority' && sheetTask !== undefined}
+          options={priorityOptions}
+          selected={sheetTask?.priority}
+          onSelect={priority => {
+            if (sheetTask) changeTask(sheetTask.id, { priority });
+            closeSheet();
+          }}
+          onClose={closeSheet}
+        />
+        <OptionSheet
+          title={t('tasks.sortBy')}
+          visible={choosingSort}
+          options={sortOptions}
+          selected={activeList?.sort}
+          onSelect={setSort}
+          onClose={() => setChoosingSort(false)}
+        />
+        <OptionSheet
+          title={sheetTask ? t('tasks.moveTitle', { title: sheetTask.title }) : ''}
+          visible={sheet?.action === 'list' && sheetTask !== undefined}
+          options={lists.map(list => ({ value: list.id, label: list.name, color: list.color }))}
+          selected={sheetTask?.listId}
+          onSelect={listId => {
+            if (sheetTask) changeTask(sheetTask.id, { listId });
+            closeSheet();
+          }}
+          onClose={closeSheet}
+        />
+        <TagSheet
+          title={t('tasks.tagsTitle', { title: t('tasks.count', { count: selectedIds.length }) })}
+          visible={bulkSheet === 'tags'}
+          tags={getSharedTags(selectedTasks)}
+          allTasks={tasks}
+          onChange={tags =>
+            updateSelected('history.bulkRetagged', prev =>
+              retagTasks(prev, selectedIds, getSharedTags(selectedTasks), tags)
+            )
+          }
+          onClose={finishSelection}
+        />
+        <OptionSheet
+          title={t('tasks.priorityTitle', { title: t('tasks.count', { count: selectedIds.length }) })}
+          visible={bulkSheet === 'priority'}
+          options={priorityOptions}
+          onSelect={(priority: Priority) => setSelectedFields('history.bulkReprioritized', { priority })}
+          onClose={() => setBulkSheet(null)}
+        />
+        <OptionSheet
+          title={t('tasks.moveTitle', { title: t('tasks.count', { count: selectedIds.length }) })}
+          visible={bulkSheet === 'list'}
+          options={lists.map(list => ({ value: list.id, label: list.name, color: list.color }))}
+          onSelect={listId => setSelectedFields('history.bulkMoved', { listId })}
+          onClose={() => setBulkSheet(null)}
+        />
+        <RecurrenceSheet
+          task={sheet?.action === 'recurrence' ? sheetTask : undefined}
+          onChange={recurrence => sheetTask && changeTask(sheetTask.id, { recurrence })}
+          onClose={closeSheet}
+        />
       </KeyboardAvoidingView>
     </TouchableWithoutFeedback>
   );
@@ -0,0 +1,344 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useLayoutAnimation } from '@/hooks/useReducedMotion';
+import { useSettings } from '@/hooks/useSettings';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { createList, LIST_COLORS, moveList, type TaskList } from '@/lib/lists';
+
+export default function ListsScreen() {
+  const router = useRouter();
+  const { tasks, setTasks, history, sync, lists, setLists, setActiveListId } = useTaskStore();
+  const [listName, setListName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const { settings } = useSettings();
+  const animateLayout = useLayoutAnimation();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  // Add a new list, sorted the way settings say new lists should be
+  const addList = useCallback(() => {
+    if (listName.trim() === '') return;
+    animateLayout();
+    setLists(prev => [...prev, { ...createList(listName, prev), sort: settings.defaultSort }]);
+    setListName('');
+  }, [listName, setLists, settings.defaultSort, animateLayout]);
+
+  // Rename a list
+  const renameList = useCallback(
+    (id: string, name: string) => {
+      if (name.trim() !== '') {
+        setLists(prev => prev.map(list => (list.id === id ? { ...list, name: name.trim() } : list)));
+      }
+      setEditingId(null);
+    },
+    [setLists]
+  );
+
+  // Cycle a list through the color palette
+  const recolorList = useCallback(
+    (id: string) => {
+      setLists(prev =>
+        prev.map(list => {
+          if (list.id !== id) return list;
+          const next = (LIST_COLORS.indexOf(list.color) + 1) % LIST_COLORS.length;
+          return { ...list, color: LIST_COLORS[next] };
+        })
+      );
+    },
+    [setLists]
+  );
+
+  // Move a list up or down
+  const reorderList = useCallback(
+    (id: string, offset: -1 | 1) => {
+      animateLayout();
+      setLists(prev => moveList(prev, id, offset));
+    },
+    [setLists, animateLayout]
+  );
+
+  // Delete a list and its tasks, after confirming
+  const removeList = useCallback(
+    (list: TaskList) => {
+      const count = tasks.filter(task => task.listId === list.id).length;
+      Alert.alert(
+        t('lists.deleteTitle', { name: list.name }),
+        count > 0 ? t('lists.deleteMessage', { count }) : undefined,
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('common.delete'),
+            style: 'destructive',
+            onPress: () => {
+              animateLayout();
+              setLists(prev => prev.filter(l => l.id !== list.id));
+              setTasks(prev => prev.filter(task => task.listId !== list.id));
+              // Undoing older changes could bring back tasks into the deleted list
+              history.clear();
+            },
+          },
+        ]
+      );
+    },
+    [tasks, setLists, setTasks, history, animateLayout, t]
+  );
+
+  // Show a list on the Home tab
+  const openList = useCallback(
+    (id: string) => {
+      setActiveListId(id);
+      router.navigate('/');
+    },
+    [router, setActiveListId]
+  );
+
+  const renderItem = ({ item, index }: { item: TaskList; index: number }) => {
+    const open = tasks.filter(task => task.listId === item.id && !task.completed).length;
+    return (
+      <View style={styles.listItem}>
+        <TouchableOpacity
+          onPress={() => recolorList(item.id)}
+          accessibilityLabel={t('lists.changeColor', { name: item.name })}
+          hitSlop={8}
+        >
+          <View style={[styles.colorDot, { backgroundColor: item.color }]} />
+        </TouchableOpacity>
+        {editingId === item.id ? (
+          <TextInput
+            value={draftName}
+            onChangeText={setDraftName}
+            onSubmitEditing={() => renameList(item.id, draftName)}
+            onBlur={() => renameList(item.id, draftName)}
+            accessibilityLabel={t('lists.nameLabel')}
+            style={styles.nameInput}
+            autoFocus
+            returnKeyType="done"
+          />
+        ) : (
+          <TouchableOpacity style={styles.nameButton} onPress={() => openList(item.id)}>
+            <Text style={styles.name}>{item.name}</Text>
+            <Text style={styles.count}>{t('lists.open', { count: open })}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          onPress={() => reorderList(item.id, -1)}
+          disabled={index === 0}
+          accessibilityLabel={t('lists.moveUp', { name: item.name })}
+          style={[styles.iconButton, index === 0 && styles.disabled]}
+        >
+          <Ionicons name="chevron-up" size={18} color={colors.accent} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => reorderList(item.id, 1)}
+          disabled={index === lists.length - 1}
+          accessibilityLabel={t('lists.moveDown', { name: item.name })}
+          style={[styles.iconButton, index === lists.length - 1 && styles.disabled]}
+        >
+          <Ionicons name="chevron-down" size={18} color={colors.accent} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => {
+            setDraftName(item.name);
+            setEditingId(item.id);
+          }}
+          accessibilityLabel={t('lists.rename', { name: item.name })}
+          style={styles.iconButton}
+        >
+          <Ionicons name="pencil" size={18} color={colors.accent} />
+        </TouchableOpacity>
+        {/* The last list can't go, so there's always somewhere to put tasks */}
+        <TouchableOpacity
+          onPress={() => removeList(item)}
+          disabled={lists.length === 1}
+          accessibilityLabel={t('lists.delete', { name: item.name })}
+          style={[styles.iconButton, lists.length === 1 && styles.disabled]}
+        >
+          <Ionicons name="trash" size={18} color={colors.danger} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.headerRow}>
+        <Text style={styles.heading} accessibilityRole="header">{t('lists.title')}</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={() => router.push('/archive')}
+            accessibilityLabel={t('nav.archive')}
+            style={styles.headerButton}
+          >
+            <Ionicons name="archive-outline" size={22} color={colors.accent} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/sync')}
+            accessibilityLabel={sync.status === 'offline' ? t('lists.syncOffline') : t('nav.sync')}
+            style={styles.headerButton}
+          >
+            <Ionicons
+              name={sync.status === 'offline' ? 'cloud-offline-outline' : 'cloud-outline'}
+              size={22}
+              color={colors.accent}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/transfer')}
+            accessibilityLabel={t('nav.transfer')}
+            style={styles.headerButton}
+          >
+            <Ionicons name="swap-horizontal" size={22} color={colors.accent} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/settings')}
+            accessibilityLabel={t('nav.settings')}
+            style={styles.headerButton}
+          >
+            <Ionicons name="settings-outline" size={22} color={colors.accent} />
+          </TouchableOpacity>
+        </View>
+      </View>
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={styles.input}
+          placeholder={t('lists.newPlaceholder')}
+          accessibilityLabel={t('lists.newLabel')}
+          value={listName}
+          onChangeText={setListName}
+          placeholderTextColor={colors.textMuted}
+          onSubmitEditing={addList}
+          returnKeyType="done"
+        />
+        <TouchableOpacity onPress={addList} accessibilityLabel={t('lists.add')} style={styles.addButton}>
+          <Ionicons name="add" size={24} color={colors.onAccent} />
+        </TouchableOpacity>
+      </View>
+      <FlatList
+        data={lists}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        extraData={[tasks, editingId, draftName]}
+        keyboardShouldPersistTaps="handled"
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      paddingTop: 60,
+      paddingHorizontal: 20,
+      backgroundColor: colors.background,
+    },
+    headerRow: {
+      justifyContent: 'center',
+      marginBottom: 24,
+    },
+    heading: {
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      alignSelf: 'center',
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    headerActions: {
+      position: 'absolute',
+      right: 0,
+      flexDirection: 'row',
+    },
+    headerButton: {
+      padding: 4,
+      marginLeft: 8,
+    },
+    inputContainer: {
+      flexDirection: 'row',
+      marginBottom: 16,
+    },
+    input: {
+      flex: 1,
+      minHeight: 48,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      paddingHorizontal: 16,
+      backgroundColor: colors.surface,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    addButton: {
+      backgroundColor: colors.accent,
+      borderRadius: 8,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      marginLeft: 8,
+    },
+    listItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      padding: 12,
+      borderRadius: 8,
+      marginBottom: 10,
+      elevation: 1,
+    },
+    colorDot: {
+      width: 20,
+      height: 20,
+      borderRadius: 10,
+      marginRight: 12,
+    },
+    nameButton: {
+      flex: 1,
+    },
+    name: {
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    count: {
+      fontSize: 12,
+      color: colors.textMuted,
+      fontFamily: 'Poppins_400Regular',
+    },
+    nameInput: {
+      flex: 1,
+      fontSize: 16,
+      borderBottomWidth: 1,
+      borderColor: colors.border,
+      paddingVertical: 2,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    iconButton: {
+      paddingHorizontal: 6,
+      paddingVertical: 4,
+    },
+    disabled: {
+      opacity: 0.3,
+    },
+  });
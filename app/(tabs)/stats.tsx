@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { createSheetStyles } from '@/components/BottomSheet';
+import { Chips } from '@/components/Chips';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useNow } from '@/hooks/useNow';
+import { useSettings } from '@/hooks/useSettings';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { getPriority, type Priority } from '@/lib/priority';
+import {
+  formatDuration,
+  getActivity,
+  getAverageTimeToComplete,
+  getBreakdown,
+  getStreaks,
+  type ActivityBucket,
+  type Breakdown,
+  type StatsPeriod,
+} from '@/lib/stats';
+
+const PERIODS: { value: StatsPeriod; label: string; count: number }[] = [
+  { value: 'day', label: 'Last 7 days', count: 7 },
+  { value: 'week', label: 'Last 8 weeks', count: 8 },
+];
+
+const BREAKDOWNS: { value: Breakdown; label: string }[] = [
+  { value: 'list', label: 'List' },
+  { value: 'tag', label: 'Tag' },
+  { value: 'priority', label: 'Priority' },
+];
+
+const CHART_HEIGHT = 120;
+
+// "Mon" for days, "Mar 9" for the week starting then
+function bucketLabel(bucket: ActivityBucket, period: StatsPeriod, locale: string): string {
+  const date = new Date(bucket.start);
+  return period === 'day'
+    ? date.toLocaleDateString(locale, { weekday: 'short' })
+    : date.toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+}
+
+function Summary({ label, value }: { label: string; value: string }) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.summary}>
+      <Text style={styles.summaryValue}>{value}</Text>
+      <Text style={styles.summaryLabel}>{label}</Text>
+    </View>
+  );
+}
+
+export default function StatsScreen() {
+  const { completionHistory, lists } = useTaskStore();
+  const { settings } = useSettings();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [period, setPeriod] = useState<StatsPeriod>('day');
+  const [breakdown, setBreakdown] = useState<Breakdown>('list');
+  // Day buckets and the current streak roll over at midnight
+  const now = useNow(60 * 60 * 1000);
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+
+  const { count } = PERIODS.find(option => option.value === period)!;
+  const activity = useMemo(
+    () => getActivity(completionHistory, period, count, now, settings.weekStartsOn),
+    [completionHistory, period, count, now, settings.weekStartsOn]
+  );
+  const streaks = useMemo(() => getStreaks(completionHistory, now), [completionHistory, now]);
+  const average = useMemo(() => getAverageTimeToComplete(completionHistory), [completionHistory]);
+  const rows = useMemo(() => getBreakdown(completionHistory, breakdown), [completionHistory, breakdown]);
+
+  const chartMax = Math.max(1, ...activity.map(bucket => Math.max(bucket.created, bucket.completed)));
+  const rowMax = Math.max(1, ...rows.map(row => row.count));
+  const periodOptions = PERIODS.map(option => ({ ...option, label: t(`stats.period.${option.value}`) }));
+  const breakdownOptions = BREAKDOWNS.map(option => ({ ...option, label: t(`stats.breakdown.${option.value}`) }));
+
+  const rowLabel = (key: string) => {
+    if (breakdown === 'list') return lists.find(list => list.id === key)?.name ?? t('lists.deleted');
+    if (breakdown === 'priority') return t(`priority.${key as Priority}`);
+    return key === '' ? t('stats.noTags') : `#${key}`;
+  };
+  const rowColor = (key: string) => {
+    if (breakdown === 'list') return lists.find(list => list.id === key)?.color ?? colors.textMuted;
+    if (breakdown === 'priority') return getPriority(key as Priority).color;
+    return colors.accent;
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.heading} accessibilityRole="header">{t('stats.title')}</Text>
+
+      <View style={styles.summaries}>
+        <Summary label={t('stats.completed')} value={String(completionHistory.completions.length)} />
+        <Summary label={t('stats.currentStreak')} value={t('stats.durationDays', { count: streaks.current })} />
+        <Summary label={t('stats.longestStreak')} value={t('stats.durationDays', { count: streaks.longest })} />
+      </View>
+      <Text style={styles.average}>
+        {average === null
+          ? t('stats.averageEmpty')
+          : t('stats.average', { duration: formatDuration(average, i18n) })}
+      </Text>
+
+      <Text style={sheetStyles.label}>{t('stats.activity')}</Text>
+      <Chips options={periodOptions} selected={period} onSelect={setPeriod} />
+      <View style={styles.card}>
+        <View style={styles.chart}>
+          {activity.map(bucket => (
+            <View
+              key={bucket.start}
+              style={styles.bucket}
+              accessible
+              accessibilityLabel={t('stats.bucket', {
+                label: bucketLabel(bucket, period, i18n.locale),
+                created: bucket.created,
+                completed: bucket.completed,
+              })}
+            >
+              <View style={styles.bars}>
+                <View style={[styles.bar, styles.created, { height: (bucket.created / chartMax) * CHART_HEIGHT }]} />
+                <View
+                  style={[styles.bar, styles.completed, { height: (bucket.completed / chartMax) * CHART_HEIGHT }]}
+                />
+              </View>
+              <Text style={styles.bucketLabel} maxFontSizeMultiplier={1.2}>
+                {bucketLabel(bucket, period, i18n.locale)}
+              </Text>
+            </View>
+          ))}
+        </View>
+        <View style={styles.legend}>
+          <View style={[styles.legendDot, styles.created]} />
+          <Text style={styles.legendText}>
+            {t('stats.createdTotal', { count: activity.reduce((sum, bucket) => sum + bucket.created, 0) })}
+          </Text>
+          <View style={[styles.legendDot, styles.completed]} />
+          <Text style={styles.legendText}>
+            {t('stats.completedTotal', { count: activity.reduce((sum, bucket) => sum + bucket.completed, 0) })}
+          </Text>
+        </View>
+      </View>
+
+      <Text style={sheetStyles.label}>{t('stats.completedBy')}</Text>
+      <Chips options={breakdownOptions} selected={breakdown} onSelect={setBreakdown} />
+      <View style={styles.card}>
+        {rows.length === 0 ? (
+          <Text style={styles.empty}>{t('stats.empty')}</Text>
+        ) : (
+          rows.map(row => (
+            <View key={row.key} style={styles.row}>
+              <View style={styles.rowHeader}>
+                <Text style={styles.rowLabel} numberOfLines={1}>
+                  {rowLabel(row.key)}
+                </Text>
+                <Text style={styles.rowCount}>{row.count}</Text>
+              </View>
+              <View style={styles.track}>
+                <View
+                  style={[styles.fill, { width: `${(row.count / rowMax) * 100}%`, backgroundColor: rowColor(row.key) }]}
+                />
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      paddingTop: 60,
+      paddingHorizontal: 20,
+      paddingBottom: 100,
+    },
+    heading: {
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      alignSelf: 'center',
+      marginBottom: 24,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    summaries: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    summary: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      alignItems: 'center',
+      elevation: 1,
+    },
+    summaryValue: {
+      fontSize: 24,
+      color: colors.text,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    summaryLabel: {
+      fontSize: 13,
+      color: colors.textMuted,
+      textAlign: 'center',
+      fontFamily: 'Poppins_400Regular',
+    },
+    average: {
+      fontSize: 14,
+      color: colors.textMuted,
+      marginTop: 12,
+      fontFamily: 'Poppins_400Regular',
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      marginTop: 8,
+      elevation: 1,
+    },
+    chart: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+    },
+    bucket: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    bars: {
+      height: CHART_HEIGHT,
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      gap: 2,
+    },
+    bar: {
+      width: 8,
+      borderRadius: 2,
+    },
+    created: {
+      backgroundColor: colors.border,
+    },
+    completed: {
+      backgroundColor: colors.success,
+    },
+    bucketLabel: {
+      fontSize: 11,
+      color: colors.textMuted,
+      marginTop: 4,
+      fontFamily: 'Poppins_400Regular',
+    },
+    legend: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 12,
+    },
+    legendDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginRight: 6,
+    },
+    legendText: {
+      fontSize: 13,
+      color: colors.text,
+      marginRight: 16,
+      fontFamily: 'Poppins_400Regular',
+    },
+    row: {
+      marginBottom: 10,
+    },
+    rowHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    rowLabel: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    rowCount: {
+      fontSize: 14,
+      color: colors.textMuted,
+      marginLeft: 8,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    track: {
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: colors.surfaceMuted,
+      marginTop: 4,
+    },
+    fill: {
+      height: 6,
+      borderRadius: 3,
+    },
+    empty: {
+      fontSize: 14,
+      color: colors.textMuted,
+      textAlign: 'center',
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -2,12 +2,53 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
-import { useColorScheme } from '@/hooks/useColorScheme';
+import { useI18n } from '@/hooks/useI18n';
+import { SettingsProvider } from '@/hooks/useSettings';
+import { TaskStoreProvider } from '@/hooks/useTaskStore';
+import { useTheme } from '@/hooks/useTheme';
+
+// Deep links open their screen on top of the tabs, so there's always somewhere to go back to
+export const unstable_settings = {
+  initialRouteName: '(tabs)',
+};
+
+// Navigation chrome follows the theme picked in settings, switching as soon as it changes
+function RootNavigator() {
+  const theme = useTheme();
+  const { t } = useI18n();
+  const navigationTheme = theme.scheme === 'dark' ? DarkTheme : DefaultTheme;
+
+  return (
+    <ThemeProvider
+      value={{
+        ...navigationTheme,
+        colors: {
+          ...navigationTheme.colors,
+          primary: theme.colors.accent,
+          background: theme.colors.background,
+        },
+      }}
+    >
+      <Stack>
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="transfer" options={{ title: t('nav.transfer') }} />
+        <Stack.Screen name="sync" options={{ title: t('nav.sync') }} />
+        <Stack.Screen name="archive" options={{ title: t('nav.archive') }} />
+        <Stack.Screen name="settings" options={{ title: t('nav.settings') }} />
+        <Stack.Screen name="task/[id]" options={{ title: t('details.title') }} />
+        <Stack.Screen name="list/[name]" options={{ title: t('nav.list') }} />
+        <Stack.Screen name="add" options={{ title: t('nav.add'), presentation: 'modal' }} />
+        <Stack.Screen name="+not-found" />
+      </Stack>
+      <StatusBar style={theme.scheme === 'dark' ? 'light' : 'dark'} />
+    </ThemeProvider>
+  );
+}
 
 export default function RootLayout() {
-  const colorScheme = useColorScheme();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
@@ -18,12 +59,12 @@ export default function RootLayout() {
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <SettingsProvider>
+        <TaskStoreProvider>
+          <RootNavigator />
+        </TaskStoreProvider>
+      </SettingsProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,126 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { createSheetStyles } from '@/components/BottomSheet';
+import { Chips } from '@/components/Chips';
+import { NotFoundView } from '@/components/NotFoundView';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { parseAddLink } from '@/lib/deepLinks';
+import { formatDueDate } from '@/lib/dueDates';
+import { nextOrder } from '@/lib/ordering';
+
+/**
+ * todoapp://add?title=...&due=... from another app or a web page. Nothing is added until
+ * the user confirms, so a link can't quietly fill the list.
+ */
+export default function AddFromLinkScreen() {
+  const params = useLocalSearchParams<{ title?: string; due?: string }>();
+  const router = useRouter();
+  const { loaded, lists, activeListId, updateTasks } = useTaskStore();
+  const [listId, setListId] = useState<string | null>(null);
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { task, errors } = parseAddLink(params, i18n);
+
+  if (!loaded) return null;
+  if (!task) {
+    return <NotFoundView title={t('link.cantAdd')} message={errors.join('\n')} />;
+  }
+
+  const targetListId = listId ?? activeListId;
+
+  // Add the task to the chosen list
+  const confirm = () => {
+    const newTask = new Task(Date.now().toString(), task.title);
+    newTask.listId = targetListId;
+    newTask.dueDate = task.dueDate;
+    updateTasks(t('history.added'), prev => [...prev, { ...newTask, order: nextOrder(prev) }]);
+    router.dismissTo('/');
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={sheetStyles.hint}>{t('link.addHint')}</Text>
+      <View style={styles.card}>
+        <Text style={styles.title}>{task.title}</Text>
+        <Text style={styles.meta}>
+          {task.dueDate === null
+            ? t('link.noDueDate')
+            : t('link.due', { date: formatDueDate(task.dueDate, Date.now(), i18n) })}
+        </Text>
+      </View>
+
+      <Text style={sheetStyles.label}>{t('link.addTo')}</Text>
+      <Chips
+        options={lists.map(list => ({ value: list.id, label: list.name }))}
+        selected={targetListId}
+        onSelect={setListId}
+      />
+
+      <TouchableOpacity onPress={confirm} style={styles.button}>
+        <Text style={styles.buttonText}>{t('tasks.add')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => router.dismissTo('/')} style={[styles.button, styles.secondary]}>
+        <Text style={[styles.buttonText, styles.secondaryText]}>{t('common.cancel')}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 48,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 16,
+      marginTop: 8,
+      elevation: 1,
+    },
+    title: {
+      fontSize: 18,
+      color: colors.text,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    meta: {
+      fontSize: 14,
+      color: colors.textMuted,
+      marginTop: 4,
+      fontFamily: 'Poppins_400Regular',
+    },
+    button: {
+      backgroundColor: colors.accent,
+      borderRadius: 8,
+      alignItems: 'center',
+      paddingVertical: 12,
+      marginTop: 24,
+    },
+    buttonText: {
+      fontSize: 16,
+      color: colors.onAccent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    secondary: {
+      marginTop: 8,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.accent,
+    },
+    secondaryText: {
+      color: colors.accent,
+    },
+  });
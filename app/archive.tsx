@@ -0,0 +1,214 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo, useState } from 'react';
+import { Alert, SectionList, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { createSheetStyles } from '@/components/BottomSheet';
+import { Chips } from '@/components/Chips';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useNow } from '@/hooks/useNow';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import {
+  ARCHIVE_RANGES,
+  AUTO_ARCHIVE_OPTIONS,
+  completionTime,
+  groupByCompletionDay,
+  searchArchive,
+  type ArchiveRange,
+  type ArchivedTask,
+} from '@/lib/archive';
+import { formatTimestamp } from '@/lib/dueDates';
+
+const formatDay = (day: number, locale: string) =>
+  new Date(day).toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+export default function ArchiveScreen() {
+  const { tasks, lists, archive } = useTaskStore();
+  const [query, setQuery] = useState('');
+  const [range, setRange] = useState<ArchiveRange>('all');
+  const now = useNow();
+  const i18n = useI18n();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+
+  const sections = useMemo(
+    () => groupByCompletionDay(searchArchive(archive.tasks, query, range, now, i18n)),
+    [archive.tasks, query, range, now, i18n]
+  );
+  const completedIds = tasks.filter(task => task.completed).map(task => task.id);
+  const { t } = i18n;
+
+  // Chips only take strings, so "never" gets a key of its own
+  const autoArchiveChips = AUTO_ARCHIVE_OPTIONS.map(option => ({
+    value: option.value === null ? 'never' : String(option.value),
+    label: option.value === null ? t('archive.autoNever') : t('archive.autoAfter', { days: option.value }),
+  }));
+  const rangeChips = ARCHIVE_RANGES.map(option => ({ ...option, label: t(`archive.range.${option.value}`) }));
+
+  const listName = (task: ArchivedTask) => lists.find(list => list.id === task.listId)?.name ?? t('lists.deleted');
+
+  const confirmRemove = (task: ArchivedTask) => {
+    Alert.alert(t('archive.deleteTitle'), t('archive.deleteMessage', { title: task.title }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('common.delete'), style: 'destructive', onPress: () => archive.remove([task.id]) },
+    ]);
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <Text style={sheetStyles.label}>{t('archive.auto')}</Text>
+      <Chips
+        options={autoArchiveChips}
+        selected={archive.autoArchiveDays === null ? 'never' : String(archive.autoArchiveDays)}
+        onSelect={value => archive.setAutoArchiveDays(value === 'never' ? null : Number(value))}
+      />
+      {completedIds.length > 0 && (
+        <TouchableOpacity onPress={() => archive.add(completedIds)} style={styles.button}>
+          <Text style={styles.buttonText}>{t('archive.archiveNow', { count: completedIds.length })}</Text>
+        </TouchableOpacity>
+      )}
+
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        placeholder={t('archive.searchPlaceholder')}
+        accessibilityLabel={t('archive.searchLabel')}
+        placeholderTextColor={colors.textMuted}
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+        style={styles.input}
+      />
+      <Chips options={rangeChips} selected={range} onSelect={setRange} />
+    </View>
+  );
+
+  return (
+    <SectionList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      sections={sections}
+      keyExtractor={task => task.id}
+      keyboardShouldPersistTaps="handled"
+      ListHeaderComponent={header}
+      ListEmptyComponent={
+        <Text style={styles.empty}>
+          {archive.tasks.length === 0 ? t('archive.empty') : t('archive.noMatches')}
+        </Text>
+      }
+      renderSectionHeader={({ section }) => (
+        <Text style={styles.sectionHeader} accessibilityRole="header">
+          {formatDay(section.day, i18n.locale)}
+        </Text>
+      )}
+      renderItem={({ item }) => (
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.title}>{item.title}</Text>
+            <Text style={styles.meta}>
+              {t('archive.meta', { list: listName(item), time: formatTimestamp(completionTime(item), i18n) })}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => archive.restore([item.id])}
+            accessibilityLabel={t('archive.restore', { title: item.title })}
+            style={styles.rowButton}
+          >
+            <Ionicons name="arrow-undo-outline" size={20} color={colors.accent} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => confirmRemove(item)}
+            accessibilityLabel={t('archive.deleteForever', { title: item.title })}
+            style={styles.rowButton}
+          >
+            <Ionicons name="trash-outline" size={20} color={colors.danger} />
+          </TouchableOpacity>
+        </View>
+      )}
+    />
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 48,
+    },
+    header: {
+      marginBottom: 8,
+    },
+    input: {
+      minHeight: 48,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      paddingHorizontal: 16,
+      marginTop: 24,
+      marginBottom: 8,
+      backgroundColor: colors.surface,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    button: {
+      backgroundColor: colors.accent,
+      borderRadius: 8,
+      alignItems: 'center',
+      paddingVertical: 12,
+      marginTop: 8,
+    },
+    buttonText: {
+      fontSize: 16,
+      color: colors.onAccent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    sectionHeader: {
+      fontSize: 14,
+      color: colors.textMuted,
+      backgroundColor: colors.background,
+      paddingTop: 16,
+      paddingBottom: 6,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingVertical: 10,
+      paddingLeft: 12,
+      paddingRight: 4,
+      marginBottom: 8,
+      elevation: 1,
+    },
+    rowText: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    meta: {
+      fontSize: 13,
+      color: colors.textMuted,
+      marginTop: 2,
+      fontFamily: 'Poppins_400Regular',
+    },
+    rowButton: {
+      padding: 8,
+    },
+    empty: {
+      fontSize: 15,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 32,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,28 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect } from 'react';
+
+import { NotFoundView } from '@/components/NotFoundView';
+import { useI18n } from '@/hooks/useI18n';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { sameListName } from '@/lib/taskFormats';
+
+// todoapp://list/<name> opens the Home tab on that list
+export default function ListLinkScreen() {
+  const { name = '' } = useLocalSearchParams<{ name: string }>();
+  const router = useRouter();
+  const { loaded, lists, setActiveListId } = useTaskStore();
+  const { t } = useI18n();
+  // Names are what people type; ids keep working after a rename
+  const list = lists.find(list => list.id === name || sameListName(list.name, name));
+
+  useEffect(() => {
+    if (!loaded || !list) return;
+    setActiveListId(list.id);
+    router.dismissTo('/');
+  }, [loaded, list, setActiveListId, router]);
+
+  if (!loaded || list) return null;
+  return (
+    <NotFoundView title={t('link.listNotFound')} message={t('link.listNotFoundMessage', { name })} />
+  );
+}
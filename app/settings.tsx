@@ -0,0 +1,262 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+
+import { createSheetStyles } from '@/components/BottomSheet';
+import { Chips } from '@/components/Chips';
+import { ACCENT_COLORS, type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { LANGUAGE_OPTIONS } from '@/lib/i18n';
+import { COMPLETED_POSITIONS, WEEK_STARTS, type WeekStart } from '@/lib/settings';
+import { SORT_OPTIONS } from '@/lib/sorting';
+import { THEME_OPTIONS } from '@/lib/theme';
+
+type SwitchRowProps = {
+  label: string;
+  hint: string;
+  value: boolean;
+  disabled?: boolean;
+  onChange: (value: boolean) => void;
+};
+
+function SwitchRow({ label, hint, value, disabled, onChange }: SwitchRowProps) {
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+
+  return (
+    <View style={styles.switchRow}>
+      <View style={styles.switchText}>
+        <Text style={styles.switchLabel}>{label}</Text>
+        <Text style={sheetStyles.hint}>{hint}</Text>
+      </View>
+      <Switch value={value} disabled={disabled} onValueChange={onChange} accessibilityLabel={label} />
+    </View>
+  );
+}
+
+export default function SettingsScreen() {
+  const { settings, updateSettings, systemReduceMotion } = useSettings();
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+  const { t } = useI18n();
+
+  const themeOptions = THEME_OPTIONS.map(option => ({ ...option, label: t(`theme.${option.value}`) }));
+  const sortOptions = SORT_OPTIONS.map(option => ({ ...option, label: t(`sort.${option.value}`) }));
+  const completedOptions = COMPLETED_POSITIONS.map(option => ({
+    ...option,
+    label: t(`settings.completed.${option.value}`),
+  }));
+  // Chips only take strings
+  const weekStartChips = WEEK_STARTS.map(option => ({
+    value: String(option.value),
+    label: t(`settings.weekStart.${option.value}`),
+  }));
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.section} accessibilityRole="header">{t('settings.appearance')}</Text>
+      <Text style={sheetStyles.label}>{t('settings.language')}</Text>
+      <Chips
+        options={LANGUAGE_OPTIONS}
+        selected={settings.language}
+        onSelect={language => updateSettings({ language })}
+      />
+      <Text style={sheetStyles.hint}>{t('settings.languageHint')}</Text>
+
+      <Text style={sheetStyles.label}>{t('settings.theme')}</Text>
+      <Chips
+        options={themeOptions}
+        selected={settings.theme}
+        onSelect={value => updateSettings({ theme: value })}
+      />
+      <Text style={sheetStyles.hint}>{t('settings.themeHint')}</Text>
+
+      <Text style={sheetStyles.label}>{t('settings.accent')}</Text>
+      <View style={styles.swatches}>
+        <TouchableOpacity
+          onPress={() => updateSettings({ accent: null })}
+          accessibilityRole="radio"
+          accessibilityLabel={t('settings.accentAutoLabel')}
+          accessibilityState={{ checked: settings.accent === null }}
+          style={[styles.swatch, styles.defaultSwatch, settings.accent === null && styles.swatchSelected]}
+        >
+          <Text style={styles.defaultText} maxFontSizeMultiplier={1.2}>{t('settings.accentAuto')}</Text>
+        </TouchableOpacity>
+        {ACCENT_COLORS.map(color => (
+          <TouchableOpacity
+            key={color.value}
+            onPress={() => updateSettings({ accent: color.value })}
+            accessibilityRole="radio"
+            accessibilityLabel={t(`accent.${color.name}`)}
+            accessibilityState={{ checked: settings.accent === color.value }}
+            style={[
+              styles.swatch,
+              { backgroundColor: color.value },
+              settings.accent === color.value && styles.swatchSelected,
+            ]}
+          >
+            {settings.accent === color.value && <Ionicons name="checkmark" size={20} color="#fff" />}
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={sheetStyles.hint}>{t('settings.accentHint')}</Text>
+
+      <Text style={sheetStyles.label}>{t('settings.preview')}</Text>
+      <View
+        style={[styles.preview, { backgroundColor: theme.colors.background }]}
+        accessibilityElementsHidden
+        importantForAccessibility="no-hide-descendants"
+      >
+        <View style={[styles.previewRow, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+          <Ionicons name="ellipse-outline" size={22} color={theme.colors.accent} />
+          <Text style={[styles.previewText, { color: theme.colors.text }]}>{t('settings.previewTask')}</Text>
+          <View style={[styles.previewTag, { backgroundColor: theme.colors.accentMuted }]}>
+            <Text style={[styles.previewTagText, { color: theme.colors.accent }]}>#{t('settings.previewTag')}</Text>
+          </View>
+        </View>
+        <View style={[styles.previewRow, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+          <Ionicons name="checkmark-circle" size={22} color={theme.colors.success} />
+          <Text style={[styles.previewText, styles.previewDone, { color: theme.colors.textMuted }]}>
+            {t('settings.previewDone')}
+          </Text>
+        </View>
+      </View>
+      <SwitchRow
+        label={t('settings.reduceMotion')}
+        hint={systemReduceMotion ? t('settings.reduceMotionSystem') : t('settings.reduceMotionHint')}
+        value={settings.reduceMotion || systemReduceMotion}
+        disabled={systemReduceMotion}
+        onChange={reduceMotion => updateSettings({ reduceMotion })}
+      />
+
+      <Text style={styles.section} accessibilityRole="header">{t('settings.tasks')}</Text>
+      <Text style={sheetStyles.label}>{t('settings.defaultSort')}</Text>
+      <Chips
+        options={sortOptions}
+        selected={settings.defaultSort}
+        onSelect={defaultSort => updateSettings({ defaultSort })}
+      />
+      <Text style={sheetStyles.hint}>{t('settings.defaultSortHint')}</Text>
+      <Text style={sheetStyles.label}>{t('settings.completedTasks')}</Text>
+      <Chips
+        options={completedOptions}
+        selected={settings.completedTasks}
+        onSelect={completedTasks => updateSettings({ completedTasks })}
+      />
+      <Text style={sheetStyles.hint}>{t('settings.completedHint')}</Text>
+      <Text style={sheetStyles.label}>{t('settings.weekStart')}</Text>
+      <Chips
+        options={weekStartChips}
+        selected={String(settings.weekStartsOn)}
+        onSelect={value => updateSettings({ weekStartsOn: Number(value) as WeekStart })}
+      />
+      <SwitchRow
+        label={t('settings.confirmDelete')}
+        hint={t('settings.confirmDeleteHint')}
+        value={settings.confirmDelete}
+        onChange={confirmDelete => updateSettings({ confirmDelete })}
+      />
+      <SwitchRow
+        label={t('settings.haptics')}
+        hint={t('settings.hapticsHint')}
+        value={settings.haptics}
+        onChange={haptics => updateSettings({ haptics })}
+      />
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 48,
+    },
+    section: {
+      fontSize: 13,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginTop: 24,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    switchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 16,
+      gap: 12,
+    },
+    switchText: {
+      flex: 1,
+    },
+    switchLabel: {
+      fontSize: 14,
+      color: colors.text,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    swatches: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+      marginTop: 12,
+    },
+    swatch: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    defaultSwatch: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    defaultText: {
+      fontSize: 11,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    swatchSelected: {
+      borderWidth: 3,
+      borderColor: colors.text,
+    },
+    preview: {
+      borderRadius: 8,
+      padding: 12,
+      marginTop: 8,
+      gap: 8,
+    },
+    previewRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 8,
+      borderWidth: StyleSheet.hairlineWidth,
+      padding: 12,
+      gap: 10,
+    },
+    previewText: {
+      flex: 1,
+      fontSize: 16,
+      fontFamily: 'Poppins_400Regular',
+    },
+    previewDone: {
+      textDecorationLine: 'line-through',
+    },
+    previewTag: {
+      borderRadius: 10,
+      paddingHorizontal: 8,
+      paddingVertical: 1,
+    },
+    previewTagText: {
+      fontSize: 12,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { createSheetStyles } from '@/components/BottomSheet';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { formatDueDate } from '@/lib/dueDates';
+
+export default function SyncScreen() {
+  const { sync } = useTaskStore();
+  const [endpoint, setEndpoint] = useState(sync.endpoint ?? '');
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  // Follow the stored endpoint once it has loaded
+  useEffect(() => setEndpoint(sync.endpoint ?? ''), [sync.endpoint]);
+
+  const edited = endpoint.trim() !== (sync.endpoint ?? '');
+  const valid = /^https?:\/\/\S+$/.test(endpoint.trim());
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={sheetStyles.hint}>{t('sync.intro')}</Text>
+
+      <Text style={sheetStyles.label}>{t('sync.server')}</Text>
+      <TextInput
+        value={endpoint}
+        onChangeText={setEndpoint}
+        placeholder="http://192.168.1.20:4000"
+        accessibilityLabel={t('sync.server')}
+        placeholderTextColor={colors.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        style={styles.input}
+      />
+      <Text style={sheetStyles.hint}>{t('sync.devHint')}</Text>
+      <View style={styles.buttons}>
+        <TouchableOpacity
+          onPress={() => sync.setEndpoint(endpoint)}
+          disabled={!edited || !valid}
+          style={[styles.button, (!edited || !valid) && sheetStyles.optionDisabled]}
+        >
+          <Text style={styles.buttonText}>{sync.endpoint ? t('sync.switchServer') : t('sync.turnOn')}</Text>
+        </TouchableOpacity>
+        {sync.endpoint && (
+          <TouchableOpacity onPress={() => sync.setEndpoint(null)} style={[styles.button, styles.secondary]}>
+            <Text style={[styles.buttonText, styles.secondaryText]}>{t('sync.turnOff')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.status}>
+        <Text style={styles.statusTitle}>{t(`sync.status.${sync.status}`)}</Text>
+        {sync.status !== 'off' && (
+          <>
+            <Text style={styles.statusText}>
+              {sync.lastSyncedAt === null
+                ? t('sync.neverSynced')
+                : t('sync.lastSynced', { date: formatDueDate(sync.lastSyncedAt, Date.now(), i18n) })}
+            </Text>
+            <Text style={styles.statusText}>{t('sync.pending', { count: sync.pending })}</Text>
+          </>
+        )}
+        {sync.error && <Text style={styles.error}>{t('sync.failed', { detail: sync.error })}</Text>}
+      </View>
+
+      {sync.endpoint && (
+        <TouchableOpacity
+          onPress={sync.syncNow}
+          disabled={sync.status === 'syncing'}
+          style={[styles.button, sync.status === 'syncing' && sheetStyles.optionDisabled]}
+        >
+          <Text style={styles.buttonText}>{t('sync.syncNow')}</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 48,
+    },
+    input: {
+      height: 48,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      paddingHorizontal: 16,
+      marginTop: 8,
+      backgroundColor: colors.surface,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    button: {
+      flex: 1,
+      backgroundColor: colors.accent,
+      borderRadius: 8,
+      alignItems: 'center',
+      paddingVertical: 12,
+      marginTop: 8,
+    },
+    buttonText: {
+      fontSize: 16,
+      color: colors.onAccent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    secondary: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.danger,
+    },
+    secondaryText: {
+      color: colors.danger,
+    },
+    status: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      marginTop: 24,
+      elevation: 1,
+    },
+    statusTitle: {
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    statusText: {
+      fontSize: 14,
+      color: colors.textMuted,
+      marginTop: 2,
+      fontFamily: 'Poppins_400Regular',
+    },
+    error: {
+      fontSize: 13,
+      color: colors.danger,
+      marginTop: 4,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
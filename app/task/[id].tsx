@@ -0,0 +1,405 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { DueDatePicker } from '@/components/DueDatePicker';
+import { MarkdownText } from '@/components/MarkdownText';
+import { NotFoundView } from '@/components/NotFoundView';
+import { OptionSheet } from '@/components/OptionSheet';
+import { RecurrenceSheet } from '@/components/RecurrenceSheet';
+import { ReminderSheet } from '@/components/ReminderSheet';
+import { TagSheet } from '@/components/TagSheet';
+import { getTaskActionItems, TaskActionRow, type TaskAction } from '@/components/TaskActionsSheet';
+import { type Palette } from '@/constants/Colors';
+import { useConfirmDelete } from '@/hooks/useConfirmDelete';
+import { useI18n } from '@/hooks/useI18n';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { setCompleted } from '@/lib/completion';
+import { formatTimestamp } from '@/lib/dueDates';
+import { PRIORITIES } from '@/lib/priority';
+import { toggleSubtask } from '@/lib/subtasks';
+
+// Shown on the detail screen itself rather than as a property row
+const INLINE_ACTIONS: TaskAction[] = ['subtasks', 'snooze', 'archive', 'delete'];
+
+/**
+ * Everything about one task, opened by tapping it or through todoapp://task/<id>. Edits go
+ * through the shared store, so they're saved, synced and undoable like those on the list.
+ */
+export default function TaskScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { loaded, tasks, updateTasks, lists, setActiveListId } = useTaskStore();
+  const task = tasks.find(task => task.id === id);
+  const [sheet, setSheet] = useState<TaskAction | null>(null);
+  // Drafts are null while not being edited, and saved when the field loses focus
+  const [draftTitle, setDraftTitle] = useState<string | null>(null);
+  const [draftNotes, setDraftNotes] = useState<string | null>(null);
+  const [stepTitle, setStepTitle] = useState('');
+  const confirmDelete = useConfirmDelete();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  if (!loaded) return null;
+  if (!task) {
+    return <NotFoundView title={t('details.notFound')} message={t('details.notFoundMessage')} />;
+  }
+
+  const list = lists.find(list => list.id === task.listId);
+  const closeSheet = () => setSheet(null);
+
+  // Apply changes to this task
+  const change = (label: string, changes: Partial<Task>) =>
+    updateTasks(label, prev => prev.map(item => (item.id === task.id ? { ...item, ...changes } : item)));
+
+  // Save the title once editing ends; an emptied title keeps the old one
+  const saveTitle = () => {
+    const title = draftTitle?.trim();
+    if (title && title !== task.title) change(t('history.renamed'), { title });
+    setDraftTitle(null);
+  };
+
+  const saveNotes = () => {
+    if (draftNotes !== null && draftNotes !== task.notes) {
+      change(t('history.notesEdited'), { notes: draftNotes.trimEnd() });
+    }
+    setDraftNotes(null);
+  };
+
+  const addStep = () => {
+    if (stepTitle.trim() === '') return;
+    const step = { id: Date.now().toString(), title: stepTitle.trim(), completed: false };
+    change(t('history.updated'), { subtasks: [...task.subtasks, step] });
+    setStepTitle('');
+  };
+
+  // Show the task where it lives on the Home tab
+  const showInList = () => {
+    setActiveListId(task.listId);
+    router.dismissTo('/');
+  };
+
+  const deleteTask = () =>
+    confirmDelete(t('tasks.deleteOne'), () => {
+      router.back();
+      updateTasks(t('history.deleted'), prev => prev.filter(item => item.id !== task.id));
+    });
+
+  const timestamps = [
+    { label: t('details.created'), time: task.createdAt },
+    { label: t('details.updated'), time: task.updatedAt },
+    { label: t('details.completed'), time: task.completed ? task.completedAt : null },
+  ];
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <Stack.Screen options={{ title: list?.name ?? t('details.title') }} />
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.titleRow}>
+          <TouchableOpacity
+            onPress={() => updateTasks(t('history.completion'), prev => setCompleted(prev, [task.id], !task.completed))}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: task.completed }}
+            accessibilityLabel={task.title}
+          >
+            <Ionicons
+              name={task.completed ? 'checkmark-circle' : 'ellipse-outline'}
+              size={28}
+              color={task.completed ? colors.success : colors.accent}
+            />
+          </TouchableOpacity>
+          <TextInput
+            value={draftTitle ?? task.title}
+            onFocus={() => setDraftTitle(task.title)}
+            onChangeText={setDraftTitle}
+            onBlur={saveTitle}
+            multiline
+            blurOnSubmit
+            returnKeyType="done"
+            style={[styles.title, task.completed && styles.completed]}
+          />
+        </View>
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>{t('details.notes')}</Text>
+          {draftNotes === null ? (
+            <TouchableOpacity onPress={() => setDraftNotes(task.notes)}>
+              <Text style={styles.link}>{task.notes === '' ? t('actions.add') : t('details.editNotes')}</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={saveNotes}>
+              <Text style={styles.link}>{t('sheet.done')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={styles.card}>
+          {draftNotes !== null ? (
+            <TextInput
+              value={draftNotes}
+              onChangeText={setDraftNotes}
+              onBlur={saveNotes}
+              placeholder={t('details.notesPlaceholder')}
+              placeholderTextColor={colors.textMuted}
+              multiline
+              autoFocus
+              style={styles.notesInput}
+            />
+          ) : task.notes === '' ? (
+            <Text style={styles.placeholder} onPress={() => setDraftNotes('')}>
+              {t('details.noNotes')}
+            </Text>
+          ) : (
+            <MarkdownText text={task.notes} />
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('details.details')}</Text>
+        <View style={styles.card}>
+          {getTaskActionItems(task, list?.name, i18n)
+            .filter(item => !INLINE_ACTIONS.includes(item.action))
+            .map(item => (
+              <TaskActionRow key={item.action} item={item} onPress={() => setSheet(item.action)} />
+            ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('details.steps')}</Text>
+        <View style={styles.card}>
+          {task.subtasks.map(step => (
+            <View key={step.id} style={styles.step}>
+              <TouchableOpacity
+                onPress={() => change(t('history.updated'), toggleSubtask(task, step.id))}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: step.completed }}
+                accessibilityLabel={step.title}
+              >
+                <Ionicons
+                  name={step.completed ? 'checkbox' : 'square-outline'}
+                  size={20}
+                  color={step.completed ? colors.success : colors.accent}
+                />
+              </TouchableOpacity>
+              <Text style={[styles.stepText, step.completed && styles.completed]}>{step.title}</Text>
+              <TouchableOpacity
+                onPress={() => change(t('history.updated'), { subtasks: task.subtasks.filter(item => item.id !== step.id) })}
+                accessibilityLabel={t('task.removeStep', { title: step.title })}
+                hitSlop={8}
+              >
+                <Ionicons name="close" size={16} color={colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TextInput
+            value={stepTitle}
+            onChangeText={setStepTitle}
+            onSubmitEditing={addStep}
+            placeholder={t('task.addStep')}
+            placeholderTextColor={colors.textMuted}
+            blurOnSubmit={false}
+            returnKeyType="done"
+            style={styles.stepInput}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('details.history')}</Text>
+        <View style={styles.card}>
+          {timestamps.map(({ label, time }) => (
+            <View key={label} style={styles.timestamp}>
+              <Text style={styles.timestampLabel}>{label}</Text>
+              <Text style={styles.timestampValue}>{time === null ? '—' : formatTimestamp(time, i18n)}</Text>
+            </View>
+          ))}
+        </View>
+
+        <TouchableOpacity onPress={showInList} style={styles.button}>
+          <Text style={styles.buttonText}>{t('details.showInList')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={deleteTask} style={[styles.button, styles.deleteButton]}>
+          <Text style={[styles.buttonText, styles.deleteText]}>{t('details.delete')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <DueDatePicker
+        visible={sheet === 'dueDate'}
+        value={task.dueDate}
+        onConfirm={dueDate => {
+          change(t('history.updated'), { dueDate });
+          closeSheet();
+        }}
+        onCancel={closeSheet}
+      />
+      <ReminderSheet
+        task={sheet === 'reminders' ? task : undefined}
+        onChange={reminders => change(t('history.updated'), { reminders })}
+        onClose={closeSheet}
+      />
+      <RecurrenceSheet
+        task={sheet === 'recurrence' ? task : undefined}
+        onChange={recurrence => change(t('history.updated'), { recurrence })}
+        onClose={closeSheet}
+      />
+      <OptionSheet
+        title={t('tasks.priorityTitle', { title: task.title })}
+        visible={sheet === 'priority'}
+        options={PRIORITIES.map(option => ({ ...option, label: t(`priority.${option.value}`) }))}
+        selected={task.priority}
+        onSelect={priority => {
+          change(t('history.updated'), { priority });
+          closeSheet();
+        }}
+        onClose={closeSheet}
+      />
+      <TagSheet
+        title={t('tasks.tagsTitle', { title: task.title })}
+        visible={sheet === 'tags'}
+        tags={task.tags}
+        allTasks={tasks}
+        onChange={tags => change(t('history.updated'), { tags })}
+        onClose={closeSheet}
+      />
+      <OptionSheet
+        title={t('tasks.moveTitle', { title: task.title })}
+        visible={sheet === 'list'}
+        options={lists.map(list => ({ value: list.id, label: list.name, color: list.color }))}
+        selected={task.listId}
+        onSelect={listId => {
+          change(t('history.updated'), { listId });
+          closeSheet();
+        }}
+        onClose={closeSheet}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 48,
+    },
+    titleRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+    },
+    title: {
+      flex: 1,
+      marginLeft: 10,
+      paddingTop: 0,
+      fontSize: 22,
+      color: colors.text,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    completed: {
+      textDecorationLine: 'line-through',
+      color: colors.textMuted,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'baseline',
+    },
+    sectionTitle: {
+      fontSize: 14,
+      color: colors.textMuted,
+      marginTop: 24,
+      marginBottom: 6,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    link: {
+      fontSize: 14,
+      color: colors.accent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      elevation: 1,
+    },
+    notesInput: {
+      minHeight: 120,
+      fontSize: 15,
+      color: colors.text,
+      textAlignVertical: 'top',
+      fontFamily: 'Poppins_400Regular',
+    },
+    placeholder: {
+      fontSize: 15,
+      color: colors.textMuted,
+      paddingVertical: 4,
+      fontFamily: 'Poppins_400Regular',
+    },
+    step: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 6,
+    },
+    stepText: {
+      flex: 1,
+      marginHorizontal: 8,
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    stepInput: {
+      fontSize: 15,
+      color: colors.text,
+      paddingVertical: 6,
+      fontFamily: 'Poppins_400Regular',
+    },
+    timestamp: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 6,
+    },
+    timestampLabel: {
+      fontSize: 15,
+      color: colors.textMuted,
+      fontFamily: 'Poppins_400Regular',
+    },
+    timestampValue: {
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    button: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.accent,
+      borderRadius: 8,
+      alignItems: 'center',
+      paddingVertical: 12,
+      marginTop: 24,
+    },
+    buttonText: {
+      fontSize: 16,
+      color: colors.accent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    deleteButton: {
+      marginTop: 8,
+      borderColor: colors.danger,
+    },
+    deleteText: {
+      color: colors.danger,
+    },
+  });
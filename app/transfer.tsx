@@ -0,0 +1,257 @@
+import { useRouter } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { createSheetStyles } from '@/components/BottomSheet';
+import { Chips } from '@/components/Chips';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTaskStore } from '@/hooks/useTaskStore';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import {
+  detectFormat,
+  exportTasks,
+  parseTasks,
+  TRANSFER_FORMATS,
+  type TransferFormat,
+} from '@/lib/taskFormats';
+import { applyImport, DUPLICATE_MODES, planImport, type DuplicateMode } from '@/lib/taskImport';
+
+// How many parsed tasks the import preview lists before summarising the rest
+const PREVIEW_LIMIT = 20;
+
+export default function TransferScreen() {
+  const router = useRouter();
+  const { tasks, updateTasks, lists, setLists, activeListId } = useTaskStore();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+  const { t } = useI18n();
+  const [exportFormat, setExportFormat] = useState<TransferFormat>('json');
+  const [importText, setImportText] = useState('');
+  // null detects the format from the pasted text
+  const [importFormat, setImportFormat] = useState<TransferFormat | null>(null);
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
+
+  const format = importFormat ?? detectFormat(importText);
+  // Calendar tasks are matched by UID alone, and always update the task they match
+  const byUid = format === 'ical';
+  const mode = byUid ? 'replace' : duplicateMode;
+  const parsed = useMemo(
+    () => (importText.trim() === '' ? null : parseTasks(format, importText)),
+    [format, importText]
+  );
+  const items = useMemo(
+    () => (parsed ? planImport(parsed.entries, tasks, lists, activeListId, !byUid) : []),
+    [parsed, tasks, lists, activeListId, byUid]
+  );
+  const duplicates = items.filter(item => item.duplicateOf).length;
+  const importCount = mode === 'skip' ? items.length - duplicates : items.length;
+
+  // Hand the export to the system share sheet, e.g. to save it to Files or send it on
+  const shareExport = async () => {
+    const { extension } = TRANSFER_FORMATS.find(option => option.value === exportFormat)!;
+    try {
+      await Share.share({ title: `tasks.${extension}`, message: exportTasks(exportFormat, tasks, lists) });
+    } catch (e) {
+      Alert.alert(t('transfer.exportFailed'), (e as Error).message);
+    }
+  };
+
+  // Add the parsed tasks as one undoable change
+  const runImport = () => {
+    const result = applyImport(items, tasks, lists, mode);
+    updateTasks(t('transfer.imported', { count: importCount }), result.tasks);
+    setLists(result.lists);
+    setImportText('');
+    router.back();
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionTitle}>{t('transfer.export')}</Text>
+        <Text style={sheetStyles.hint}>{t('transfer.exportHint')}</Text>
+        <Chips options={TRANSFER_FORMATS} selected={exportFormat} onSelect={setExportFormat} />
+        <TouchableOpacity onPress={shareExport} style={styles.button}>
+          <Text style={styles.buttonText}>{t('transfer.exportButton', { count: tasks.length })}</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>{t('transfer.import')}</Text>
+        <TextInput
+          value={importText}
+          onChangeText={setImportText}
+          placeholder={t('transfer.placeholder')}
+          placeholderTextColor={colors.textMuted}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={styles.importInput}
+        />
+        <Text style={sheetStyles.label}>{t('transfer.format')}</Text>
+        <Chips
+          options={TRANSFER_FORMATS.map(option => ({
+            ...option,
+            label:
+              importFormat === null && option.value === format
+                ? t('transfer.detected', { format: option.label })
+                : option.label,
+          }))}
+          selected={format}
+          onSelect={setImportFormat}
+        />
+        <Text style={sheetStyles.label}>{t('transfer.existing')}</Text>
+        {byUid ? (
+          <Text style={sheetStyles.hint}>{t('transfer.uidHint')}</Text>
+        ) : (
+          <Chips
+            options={DUPLICATE_MODES.map(option => ({ ...option, label: t(`transfer.mode.${option.value}`) }))}
+            selected={duplicateMode}
+            onSelect={setDuplicateMode}
+          />
+        )}
+
+        {parsed && (
+          <View style={styles.preview}>
+            <Text style={styles.summary}>
+              {t('transfer.summary', { found: items.length, duplicates, problems: parsed.errors.length })}
+            </Text>
+            {items.slice(0, PREVIEW_LIMIT).map(({ entry, duplicateOf }, index) => (
+              <View key={index} style={styles.previewRow}>
+                <Text style={[styles.previewTitle, entry.task.completed && styles.completed]} numberOfLines={1}>
+                  {entry.task.title}
+                </Text>
+                {entry.listName && <Text style={styles.previewMeta}>{entry.listName}</Text>}
+                {duplicateOf && <Text style={styles.duplicate}>{t(byUid ? 'transfer.update' : 'transfer.duplicate')}</Text>}
+              </View>
+            ))}
+            {items.length > PREVIEW_LIMIT && (
+              <Text style={sheetStyles.hint}>{t('transfer.more', { count: items.length - PREVIEW_LIMIT })}</Text>
+            )}
+            {parsed.errors.map((error, index) => (
+              <Text key={index} style={styles.error}>
+                {t('transfer.issue', {
+                  where: t(error.where.key, error.where.values),
+                  message: t(error.message.key, error.message.values),
+                })}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity
+          onPress={runImport}
+          disabled={importCount === 0}
+          style={[styles.button, importCount === 0 && sheetStyles.optionDisabled]}
+        >
+          <Text style={styles.buttonText}>{t('transfer.importButton', { count: importCount })}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 48,
+    },
+    sectionTitle: {
+      fontSize: 20,
+      color: colors.text,
+      marginTop: 8,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    button: {
+      backgroundColor: colors.accent,
+      borderRadius: 8,
+      alignItems: 'center',
+      paddingVertical: 12,
+      marginTop: 8,
+      marginBottom: 24,
+    },
+    buttonText: {
+      fontSize: 16,
+      color: colors.onAccent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    importInput: {
+      minHeight: 120,
+      maxHeight: 240,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      padding: 12,
+      marginTop: 8,
+      backgroundColor: colors.surface,
+      fontSize: 13,
+      color: colors.text,
+      textAlignVertical: 'top',
+      fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    },
+    preview: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      marginTop: 8,
+      elevation: 1,
+    },
+    summary: {
+      fontSize: 14,
+      color: colors.text,
+      marginBottom: 4,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    previewRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 2,
+    },
+    previewTitle: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    completed: {
+      textDecorationLine: 'line-through',
+      color: colors.textMuted,
+    },
+    previewMeta: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginLeft: 8,
+      fontFamily: 'Poppins_400Regular',
+    },
+    duplicate: {
+      fontSize: 12,
+      color: colors.warning,
+      marginLeft: 8,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    error: {
+      fontSize: 13,
+      color: colors.danger,
+      marginTop: 4,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,110 @@
+import { type PropsWithChildren } from 'react';
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+type Props = PropsWithChildren<{
+  title: string;
+  onClose: () => void;
+}>;
+
+export function BottomSheet({ title, onClose, children }: Props) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  return (
+    <Modal transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title} numberOfLines={1}>
+            {title}
+          </Text>
+          {children}
+          <TouchableOpacity onPress={onClose} style={styles.doneButton}>
+            <Text style={styles.doneText}>{t('sheet.done')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// Pill-shaped option buttons shared by the sheets
+export const createSheetStyles = (colors: Palette) =>
+  StyleSheet.create({
+    options: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginTop: 12,
+    },
+    option: {
+      borderWidth: 1,
+      borderColor: colors.accent,
+      borderRadius: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    optionSelected: {
+      backgroundColor: colors.accent,
+    },
+    optionDisabled: {
+      opacity: 0.4,
+    },
+    optionText: {
+      fontSize: 13,
+      color: colors.accent,
+      fontFamily: 'Poppins_400Regular',
+    },
+    optionSelectedText: {
+      color: colors.onAccent,
+    },
+    label: {
+      fontSize: 14,
+      color: colors.text,
+      marginTop: 12,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    hint: {
+      fontSize: 13,
+      color: colors.textMuted,
+      marginVertical: 4,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0,0,0,0.4)',
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 16,
+      borderTopRightRadius: 16,
+      padding: 20,
+      paddingBottom: 32,
+    },
+    title: {
+      fontSize: 18,
+      color: colors.text,
+      marginBottom: 12,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    doneButton: {
+      alignSelf: 'flex-end',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      marginTop: 8,
+    },
+    doneText: {
+      fontSize: 16,
+      color: colors.accent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+  });
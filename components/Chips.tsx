@@ -0,0 +1,37 @@
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+
+import { createSheetStyles } from '@/components/BottomSheet';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+type ChipsProps<T extends string> = {
+  options: { value: T; label: string }[];
+  selected: T | null;
+  onSelect: (value: T) => void;
+};
+
+// A row of single-choice options, styled like the ones in the bottom sheets
+export function Chips<T extends string>({ options, selected, onSelect }: ChipsProps<T>) {
+  const sheetStyles = useThemedStyles(createSheetStyles);
+
+  return (
+    <View style={sheetStyles.options}>
+      {options.map(option => {
+        const active = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => onSelect(option.value)}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: active }}
+            style={[sheetStyles.option, active && sheetStyles.optionSelected]}
+          >
+            <Text style={[sheetStyles.optionText, active && sheetStyles.optionSelectedText]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,69 @@
+import * as Haptics from 'expo-haptics';
+import { type PropsWithChildren } from 'react';
+import { type LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+
+import { useHaptics } from '@/hooks/useHaptics';
+
+type Props = PropsWithChildren<{
+  id: string;
+  enabled: boolean;
+  onLayout: (id: string, height: number) => void;
+  // Called on release with how far the row was dragged
+  onDrop: (id: string, translationY: number) => void;
+}>;
+
+const LONG_PRESS_MS = 300;
+
+// Long-press a row to lift it, then drag it to a new position
+export function DraggableRow({ id, enabled, onLayout, onDrop, children }: Props) {
+  const translateY = useSharedValue(0);
+  const lifted = useSharedValue(false);
+  const impact = useHaptics();
+  const pickUpFeedback = () => impact(Haptics.ImpactFeedbackStyle.Medium);
+
+  const pan = Gesture.Pan()
+    .enabled(enabled)
+    .activateAfterLongPress(LONG_PRESS_MS)
+    .onStart(() => {
+      lifted.value = true;
+      runOnJS(pickUpFeedback)();
+    })
+    .onUpdate(event => {
+      translateY.value = event.translationY;
+    })
+    .onEnd(event => {
+      runOnJS(onDrop)(id, event.translationY);
+    })
+    .onFinalize(() => {
+      // The list re-renders in the new order, so snap back rather than animate
+      lifted.value = false;
+      translateY.value = 0;
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateY: translateY.value },
+      { scale: withTiming(lifted.value ? 1.03 : 1, { duration: 150 }) },
+    ],
+    zIndex: lifted.value ? 10 : 0,
+    opacity: lifted.value ? 0.9 : 1,
+  }));
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Animated.View
+        style={animatedStyle}
+        onLayout={(event: LayoutChangeEvent) => onLayout(id, event.nativeEvent.layout.height)}
+      >
+        {children}
+      </Animated.View>
+    </GestureDetector>
+  );
+}
@@ -0,0 +1,110 @@
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useEffect, useState } from 'react';
+import { Modal, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+
+type Props = {
+  visible: boolean;
+  value: number | null;
+  onConfirm: (dueDate: number) => void;
+  onCancel: () => void;
+};
+
+// New due dates start at the next full hour
+function defaultDueDate(): Date {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+}
+
+export function DueDatePicker({ visible, value, onConfirm, onCancel }: Props) {
+  const [draft, setDraft] = useState(() => (value ? new Date(value) : defaultDueDate()));
+  const [step, setStep] = useState<'date' | 'time'>('date');
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(value ? new Date(value) : defaultDueDate());
+      setStep('date');
+    }
+  }, [visible, value]);
+
+  if (!visible) return null;
+
+  // Android only offers separate date and time dialogs, so chain them
+  if (Platform.OS === 'android') {
+    const onChange = (event: DateTimePickerEvent, date?: Date) => {
+      if (event.type !== 'set' || !date) {
+        onCancel();
+      } else if (step === 'date') {
+        setDraft(date);
+        setStep('time');
+      } else {
+        onConfirm(date.getTime());
+      }
+    };
+    return <DateTimePicker value={draft} mode={step} onChange={onChange} />;
+  }
+
+  return (
+    <Modal transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <DateTimePicker
+            value={draft}
+            mode="datetime"
+            display="inline"
+            themeVariant={theme.scheme}
+            onChange={(_, date) => date && setDraft(date)}
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={onCancel} style={styles.action}>
+              <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onConfirm(draft.getTime())} style={styles.action}>
+              <Text style={styles.confirmText}>{t('sheet.done')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'center',
+      padding: 20,
+      backgroundColor: 'rgba(0,0,0,0.4)',
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 12,
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+    },
+    action: {
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    cancelText: {
+      fontSize: 16,
+      color: colors.textMuted,
+      fontFamily: 'Poppins_400Regular',
+    },
+    confirmText: {
+      fontSize: 16,
+      color: colors.accent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+  });
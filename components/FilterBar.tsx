@@ -0,0 +1,139 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { type Palette } from '@/constants/Colors';
+import { type MessageKey } from '@/constants/Messages';
+import { useI18n } from '@/hooks/useI18n';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { isFilterActive, type StatusFilter, type TaskFilter } from '@/lib/tags';
+
+type Props = {
+  filter: TaskFilter;
+  // Tags in use in the current list, most used first
+  tags: string[];
+  onChange: (filter: TaskFilter) => void;
+  // Long-pressing a tag opens rename/delete
+  onManageTag: (tag: string) => void;
+};
+
+const STATUSES: { label: MessageKey; value: StatusFilter }[] = [
+  { label: 'filter.all', value: 'all' },
+  { label: 'filter.open', value: 'open' },
+  { label: 'filter.completed', value: 'completed' },
+];
+
+export function FilterBar({ filter, tags, onChange, onManageTag }: Props) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const toggleTag = (tag: string) =>
+    onChange({
+      ...filter,
+      tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag],
+    });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.segments} accessibilityRole="tablist">
+        {STATUSES.map(({ label, value }) => (
+          <TouchableOpacity
+            key={value}
+            onPress={() => onChange({ ...filter, status: value })}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: filter.status === value }}
+            style={[styles.segment, filter.status === value && styles.segmentActive]}
+          >
+            <Text style={[styles.segmentText, filter.status === value && styles.segmentTextActive]}>
+              {t(label)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {tags.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {isFilterActive(filter) && (
+            <TouchableOpacity
+              onPress={() => onChange({ status: 'all', tags: [] })}
+              accessibilityLabel={t('filter.clearLabel')}
+              style={styles.chip}
+            >
+              <Text style={styles.clearText}>{t('filter.clear')}</Text>
+            </TouchableOpacity>
+          )}
+          {tags.map(tag => {
+            const selected = filter.tags.includes(tag);
+            return (
+              <TouchableOpacity
+                key={tag}
+                onPress={() => toggleTag(tag)}
+                onLongPress={() => onManageTag(tag)}
+                accessibilityLabel={t('filter.tag', { tag })}
+                accessibilityState={{ selected }}
+                accessibilityActions={[{ name: 'longpress', label: t('filter.manageTag') }]}
+                onAccessibilityAction={() => onManageTag(tag)}
+                style={[styles.chip, selected && styles.chipSelected]}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>#{tag}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 12,
+    },
+    segments: {
+      flexDirection: 'row',
+      borderWidth: 1,
+      borderColor: colors.accent,
+      borderRadius: 8,
+      overflow: 'hidden',
+      marginBottom: 8,
+    },
+    segment: {
+      flex: 1,
+      paddingVertical: 6,
+      alignItems: 'center',
+    },
+    segmentActive: {
+      backgroundColor: colors.accent,
+    },
+    segmentText: {
+      fontSize: 14,
+      color: colors.accent,
+      fontFamily: 'Poppins_400Regular',
+    },
+    segmentTextActive: {
+      color: colors.onAccent,
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 14,
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      marginRight: 6,
+      backgroundColor: colors.surface,
+    },
+    chipSelected: {
+      borderColor: colors.accent,
+      backgroundColor: colors.accent,
+    },
+    chipText: {
+      fontSize: 13,
+      color: colors.textMuted,
+      fontFamily: 'Poppins_400Regular',
+    },
+    chipTextSelected: {
+      color: colors.onAccent,
+    },
+    clearText: {
+      fontSize: 13,
+      color: colors.danger,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
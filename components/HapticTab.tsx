@@ -1,16 +1,16 @@
 import { BottomTabBarButtonProps } from '@react-navigation/bottom-tabs';
 import { PlatformPressable } from '@react-navigation/elements';
-import * as Haptics from 'expo-haptics';
+
+import { useHaptics } from '@/hooks/useHaptics';
 
 export function HapticTab(props: BottomTabBarButtonProps) {
+  const impact = useHaptics();
   return (
     <PlatformPressable
       {...props}
       onPressIn={(ev) => {
-        if (process.env.EXPO_OS === 'ios') {
-          // Add a soft haptic feedback when pressing down on the tabs.
-          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-        }
+        // Add a soft haptic feedback when pressing down on the tabs.
+        impact();
         props.onPressIn?.(ev);
       }}
     />
@@ -0,0 +1,36 @@
+import { Text, type StyleProp, type TextProps, type TextStyle } from 'react-native';
+
+type Props = TextProps & {
+  text: string;
+  // Character positions to emphasise, in ascending order
+  matches: number[];
+  highlightStyle: StyleProp<TextStyle>;
+};
+
+// Text with the characters a search matched picked out
+export function HighlightedText({ text, matches, highlightStyle, ...rest }: Props) {
+  if (matches.length === 0) return <Text {...rest}>{text}</Text>;
+
+  const matched = new Set(matches);
+  const parts: { text: string; highlighted: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const highlighted = matched.has(i);
+    const last = parts[parts.length - 1];
+    if (last && last.highlighted === highlighted) last.text += text[i];
+    else parts.push({ text: text[i], highlighted });
+  }
+
+  return (
+    <Text {...rest}>
+      {parts.map((part, i) =>
+        part.highlighted ? (
+          <Text key={i} style={highlightStyle}>
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        )
+      )}
+    </Text>
+  );
+}
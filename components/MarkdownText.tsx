@@ -0,0 +1,179 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo } from 'react';
+import { Linking, Platform, StyleSheet, Text, View } from 'react-native';
+
+import { type Palette } from '@/constants/Colors';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { parseMarkdown, type InlineSpan, type MarkdownBlock } from '@/lib/markdown';
+
+type Props = {
+  text: string;
+};
+
+function Spans({ spans }: { spans: InlineSpan[] }) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <>
+      {spans.map((span, index) => (
+        <Text
+          key={index}
+          onPress={span.url ? () => Linking.openURL(span.url!) : undefined}
+          style={[
+            span.bold && styles.bold,
+            span.italic && styles.italic,
+            span.code && styles.inlineCode,
+            span.url !== undefined && styles.link,
+          ]}
+        >
+          {span.text}
+        </Text>
+      ))}
+    </>
+  );
+}
+
+function Block({ block }: { block: MarkdownBlock }) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  switch (block.type) {
+    case 'heading':
+      return (
+        <Text style={[styles.text, styles.heading, block.level === 1 && styles.headingLarge]}>
+          <Spans spans={block.spans} />
+        </Text>
+      );
+    case 'bullet':
+    case 'numbered': {
+      const done = block.type === 'bullet' && block.checked === true;
+      return (
+        <View style={[styles.listItem, { marginLeft: block.depth * 16 }]}>
+          {block.type === 'numbered' ? (
+            <Text style={[styles.text, styles.marker]}>{block.number}.</Text>
+          ) : block.checked === null ? (
+            <Text style={[styles.text, styles.marker]}>•</Text>
+          ) : (
+            <Ionicons
+              name={block.checked ? 'checkbox' : 'square-outline'}
+              size={16}
+              color={block.checked ? colors.success : colors.textMuted}
+              style={styles.checkbox}
+            />
+          )}
+          <Text style={[styles.text, styles.listText, done && styles.done]}>
+            <Spans spans={block.spans} />
+          </Text>
+        </View>
+      );
+    }
+    case 'quote':
+      return (
+        <View style={styles.quote}>
+          <Text style={[styles.text, styles.quoteText]}>
+            <Spans spans={block.spans} />
+          </Text>
+        </View>
+      );
+    case 'code':
+      return (
+        <View style={styles.codeBlock}>
+          <Text style={styles.codeText}>{block.text}</Text>
+        </View>
+      );
+    default:
+      return (
+        <Text style={styles.text}>
+          <Spans spans={block.spans} />
+        </Text>
+      );
+  }
+}
+
+// Renders task notes; see lib/markdown for what's supported
+export function MarkdownText({ text }: Props) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.container}>
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} />
+      ))}
+    </View>
+  );
+}
+
+const monospace = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      gap: 6,
+    },
+    text: {
+      fontSize: 15,
+      lineHeight: 22,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    heading: {
+      fontSize: 17,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    headingLarge: {
+      fontSize: 20,
+      lineHeight: 28,
+    },
+    bold: {
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    italic: {
+      fontStyle: 'italic',
+    },
+    inlineCode: {
+      fontFamily: monospace,
+      fontSize: 14,
+      backgroundColor: colors.surfaceMuted,
+    },
+    link: {
+      color: colors.accent,
+      textDecorationLine: 'underline',
+    },
+    listItem: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+    },
+    marker: {
+      width: 20,
+      color: colors.textMuted,
+    },
+    checkbox: {
+      width: 20,
+      marginTop: 3,
+    },
+    listText: {
+      flex: 1,
+    },
+    done: {
+      textDecorationLine: 'line-through',
+      color: colors.textMuted,
+    },
+    quote: {
+      borderLeftWidth: 3,
+      borderLeftColor: colors.border,
+      paddingLeft: 10,
+    },
+    quoteText: {
+      color: colors.textMuted,
+    },
+    codeBlock: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 6,
+      padding: 10,
+    },
+    codeText: {
+      fontSize: 13,
+      color: colors.text,
+      fontFamily: monospace,
+    },
+  });
@@ -0,0 +1,69 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+
+type Props = {
+  title: string;
+  message: string;
+};
+
+// Where a link leads nowhere: an unknown route, or a task or list that no longer exists
+export function NotFoundView({ title, message }: Props) {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="help-circle-outline" size={56} color={colors.textMuted} />
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.message}>{message}</Text>
+      <TouchableOpacity onPress={() => router.dismissTo('/')} style={styles.button}>
+        <Text style={styles.buttonText}>{t('link.goHome')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 32,
+      backgroundColor: colors.background,
+    },
+    title: {
+      fontSize: 20,
+      color: colors.text,
+      marginTop: 12,
+      textAlign: 'center',
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    message: {
+      fontSize: 15,
+      color: colors.textMuted,
+      marginTop: 8,
+      textAlign: 'center',
+      fontFamily: 'Poppins_400Regular',
+    },
+    button: {
+      backgroundColor: colors.accent,
+      borderRadius: 8,
+      paddingVertical: 12,
+      paddingHorizontal: 24,
+      marginTop: 24,
+    },
+    buttonText: {
+      fontSize: 16,
+      color: colors.onAccent,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+  });
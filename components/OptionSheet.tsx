@@ -0,0 +1,78 @@
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { BottomSheet } from '@/components/BottomSheet';
+import { type Palette } from '@/constants/Colors';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+
+export type Option<T extends string> = {
+  value: T;
+  label: string;
+  // Shown as a dot before the label, e.g. a list's or priority's color
+  color?: string;
+};
+
+type Props<T extends string> = {
+  title: string;
+  visible: boolean;
+  options: Option<T>[];
+  selected?: T;
+  onSelect: (value: T) => void;
+  onClose: () => void;
+};
+
+// Pick a single value from a short list
+export function OptionSheet<T extends string>({
+  title,
+  visible,
+  options,
+  selected,
+  onSelect,
+  onClose,
+}: Props<T>) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  if (!visible) return null;
+
+  return (
+    <BottomSheet title={title} onClose={onClose}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          onPress={() => onSelect(option.value)}
+          accessibilityRole="radio"
+          accessibilityState={{ checked: option.value === selected }}
+          style={styles.item}
+        >
+          {option.color && <View style={[styles.dot, { backgroundColor: option.color }]} />}
+          <Text style={styles.label}>{option.label}</Text>
+          {option.value === selected && <Ionicons name="checkmark" size={20} color={colors.accent} />}
+        </TouchableOpacity>
+      ))}
+    </BottomSheet>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    item: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 12,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+    },
+    dot: {
+      width: 12,
+      height: 12,
+      borderRadius: 6,
+      marginRight: 12,
+    },
+    label: {
+      flex: 1,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,99 @@
+import { Ionicons } from '@expo/vector-icons';
+import { type ComponentProps } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { formatDueDate } from '@/lib/dueDates';
+import { getPriority } from '@/lib/priority';
+import { type QuickAddResult } from '@/lib/quickAdd';
+import { describeRecurrence } from '@/lib/recurrence';
+
+type Props = {
+  result: QuickAddResult;
+  now: number;
+};
+
+type Chip = {
+  key: string;
+  icon: ComponentProps<typeof Ionicons>['name'];
+  label: string;
+  color?: string;
+};
+
+// Shows what the quick-add parser picked out of the input before it is submitted
+export function QuickAddPreview({ result, now }: Props) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const i18n = useI18n();
+  if (result.parts.length === 0) return null;
+
+  const chips: Chip[] = [];
+  if (result.dueDate !== null) {
+    chips.push({ key: 'due', icon: 'calendar-outline', label: formatDueDate(result.dueDate, now, i18n) });
+  }
+  if (result.recurrence) {
+    chips.push({ key: 'repeat', icon: 'repeat', label: describeRecurrence(result.recurrence, i18n) });
+  }
+  if (result.priority !== 'none') {
+    const { color } = getPriority(result.priority);
+    chips.push({ key: 'priority', icon: 'flag', label: i18n.t(`priority.${result.priority}`), color });
+  }
+  for (const tag of result.tags) {
+    chips.push({ key: `tag:${tag}`, icon: 'pricetag-outline', label: `#${tag}` });
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, result.title === '' && styles.missing]} numberOfLines={1}>
+        {result.title === '' ? i18n.t('quickAdd.noTitle') : result.title}
+      </Text>
+      <View style={styles.chips}>
+        {chips.map(chip => (
+          <View key={chip.key} style={styles.chip}>
+            <Ionicons name={chip.icon} size={12} color={chip.color ?? colors.accent} />
+            <Text style={styles.chipText}>{chip.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      marginTop: -12,
+      marginBottom: 16,
+      paddingHorizontal: 4,
+    },
+    title: {
+      fontSize: 14,
+      color: colors.text,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+    missing: {
+      color: colors.danger,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+      marginTop: 4,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 12,
+      backgroundColor: colors.accentMuted,
+    },
+    chipText: {
+      fontSize: 12,
+      color: colors.accent,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,224 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { BottomSheet, createSheetStyles } from '@/components/BottomSheet';
+import { DueDatePicker } from '@/components/DueDatePicker';
+import { type Palette } from '@/constants/Colors';
+import { type MessageKey } from '@/constants/Messages';
+import { useI18n } from '@/hooks/useI18n';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import {
+  createRule,
+  describeMonthlyWeekday,
+  describeRecurrence,
+  getMonthlyWeekday,
+  weekdayInitial,
+  type Frequency,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+
+type Props = {
+  task: Task | undefined;
+  onChange: (rule: RecurrenceRule | null) => void;
+  onClose: () => void;
+};
+
+const FREQUENCIES: { label: MessageKey; value: Frequency | null }[] = [
+  { label: 'repeat.never', value: null },
+  { label: 'repeat.daily', value: 'daily' },
+  { label: 'repeat.weekly', value: 'weekly' },
+  { label: 'repeat.monthly', value: 'monthly' },
+];
+
+type OptionProps = {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+};
+
+function Option({ label, selected, onPress }: OptionProps) {
+  const sheetStyles = useThemedStyles(createSheetStyles);
+
+  return (
+    <TouchableOpacity onPress={onPress} style={[sheetStyles.option, selected && sheetStyles.optionSelected]}>
+      <Text style={[sheetStyles.optionText, selected && sheetStyles.optionSelectedText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+type StepperProps = {
+  label: string;
+  value: number;
+  unit: 'day' | 'week' | 'month' | 'time';
+  onChange: (value: number) => void;
+};
+
+function Stepper({ label, value, unit, onChange }: StepperProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperText}>{label}</Text>
+      <TouchableOpacity onPress={() => onChange(Math.max(1, value - 1))} hitSlop={8}>
+        <Ionicons name="remove-circle-outline" size={24} color={colors.accent} />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity onPress={() => onChange(value + 1)} hitSlop={8}>
+        <Ionicons name="add-circle-outline" size={24} color={colors.accent} />
+      </TouchableOpacity>
+      <Text style={styles.stepperText}>{t('repeat.unit', { count: value, unit })}</Text>
+    </View>
+  );
+}
+
+export function RecurrenceSheet({ task, onChange, onClose }: Props) {
+  const [pickingEnd, setPickingEnd] = useState(false);
+  const { settings } = useSettings();
+  const sheetStyles = useThemedStyles(createSheetStyles);
+  const i18n = useI18n();
+  const { t } = i18n;
+  // Days in the order of the user's week
+  const weekdays = [0, 1, 2, 3, 4, 5, 6].map(i => (settings.weekStartsOn + i) % 7);
+
+  if (!task) return null;
+
+  const rule = task.recurrence;
+  const update = (changes: Partial<RecurrenceRule>) => rule && onChange({ ...rule, ...changes });
+  const anchor = getMonthlyWeekday(task.dueDate ?? Date.now());
+  const unit = rule ? ({ daily: 'day', weekly: 'week', monthly: 'month' } as const)[rule.frequency] : 'day';
+
+  return (
+    <BottomSheet title={t('repeat.title', { title: task.title })} onClose={onClose}>
+      <View style={sheetStyles.options}>
+        {FREQUENCIES.map(({ label, value }) => (
+          <Option
+            key={label}
+            label={t(label)}
+            selected={(rule?.frequency ?? null) === value}
+            onPress={() => onChange(value && (rule ? { ...rule, frequency: value } : createRule(value)))}
+          />
+        ))}
+      </View>
+
+      {rule && (
+        <>
+          <Stepper
+            label={t('repeat.every')}
+            value={rule.interval}
+            unit={unit}
+            onChange={interval => update({ interval })}
+          />
+
+          {rule.frequency === 'weekly' && (
+            <View style={sheetStyles.options}>
+              {weekdays.map(day => {
+                const selected = rule.weekdays.includes(day);
+                return (
+                  <Option
+                    key={day}
+                    label={weekdayInitial(day, i18n)}
+                    selected={selected}
+                    onPress={() =>
+                      update({
+                        weekdays: selected
+                          ? rule.weekdays.filter(d => d !== day)
+                          : [...rule.weekdays, day].sort(),
+                      })
+                    }
+                  />
+                );
+              })}
+            </View>
+          )}
+
+          {rule.frequency === 'monthly' && (
+            <View style={sheetStyles.options}>
+              <Option
+                label={t('repeat.sameDay')}
+                selected={rule.monthlyWeekday === null}
+                onPress={() => update({ monthlyWeekday: null })}
+              />
+              <Option
+                label={t('repeat.onWeekday', { weekday: describeMonthlyWeekday(anchor, i18n) })}
+                selected={rule.monthlyWeekday !== null}
+                onPress={() => update({ monthlyWeekday: anchor })}
+              />
+            </View>
+          )}
+
+          <Text style={sheetStyles.label}>{t('repeat.ends')}</Text>
+          <View style={sheetStyles.options}>
+            <Option
+              label={t('repeat.never')}
+              selected={rule.count === null && rule.until === null}
+              onPress={() => update({ count: null, until: null })}
+            />
+            <Option
+              label={t('repeat.endsAfter')}
+              selected={rule.count !== null}
+              onPress={() => update({ count: rule.count ?? 10, until: null })}
+            />
+            <Option
+              label={
+                rule.until === null
+                  ? t('repeat.endsOnDate')
+                  : t('repeat.endsOn', { date: new Date(rule.until).toLocaleDateString(i18n.locale) })
+              }
+              selected={rule.until !== null}
+              onPress={() => setPickingEnd(true)}
+            />
+          </View>
+          {rule.count !== null && (
+            <Stepper
+              label={t('repeat.after')}
+              value={rule.count}
+              unit="time"
+              onChange={count => update({ count })}
+            />
+          )}
+
+          <Text style={sheetStyles.hint}>{describeRecurrence(rule, i18n)}</Text>
+          {task.dueDate === null && (
+            <Text style={sheetStyles.hint}>{t('repeat.noDueDate')}</Text>
+          )}
+        </>
+      )}
+      <DueDatePicker
+        visible={pickingEnd}
+        value={rule?.until ?? null}
+        onConfirm={until => {
+          setPickingEnd(false);
+          update({ until, count: null });
+        }}
+        onCancel={() => setPickingEnd(false)}
+      />
+    </BottomSheet>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      marginTop: 12,
+    },
+    stepperText: {
+      fontSize: 14,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    stepperValue: {
+      fontSize: 16,
+      color: colors.text,
+      minWidth: 20,
+      textAlign: 'center',
+      fontFamily: 'Poppins_600SemiBold',
+    },
+  });
@@ -0,0 +1,95 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { BottomSheet, createSheetStyles } from '@/components/BottomSheet';
+import { DueDatePicker } from '@/components/DueDatePicker';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { describeReminder, REMINDER_OFFSETS, type Reminder } from '@/lib/reminders';
+
+type Props = {
+  task: Task | undefined;
+  onChange: (reminders: Reminder[]) => void;
+  onClose: () => void;
+};
+
+export function ReminderSheet({ task, onChange, onClose }: Props) {
+  const [pickingTime, setPickingTime] = useState(false);
+  const i18n = useI18n();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+
+  if (!task) return null;
+
+  const add = (reminder: Reminder) => onChange([...task.reminders, reminder]);
+  const remove = (id: string) => onChange(task.reminders.filter(r => r.id !== id));
+  const hasOffset = (minutes: number) =>
+    task.reminders.some(r => r.type === 'offset' && r.minutesBefore === minutes);
+
+  return (
+    <BottomSheet title={i18n.t('reminders.title', { title: task.title })} onClose={onClose}>
+      {task.reminders.length === 0 && <Text style={sheetStyles.hint}>{i18n.t('reminders.empty')}</Text>}
+      {task.reminders.map(reminder => (
+        <View key={reminder.id} style={styles.reminderRow}>
+          <Ionicons name="notifications-outline" size={16} color={colors.accent} />
+          <Text style={styles.reminderText}>{describeReminder(reminder, Date.now(), i18n)}</Text>
+          <TouchableOpacity onPress={() => remove(reminder.id)} hitSlop={8}>
+            <Ionicons name="close-circle" size={18} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <View style={sheetStyles.options}>
+        {REMINDER_OFFSETS.map(minutes => {
+          const disabled = task.dueDate === null || hasOffset(minutes);
+          return (
+            <TouchableOpacity
+              key={minutes}
+              disabled={disabled}
+              onPress={() => add({ id: Date.now().toString(), type: 'offset', minutesBefore: minutes })}
+              style={[sheetStyles.option, disabled && sheetStyles.optionDisabled]}
+            >
+              <Text style={sheetStyles.optionText}>
+                {describeReminder({ id: '', type: 'offset', minutesBefore: minutes }, Date.now(), i18n)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity onPress={() => setPickingTime(true)} style={sheetStyles.option}>
+          <Text style={sheetStyles.optionText}>{i18n.t('reminders.pickTime')}</Text>
+        </TouchableOpacity>
+      </View>
+      {task.dueDate === null && (
+        <Text style={sheetStyles.hint}>{i18n.t('reminders.needsDueDate')}</Text>
+      )}
+      <DueDatePicker
+        visible={pickingTime}
+        value={null}
+        onConfirm={at => {
+          setPickingTime(false);
+          add({ id: Date.now().toString(), type: 'absolute', at });
+        }}
+        onCancel={() => setPickingTime(false)}
+      />
+    </BottomSheet>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    reminderRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 6,
+    },
+    reminderText: {
+      flex: 1,
+      marginLeft: 8,
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,81 @@
+import { Ionicons } from '@expo/vector-icons';
+import { type ComponentProps } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { type Palette } from '@/constants/Colors';
+import { type MessageKey } from '@/constants/Messages';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+
+export type BulkAction = 'complete' | 'uncomplete' | 'tags' | 'priority' | 'list' | 'archive' | 'delete';
+
+type Props = {
+  count: number;
+  onAction: (action: BulkAction) => void;
+};
+
+const ACTIONS: {
+  action: BulkAction;
+  icon: ComponentProps<typeof Ionicons>['name'];
+  label: MessageKey;
+  destructive?: boolean;
+}[] = [
+  { action: 'complete', icon: 'checkmark-circle-outline', label: 'bulk.complete' },
+  { action: 'uncomplete', icon: 'ellipse-outline', label: 'bulk.uncomplete' },
+  { action: 'tags', icon: 'pricetag-outline', label: 'bulk.tags' },
+  { action: 'priority', icon: 'flag-outline', label: 'bulk.priority' },
+  { action: 'list', icon: 'folder-outline', label: 'bulk.list' },
+  { action: 'archive', icon: 'archive-outline', label: 'bulk.archive' },
+  { action: 'delete', icon: 'trash-outline', label: 'bulk.delete', destructive: true },
+];
+
+// Actions applied to every selected task at once
+export function SelectionBar({ count, onAction }: Props) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const disabled = count === 0;
+
+  return (
+    <View style={styles.bar}>
+      {ACTIONS.map(({ action, icon, label, destructive }) => {
+        const color = disabled ? colors.border : destructive ? colors.danger : colors.accent;
+        return (
+          <TouchableOpacity
+            key={action}
+            onPress={() => onAction(action)}
+            disabled={disabled}
+            style={styles.action}
+          >
+            <Ionicons name={icon} size={22} color={color} />
+            <Text style={[styles.label, { color }]} maxFontSizeMultiplier={1.3}>
+              {t(label)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    bar: {
+      flexDirection: 'row',
+      justifyContent: 'space-around',
+      paddingVertical: 8,
+      borderTopWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      marginHorizontal: -20,
+    },
+    action: {
+      alignItems: 'center',
+      paddingHorizontal: 4,
+    },
+    label: {
+      marginTop: 2,
+      fontSize: 11,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,140 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRef, type ComponentProps, type PropsWithChildren } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import ReanimatedSwipeable, {
+  type SwipeableMethods,
+} from 'react-native-gesture-handler/ReanimatedSwipeable';
+
+import { type Palette } from '@/constants/Colors';
+import { type MessageKey } from '@/constants/Messages';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+
+export type SwipeThresholds = {
+  // How far a row has to travel right before letting go completes it
+  complete: number;
+  // How far a row has to travel left before the action buttons stay open
+  actions: number;
+};
+
+export const DEFAULT_SWIPE_THRESHOLDS: SwipeThresholds = {
+  complete: 96,
+  actions: 48,
+};
+
+type Props = PropsWithChildren<{
+  completed: boolean;
+  thresholds?: SwipeThresholds;
+  onComplete: () => void;
+  onDelete: () => void;
+  onSnooze: () => void;
+  onMove: () => void;
+}>;
+
+type SideAction = {
+  name: 'snooze' | 'move' | 'delete';
+  icon: ComponentProps<typeof Ionicons>['name'];
+  label: MessageKey;
+  color: keyof Palette;
+};
+
+const SIDE_ACTIONS: SideAction[] = [
+  { name: 'snooze', icon: 'alarm-outline', label: 'swipe.snooze', color: 'warning' },
+  { name: 'move', icon: 'folder-outline', label: 'swipe.move', color: 'accent' },
+  { name: 'delete', icon: 'trash', label: 'swipe.delete', color: 'danger' },
+];
+
+// Swipe right to complete, swipe left for snooze/move/delete. Screen readers get the same
+// actions from the row inside, since these panels can't be reached without swiping.
+export function SwipeableRow({
+  completed,
+  thresholds = DEFAULT_SWIPE_THRESHOLDS,
+  onComplete,
+  onDelete,
+  onSnooze,
+  onMove,
+  children,
+}: Props) {
+  // Same soft feedback as pressing a tab
+  const swipeFeedback = useHaptics();
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const swipeable = useRef<SwipeableMethods>(null);
+  const handlers = { complete: onComplete, delete: onDelete, snooze: onSnooze, move: onMove };
+
+  const runAction = (name: keyof typeof handlers) => {
+    swipeable.current?.close();
+    handlers[name]();
+  };
+
+  return (
+    <ReanimatedSwipeable
+      ref={swipeable}
+      friction={1.5}
+      leftThreshold={thresholds.complete}
+      rightThreshold={thresholds.actions}
+      overshootLeft={false}
+      containerStyle={styles.container}
+      onSwipeableWillOpen={direction => {
+        swipeFeedback();
+        // Completing happens on release; the row springs back instead of staying open
+        if (direction === 'right') runAction('complete');
+      }}
+      renderLeftActions={() => (
+        <View style={[styles.completePanel, { width: thresholds.complete }]}>
+          <Ionicons name={completed ? 'arrow-undo' : 'checkmark'} size={24} color={colors.onAccent} />
+          <Text style={styles.actionLabel} maxFontSizeMultiplier={1.2}>
+            {t(completed ? 'swipe.reopen' : 'swipe.complete')}
+          </Text>
+        </View>
+      )}
+      renderRightActions={() => (
+        <View style={styles.sideActions}>
+          {SIDE_ACTIONS.map(action => (
+            <TouchableOpacity
+              key={action.name}
+              onPress={() => runAction(action.name)}
+              style={[styles.sideAction, { backgroundColor: colors[action.color] }]}
+            >
+              <Ionicons name={action.icon} size={20} color={colors.onAccent} />
+              <Text style={styles.actionLabel} maxFontSizeMultiplier={1.2}>
+                {t(action.label)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    >
+      {children}
+    </ReanimatedSwipeable>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 10,
+      borderRadius: 8,
+    },
+    completePanel: {
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.success,
+    },
+    sideActions: {
+      flexDirection: 'row',
+    },
+    sideAction: {
+      width: 64,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    actionLabel: {
+      marginTop: 2,
+      fontSize: 12,
+      color: colors.onAccent,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { BottomSheet, createSheetStyles } from '@/components/BottomSheet';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+type Props = {
+  tag: string | null;
+  // Number of tasks carrying the tag, across all lists
+  count: number;
+  onRename: (to: string) => void;
+  onDelete: () => void;
+  onClose: () => void;
+};
+
+export function TagManageSheet({ tag, count, onRename, onDelete, onClose }: Props) {
+  const [name, setName] = useState(tag ?? '');
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    setName(tag ?? '');
+  }, [tag]);
+
+  if (tag === null) return null;
+
+  return (
+    <BottomSheet title={`#${tag}`} onClose={onClose}>
+      <Text style={sheetStyles.hint}>{t('tags.appliesTo', { count })}</Text>
+      <TextInput
+        value={name}
+        onChangeText={setName}
+        onSubmitEditing={() => onRename(name)}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        style={styles.input}
+      />
+      <View style={sheetStyles.options}>
+        <TouchableOpacity onPress={() => onRename(name)} style={sheetStyles.option}>
+          <Text style={sheetStyles.optionText}>{t('tags.rename')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onDelete} style={[sheetStyles.option, styles.delete]}>
+          <Text style={[sheetStyles.optionText, styles.deleteText]}>{t('tags.delete')}</Text>
+        </TouchableOpacity>
+      </View>
+    </BottomSheet>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    input: {
+      height: 44,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      marginTop: 8,
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    delete: {
+      borderColor: colors.danger,
+    },
+    deleteText: {
+      color: colors.danger,
+    },
+  });
@@ -0,0 +1,96 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { BottomSheet, createSheetStyles } from '@/components/BottomSheet';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { addTag, getTagSuggestions } from '@/lib/tags';
+
+type Props = {
+  title: string;
+  visible: boolean;
+  // Tags currently applied; for several tasks, the ones they all share
+  tags: string[];
+  // Every task, so suggestions cover tags used in other lists too
+  allTasks: Task[];
+  onChange: (tags: string[]) => void;
+  onClose: () => void;
+};
+
+export function TagSheet({ title, visible, tags, allTasks, onChange, onClose }: Props) {
+  const [query, setQuery] = useState('');
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const sheetStyles = useThemedStyles(createSheetStyles);
+  const i18n = useI18n();
+
+  if (!visible) return null;
+
+  const suggestions = getTagSuggestions(allTasks, query, tags).slice(0, 8);
+  const add = (tag: string) => {
+    onChange(addTag(tags, tag));
+    setQuery('');
+  };
+
+  return (
+    <BottomSheet title={title} onClose={onClose}>
+      <View style={sheetStyles.options}>
+        {tags.length === 0 && <Text style={sheetStyles.hint}>{i18n.t('tags.empty')}</Text>}
+        {tags.map(tag => (
+          <TouchableOpacity
+            key={tag}
+            onPress={() => onChange(tags.filter(t => t !== tag))}
+            style={[sheetStyles.option, sheetStyles.optionSelected, styles.tag]}
+          >
+            <Text style={[sheetStyles.optionText, sheetStyles.optionSelectedText]}>#{tag}</Text>
+            <Ionicons name="close" size={14} color={colors.onAccent} />
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        onSubmitEditing={() => add(query)}
+        placeholder={i18n.t('tags.addPlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        blurOnSubmit={false}
+        returnKeyType="done"
+        style={styles.input}
+      />
+      {suggestions.length > 0 && (
+        <View style={sheetStyles.options}>
+          {suggestions.map(tag => (
+            <TouchableOpacity key={tag} onPress={() => add(tag)} style={sheetStyles.option}>
+              <Text style={sheetStyles.optionText}>#{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </BottomSheet>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    tag: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    input: {
+      height: 44,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      marginTop: 8,
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,165 @@
+import { Ionicons } from '@expo/vector-icons';
+import { type ComponentProps } from 'react';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { BottomSheet } from '@/components/BottomSheet';
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { formatDueDate, snoozeDueDate } from '@/lib/dueDates';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { describeRecurrence } from '@/lib/recurrence';
+
+export type TaskAction =
+  | 'dueDate'
+  | 'reminders'
+  | 'recurrence'
+  | 'subtasks'
+  | 'priority'
+  | 'tags'
+  | 'list'
+  | 'snooze'
+  | 'archive'
+  | 'delete';
+
+type Props = {
+  task: Task | undefined;
+  listName?: string;
+  onSelect: (action: TaskAction) => void;
+  onClose: () => void;
+};
+
+export type TaskActionItem = {
+  action: TaskAction;
+  icon: ComponentProps<typeof Ionicons>['name'];
+  label: string;
+  value: string;
+  destructive?: boolean;
+};
+
+// What each action does to `task`, with its current value, e.g. "Due date · Tomorrow 9:00 AM"
+export function getTaskActionItems(
+  task: Task,
+  listName?: string,
+  i18n: Translator = defaultTranslator
+): TaskActionItem[] {
+  const { t } = i18n;
+  return [
+    {
+      action: 'dueDate',
+      icon: 'calendar-outline',
+      label: t('actions.dueDate'),
+      value: task.dueDate === null ? t('actions.none') : formatDueDate(task.dueDate, Date.now(), i18n),
+    },
+    {
+      action: 'reminders',
+      icon: 'notifications-outline',
+      label: t('actions.reminders'),
+      value: task.reminders.length === 0 ? t('actions.none') : String(task.reminders.length),
+    },
+    {
+      action: 'recurrence',
+      icon: 'repeat',
+      label: t('actions.recurrence'),
+      value: task.recurrence ? describeRecurrence(task.recurrence, i18n) : t('actions.never'),
+    },
+    {
+      action: 'subtasks',
+      icon: 'list-outline',
+      label: t('actions.subtasks'),
+      value: task.subtasks.length === 0 ? t('actions.add') : String(task.subtasks.length),
+    },
+    {
+      action: 'priority',
+      icon: 'flag-outline',
+      label: t('actions.priority'),
+      value: t(`priority.${task.priority}`),
+    },
+    {
+      action: 'tags',
+      icon: 'pricetag-outline',
+      label: t('actions.tags'),
+      value: task.tags.map(tag => `#${tag}`).join(' ') || t('actions.none'),
+    },
+    {
+      action: 'list',
+      icon: 'folder-outline',
+      label: t('actions.list'),
+      value: listName ?? '',
+    },
+    {
+      action: 'snooze',
+      icon: 'alarm-outline',
+      label: t('actions.snooze'),
+      value: formatDueDate(snoozeDueDate(task.dueDate), Date.now(), i18n),
+    },
+    // Only finished tasks can be archived
+    ...(task.completed
+      ? [{ action: 'archive' as const, icon: 'archive-outline' as const, label: t('actions.archive'), value: '' }]
+      : []),
+    {
+      action: 'delete',
+      icon: 'trash-outline',
+      label: t('actions.delete'),
+      value: '',
+      destructive: true,
+    },
+  ];
+}
+
+export function TaskActionRow({ item, onPress }: { item: TaskActionItem; onPress: () => void }) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <TouchableOpacity onPress={onPress} style={styles.item}>
+      <Ionicons name={item.icon} size={20} color={item.destructive ? colors.danger : colors.accent} />
+      <Text style={[styles.label, item.destructive && styles.destructive]}>{item.label}</Text>
+      <Text style={styles.value} numberOfLines={1}>
+        {item.value}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+export function TaskActionsSheet({ task, listName, onSelect, onClose }: Props) {
+  const i18n = useI18n();
+  if (!task) return null;
+
+  return (
+    <BottomSheet title={task.title} onClose={onClose}>
+      {getTaskActionItems(task, listName, i18n).map(item => (
+        <TaskActionRow key={item.action} item={item} onPress={() => onSelect(item.action)} />
+      ))}
+    </BottomSheet>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    item: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 12,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+    },
+    label: {
+      marginLeft: 12,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: 'Poppins_400Regular',
+    },
+    destructive: {
+      color: colors.danger,
+    },
+    value: {
+      flex: 1,
+      marginLeft: 12,
+      textAlign: 'right',
+      fontSize: 14,
+      color: colors.textMuted,
+      fontFamily: 'Poppins_400Regular',
+    },
+  });
@@ -0,0 +1,342 @@
+import { Ionicons } from '@expo/vector-icons';
+import { memo, useEffect, useState } from 'react';
+import {
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useWindowDimensions,
+  type AccessibilityActionEvent,
+} from 'react-native';
+import * as Animatable from 'react-native-animatable';
+
+import Task from '@/app/(tabs)/Task';
+import { createTaskStyles } from '@/app/(tabs)/TodoApp.styles';
+import { HighlightedText } from '@/components/HighlightedText';
+import { type TaskAction } from '@/components/TaskActionsSheet';
+import { useI18n } from '@/hooks/useI18n';
+import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { describeTask } from '@/lib/accessibility';
+import { textDirectionStyle } from '@/lib/i18n';
+import { formatDueDate, getDueStatus } from '@/lib/dueDates';
+import { getPriority } from '@/lib/priority';
+import { describeRecurrence } from '@/lib/recurrence';
+import { getSubtaskProgress, toggleSubtask } from '@/lib/subtasks';
+
+// From this text size up the row's buttons move under the title, which keeps the room it needs
+const LARGE_TEXT_SCALE = 1.5;
+
+type Props = {
+  task: Task;
+  now: number;
+  expanded: boolean;
+  // Title characters matched by the current search
+  titleMatches?: number[];
+  // Set while picking tasks for a bulk action
+  selected?: boolean;
+  onToggle: (id: string) => void;
+  onOpen: (id: string) => void;
+  onEdit: (id: string) => void;
+  onCancelEdit: () => void;
+  onUpdate: (id: string, title: string) => void;
+  onChange: (id: string, changes: Partial<Task>) => void;
+  onOpenAction: (id: string, action: TaskAction | 'menu') => void;
+  onToggleExpanded: (id: string) => void;
+  onPressTag: (tag: string) => void;
+};
+
+export const TaskRow = memo(function TaskRow({
+  task,
+  now,
+  expanded,
+  titleMatches = [],
+  selected,
+  onToggle,
+  onOpen,
+  onEdit,
+  onCancelEdit,
+  onUpdate,
+  onChange,
+  onOpenAction,
+  onToggleExpanded,
+  onPressTag,
+}: Props) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createTaskStyles);
+  const reducedMotion = useReducedMotion();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { fontScale } = useWindowDimensions();
+  // Edits are kept locally until submitted so every keystroke doesn't rewrite storage
+  const [draftTitle, setDraftTitle] = useState(task.title);
+  const [stepTitle, setStepTitle] = useState('');
+
+  useEffect(() => {
+    if (task.isEditing) setDraftTitle(task.title);
+  }, [task.isEditing, task.title]);
+
+  const dueStatus = getDueStatus(task.dueDate, task.completed, now);
+  const progress = getSubtaskProgress(task);
+
+  const addStep = () => {
+    if (stepTitle.trim() === '') return;
+    const step = { id: Date.now().toString(), title: stepTitle.trim(), completed: false };
+    onChange(task.id, { subtasks: [...task.subtasks, step] });
+    setStepTitle('');
+  };
+
+  const removeStep = (stepId: string) =>
+    onChange(task.id, { subtasks: task.subtasks.filter(step => step.id !== stepId) });
+
+  // Screen readers treat the row as one checkbox; everything its buttons and swipes do is
+  // offered as an action on it instead
+  const accessibilityActions = [
+    { name: 'activate' },
+    { name: 'complete', label: t(task.completed ? 'task.markNotDone' : 'task.markDone') },
+    { name: 'edit', label: t('task.rename') },
+    { name: 'open', label: t('task.openDetails') },
+    ...(progress.total > 0 ? [{ name: 'steps', label: t(expanded ? 'task.hideSteps' : 'task.showSteps') }] : []),
+    { name: 'snooze', label: t('task.snoozeUntilTomorrow') },
+    { name: 'move', label: t('task.moveToList') },
+    { name: 'delete', label: t('common.delete') },
+    { name: 'menu', label: t('task.moreActions') },
+  ];
+
+  const onAccessibilityAction = (event: AccessibilityActionEvent) => {
+    switch (event.nativeEvent.actionName) {
+      case 'activate':
+      case 'complete':
+        return onToggle(task.id);
+      case 'edit':
+        return onEdit(task.id);
+      case 'open':
+        return onOpen(task.id);
+      case 'steps':
+        return onToggleExpanded(task.id);
+      case 'snooze':
+        return onOpenAction(task.id, 'snooze');
+      case 'move':
+        return onOpenAction(task.id, 'list');
+      case 'delete':
+        return onOpenAction(task.id, 'delete');
+      case 'menu':
+        return onOpenAction(task.id, 'menu');
+    }
+  };
+
+  const buttons = (
+    <>
+      {task.isEditing && (
+        <TouchableOpacity onPress={onCancelEdit} accessibilityLabel={t('task.cancelRename')} style={styles.iconButton}>
+          <Ionicons name="close" size={18} color={colors.textMuted} />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        onPress={() => onOpenAction(task.id, 'menu')}
+        accessibilityLabel={t('task.moreActions')}
+        style={styles.iconButton}
+      >
+        <Ionicons name="ellipsis-horizontal" size={18} color={colors.accent} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => onEdit(task.id)} accessibilityLabel={t('task.rename')} style={styles.iconButton}>
+        <Ionicons name="pencil" size={18} color={colors.accent} />
+      </TouchableOpacity>
+    </>
+  );
+  const largeText = fontScale >= LARGE_TEXT_SCALE;
+  const rtl = i18n.direction === 'rtl';
+  const textDirection = textDirectionStyle(i18n.direction);
+
+  return (
+    <Animatable.View
+      animation={reducedMotion ? undefined : 'fadeInUp'}
+      duration={400}
+      style={styles.animatedWrapper}
+    >
+      <View
+        style={[
+          styles.taskItem,
+          dueStatus === 'today' && styles.taskItemDueToday,
+          dueStatus === 'overdue' && styles.taskItemOverdue,
+          selected && styles.taskItemSelected,
+        ]}
+      >
+        <View
+          style={styles.taskMain}
+          // While selecting, the row that wraps this one is the checkbox; while renaming, the field is reachable
+          accessible={selected === undefined && !task.isEditing}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked: task.completed }}
+          accessibilityLabel={describeTask(task, now, i18n)}
+          accessibilityActions={accessibilityActions}
+          onAccessibilityAction={onAccessibilityAction}
+        >
+          {selected === undefined ? (
+            <TouchableOpacity
+              onPress={() => onToggle(task.id)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: task.completed }}
+              accessibilityLabel={task.title}
+            >
+              <Ionicons
+                name={task.completed ? 'checkmark-circle' : 'ellipse-outline'}
+                size={24}
+                color={task.completed ? colors.success : colors.accent}
+                style={styles.checkIcon}
+              />
+            </TouchableOpacity>
+          ) : (
+            <Ionicons
+              name={selected ? 'checkbox' : 'square-outline'}
+              size={24}
+              color={colors.accent}
+              style={styles.checkIcon}
+            />
+          )}
+          {task.priority !== 'none' && (
+            <Ionicons
+              name="flag"
+              size={14}
+              color={getPriority(task.priority).color}
+              style={styles.priorityFlag}
+            />
+          )}
+          <TouchableOpacity
+            onPress={() => onOpen(task.id)}
+            disabled={task.isEditing}
+            activeOpacity={0.6}
+            style={styles.taskBody}
+          >
+            {task.isEditing ? (
+              <TextInput
+                value={draftTitle}
+                onChangeText={setDraftTitle}
+                onSubmitEditing={() => onUpdate(task.id, draftTitle)}
+                accessibilityLabel={t('task.titleField')}
+                style={[styles.taskTextInput, textDirection, { fontFamily: 'Poppins_400Regular' }]}
+                autoFocus
+                blurOnSubmit
+                returnKeyType="done"
+              />
+            ) : (
+              <HighlightedText
+                text={task.title}
+                matches={titleMatches}
+                highlightStyle={styles.searchMatch}
+                style={[styles.taskText, textDirection, task.completed && styles.completedText]}
+              />
+            )}
+            {task.recurrence && (
+              <Text style={styles.recurrenceText} onPress={() => onOpenAction(task.id, 'recurrence')}>
+                <Ionicons name="repeat" size={12} /> {describeRecurrence(task.recurrence, i18n)}
+              </Text>
+            )}
+            {task.dueDate !== null && (
+              <View style={styles.dueRow}>
+                <Text
+                  style={[
+                    styles.dueText,
+                    dueStatus === 'today' && styles.dueTodayText,
+                    dueStatus === 'overdue' && styles.overdueText,
+                  ]}
+                  onPress={() => onOpenAction(task.id, 'dueDate')}
+                >
+                  {dueStatus === 'overdue'
+                    ? t('task.overdue', { date: formatDueDate(task.dueDate, now, i18n) })
+                    : formatDueDate(task.dueDate, now, i18n)}
+                </Text>
+                {task.reminders.length > 0 && (
+                  <Ionicons name="notifications" size={12} color={colors.textMuted} style={styles.metaIcon} />
+                )}
+                <TouchableOpacity
+                  onPress={() => onChange(task.id, { dueDate: null })}
+                  accessibilityLabel={t('task.removeDueDate')}
+                  hitSlop={8}
+                >
+                  <Ionicons name="close-circle" size={14} color={colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+            )}
+            {task.tags.length > 0 && (
+              <View style={styles.tagRow}>
+                {task.tags.map(tag => (
+                  <TouchableOpacity
+                    key={tag}
+                    onPress={() => onPressTag(tag)}
+                    accessibilityLabel={t('task.showTag', { tag })}
+                    style={styles.tagChip}
+                  >
+                    <Text style={styles.tagText}>#{tag}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            {progress.total > 0 && (
+              <TouchableOpacity
+                onPress={() => onToggleExpanded(task.id)}
+                accessibilityLabel={t('describe.steps', progress)}
+                accessibilityState={{ expanded }}
+                style={styles.progressRow}
+              >
+                <Ionicons
+                  name={rtl ? 'chevron-back' : 'chevron-forward'}
+                  size={12}
+                  color={colors.textMuted}
+                  style={{ transform: [{ rotate: expanded ? (rtl ? '-90deg' : '90deg') : '0deg' }] }}
+                />
+                <Text style={styles.progressText}>{t('task.progress', progress)}</Text>
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+          {!largeText && buttons}
+        </View>
+        {largeText && <View style={styles.taskButtonsRow}>{buttons}</View>}
+        {expanded && (
+          <View style={styles.subtaskList}>
+            {task.subtasks.map(step => (
+              <View key={step.id} style={styles.subtaskItem}>
+                <TouchableOpacity
+                  onPress={() => onChange(task.id, toggleSubtask(task, step.id))}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: step.completed }}
+                  accessibilityLabel={step.title}
+                >
+                  <Ionicons
+                    name={step.completed ? 'checkbox' : 'square-outline'}
+                    size={20}
+                    color={step.completed ? colors.success : colors.accent}
+                  />
+                </TouchableOpacity>
+                <Text
+                  style={[styles.subtaskText, textDirection, step.completed && styles.completedText]}
+                  importantForAccessibility="no"
+                  accessibilityElementsHidden
+                >
+                  {step.title}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => removeStep(step.id)}
+                  accessibilityLabel={t('task.removeStep', { title: step.title })}
+                  hitSlop={8}
+                >
+                  <Ionicons name="close" size={16} color={colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TextInput
+              value={stepTitle}
+              onChangeText={setStepTitle}
+              onSubmitEditing={addStep}
+              placeholder={t('task.addStep')}
+              placeholderTextColor={colors.textMuted}
+              style={[styles.subtaskInput, textDirection]}
+              blurOnSubmit={false}
+              returnKeyType="done"
+            />
+          </View>
+        )}
+      </View>
+    </Animatable.View>
+  );
+});
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import * as Animatable from 'react-native-animatable';
+
+import { type Palette } from '@/constants/Colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { type HistoryEntry } from '@/lib/history';
+
+type Props = {
+  entry: HistoryEntry | undefined;
+  onUndo: () => void;
+};
+
+const VISIBLE_MS = 5000;
+
+// Offers a quick undo after changes that removed tasks
+export function UndoSnackbar({ entry, onUndo }: Props) {
+  const [visible, setVisible] = useState(false);
+  const reducedMotion = useReducedMotion();
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const removedTasks = entry?.changes.some(change => change.after === null) ?? false;
+
+  useEffect(() => {
+    // Only announce fresh entries, not ones restored from storage after a restart
+    if (!entry || !removedTasks || Date.now() - entry.at > VISIBLE_MS) {
+      setVisible(false);
+      return;
+    }
+    setVisible(true);
+    const timeout = setTimeout(() => setVisible(false), VISIBLE_MS);
+    return () => clearTimeout(timeout);
+  }, [entry, removedTasks]);
+
+  if (!visible || !entry) return null;
+
+  return (
+    <Animatable.View
+      animation={reducedMotion ? undefined : 'fadeInUp'}
+      duration={200}
+      style={styles.container}
+    >
+      <View style={styles.snackbar}>
+        <Text style={styles.message} numberOfLines={1}>
+          {entry.label}
+        </Text>
+        <TouchableOpacity
+          onPress={() => {
+            setVisible(false);
+            onUndo();
+          }}
+          hitSlop={8}
+        >
+          <Text style={styles.action}>{t('tasks.undo')}</Text>
+        </TouchableOpacity>
+      </View>
+    </Animatable.View>
+  );
+}
+
+// Drawn in the theme's text color so it stands out from the screen in either scheme
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      position: 'absolute',
+      left: 20,
+      right: 20,
+      bottom: 100,
+    },
+    snackbar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.text,
+      borderRadius: 8,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      elevation: 4,
+    },
+    message: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.background,
+      fontFamily: 'Poppins_400Regular',
+    },
+    action: {
+      fontSize: 14,
+      color: colors.accentMuted,
+      marginLeft: 16,
+      fontFamily: 'Poppins_600SemiBold',
+    },
+  });
@@ -24,3 +24,88 @@ export const Colors = {
     tabIconSelected: tintColorDark,
   },
 };
+
+// Colors for the task screens, which users can theme beyond the system light/dark scheme
+export type Palette = {
+  background: string;
+  // Cards, inputs and bars on top of the background
+  surface: string;
+  // Recessed areas like the search field
+  surfaceMuted: string;
+  text: string;
+  textMuted: string;
+  border: string;
+  accent: string;
+  // Text and icons drawn on the accent color
+  onAccent: string;
+  // Light wash of the accent, e.g. selected rows and tag chips
+  accentMuted: string;
+  danger: string;
+  dangerMuted: string;
+  warning: string;
+  success: string;
+  // Search matches
+  highlight: string;
+};
+
+export const Palettes: Record<'light' | 'dark' | 'highContrast', Palette> = {
+  light: {
+    background: '#f8f9fa',
+    surface: '#fff',
+    surfaceMuted: '#e9ecef',
+    text: '#222',
+    textMuted: '#888',
+    border: '#ccc',
+    accent: '#007bff',
+    onAccent: '#fff',
+    accentMuted: '#e7f1ff',
+    danger: '#dc3545',
+    dangerMuted: '#fff5f5',
+    warning: '#fd7e14',
+    success: '#28a745',
+    highlight: '#fff3bf',
+  },
+  dark: {
+    background: '#151718',
+    surface: '#202325',
+    surfaceMuted: '#2b2f32',
+    text: '#ecedee',
+    textMuted: '#9ba1a6',
+    border: '#3a3f44',
+    accent: '#4dabf7',
+    onAccent: '#000',
+    accentMuted: '#1d3448',
+    danger: '#ff6b6b',
+    dangerMuted: '#3b2224',
+    warning: '#ffa94d',
+    success: '#51cf66',
+    highlight: '#665200',
+  },
+  // Pure black and white with strong borders, for low vision and bright sunlight
+  highContrast: {
+    background: '#000',
+    surface: '#000',
+    surfaceMuted: '#1a1a1a',
+    text: '#fff',
+    textMuted: '#e6e6e6',
+    border: '#fff',
+    accent: '#ffd60a',
+    onAccent: '#000',
+    accentMuted: '#3d3300',
+    danger: '#ff5c5c',
+    dangerMuted: '#330000',
+    warning: '#ffb347',
+    success: '#5cff85',
+    highlight: '#806a00',
+  },
+};
+
+// Named so settings can show each color in the app's language
+export const ACCENT_COLORS = [
+  { value: '#007bff', name: 'blue' },
+  { value: '#6f42c1', name: 'purple' },
+  { value: '#e83e8c', name: 'pink' },
+  { value: '#fd7e14', name: 'orange' },
+  { value: '#28a745', name: 'green' },
+  { value: '#17a2b8', name: 'teal' },
+] as const;
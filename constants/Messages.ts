@@ -0,0 +1,1253 @@
+/**
+ * Message catalogs, one per language, in the ICU subset described in lib/i18n. English is
+ * the source: every key is defined there, and a key missing from another language falls
+ * back to it.
+ */
+
+const en = {
+  // Task list
+  'tasks.title': 'My Tasks',
+  'tasks.remaining': '{count, plural, =0 {Nothing left to do} one {# task left} other {# tasks left}}',
+  'tasks.count': '{count, plural, one {# task} other {# tasks}}',
+  'tasks.selected': '{count, plural, other {# selected}}',
+  'tasks.selectAll': 'Select all',
+  'tasks.selectCompleted': 'Select completed',
+  'tasks.select': 'Select tasks',
+  'tasks.sort': 'Sort tasks',
+  'tasks.sortBy': 'Sort by',
+  'tasks.undo': 'Undo',
+  'tasks.undoChange': 'Undo {change}',
+  'tasks.redo': 'Redo',
+  'tasks.newPlaceholder': 'Add a new task',
+  'tasks.newLabel': 'New task',
+  'tasks.newHint': 'Type a title. Dates, #tags and !priority are picked up as you type.',
+  'tasks.add': 'Add task',
+  'tasks.search': 'Search tasks',
+  'tasks.clearSearch': 'Clear search',
+  'tasks.noSearchResults': 'No tasks match your search.',
+  'tasks.noFilterResults': 'No tasks match this filter.',
+  'tasks.completedHidden': 'All done. Completed tasks are hidden in settings.',
+  'tasks.empty': 'No tasks yet.',
+  'tasks.loadFailedTitle': 'Error',
+  'tasks.loadFailed': 'Failed to load tasks.',
+  'tasks.deleteOne': 'Delete task?',
+  'tasks.deleteMany': 'Delete {count, plural, one {# task} other {# tasks}}?',
+  'tasks.priorityTitle': 'Priority · {title}',
+  'tasks.moveTitle': 'Move · {title}',
+  'tasks.tagsTitle': 'Tags · {title}',
+
+  // Undo history; these are what undo and the snackbar show
+  'history.added': 'Task added',
+  'history.deleted': 'Task deleted',
+  'history.completion': 'Task completion changed',
+  'history.renamed': 'Task renamed',
+  'history.updated': 'Task updated',
+  'history.snoozed': 'Task snoozed',
+  'history.moved': 'Task moved',
+  'history.tagDeleted': 'Tag #{tag} deleted',
+  'history.tagRenamed': 'Tag #{tag} renamed',
+  'history.notesEdited': 'Notes edited',
+  'history.bulkCompleted': '{count, plural, one {# task completed} other {# tasks completed}}',
+  'history.bulkReopened': '{count, plural, one {# task reopened} other {# tasks reopened}}',
+  'history.bulkDeleted': '{count, plural, one {# task deleted} other {# tasks deleted}}',
+  'history.bulkRetagged': '{count, plural, one {# task retagged} other {# tasks retagged}}',
+  'history.bulkReprioritized': '{count, plural, one {# task reprioritized} other {# tasks reprioritized}}',
+  'history.bulkMoved': '{count, plural, one {# task moved} other {# tasks moved}}',
+
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.confirmDelete': 'You can undo this afterwards.',
+
+  // Task rows
+  'task.overdue': 'Overdue · {date}',
+  'task.progress': '{done}/{total} done',
+  'task.addStep': 'Add a step',
+  'task.markDone': 'Mark as done',
+  'task.markNotDone': 'Mark as not done',
+  'task.rename': 'Rename',
+  'task.cancelRename': 'Cancel renaming',
+  'task.titleField': 'Task title',
+  'task.openDetails': 'Open details',
+  'task.showSteps': 'Show steps',
+  'task.hideSteps': 'Hide steps',
+  'task.snoozeUntilTomorrow': 'Snooze until tomorrow',
+  'task.moveToList': 'Move to list',
+  'task.moreActions': 'More actions',
+  'task.removeDueDate': 'Remove due date',
+  'task.showTag': 'Show tasks tagged {tag}',
+  'task.removeStep': 'Remove step {title}',
+
+  // What screen readers say about a task and about changes to the list
+  'describe.due': 'Due {date}',
+  'describe.overdue': 'Overdue, was due {date}',
+  'describe.priority':
+    '{priority, select, urgent {Urgent priority} high {High priority} medium {Medium priority} low {Low priority} other {No priority}}',
+  'describe.reminders': '{count, plural, one {# reminder} other {# reminders}}',
+  'describe.tags': 'Tagged {tags}',
+  'describe.steps': '{done} of {total, plural, one {# step} other {# steps}} done',
+  'describe.notes': 'Has notes',
+  'describe.added': '{count, plural, one {{title} added} other {# tasks added}}',
+  'describe.removed': '{count, plural, one {{title} removed} other {# tasks removed}}',
+
+  'filter.all': 'All',
+  'filter.open': 'Open',
+  'filter.completed': 'Done',
+  'filter.clear': 'Clear',
+  'filter.clearLabel': 'Clear filters',
+  'filter.tag': 'Tag {tag}',
+  'filter.manageTag': 'Rename or delete tag',
+
+  'bulk.complete': 'Done',
+  'bulk.uncomplete': 'Not done',
+  'bulk.tags': 'Tags',
+  'bulk.priority': 'Priority',
+  'bulk.list': 'Move',
+  'bulk.archive': 'Archive',
+  'bulk.delete': 'Delete',
+
+  'swipe.complete': 'Done',
+  'swipe.reopen': 'Reopen',
+  'swipe.snooze': 'Snooze',
+  'swipe.move': 'Move',
+  'swipe.delete': 'Delete',
+
+  'quickAdd.noTitle': 'Add a title',
+
+  'actions.dueDate': 'Due date',
+  'actions.reminders': 'Reminders',
+  'actions.recurrence': 'Repeat',
+  'actions.subtasks': 'Steps',
+  'actions.priority': 'Priority',
+  'actions.tags': 'Tags',
+  'actions.list': 'Move to list',
+  'actions.snooze': 'Snooze',
+  'actions.archive': 'Archive',
+  'actions.delete': 'Delete',
+  'actions.none': 'None',
+  'actions.never': 'Never',
+  'actions.add': 'Add',
+
+  'priority.urgent': 'Urgent',
+  'priority.high': 'High',
+  'priority.medium': 'Medium',
+  'priority.low': 'Low',
+  'priority.none': 'None',
+
+  'sort.manual': 'Manual',
+  'sort.priority': 'Priority',
+  'sort.dueDate': 'Due date',
+  'sort.title': 'Title',
+  'sort.createdAt': 'Created date',
+  'sort.completedLast': 'Completed last',
+
+  // Dates and repeats; {time}, {date} and {weekday} come formatted for the locale
+  'date.today': 'Today {time}',
+  'date.tomorrow': 'Tomorrow {time}',
+  'date.yesterday': 'Yesterday {time}',
+  'recurrence.every':
+    '{interval, plural, one {Every {unit, select, day {day} week {week} other {month}}} other {Every # {unit, select, day {days} week {weeks} other {months}}}}',
+  'recurrence.on': '{rule} on {days}',
+  'recurrence.monthlyWeekday':
+    'the {ordinal, select, 1 {first} 2 {second} 3 {third} 4 {fourth} other {last}} {weekday}',
+  'recurrence.left': '{rule}, {count} left',
+  'recurrence.until': '{rule}, until {date}',
+
+  'reminder.atDueTime': 'At due time',
+  'reminder.minutesBefore': '{count, plural, one {# minute before} other {# minutes before}}',
+  'reminder.hoursBefore': '{count, plural, one {# hour before} other {# hours before}}',
+  'reminder.daysBefore': '{count, plural, one {# day before} other {# days before}}',
+  // Notification text, under the task's title
+  'reminder.body': 'Reminder',
+  'reminder.bodyDue': 'Due {date}',
+
+  'common.error': 'Error',
+  'tasks.saveFailed': 'Failed to save tasks.',
+  'lists.saveFailed': 'Failed to save lists.',
+
+  // Sheets
+  'sheet.done': 'Done',
+
+  'tags.empty': 'No tags yet.',
+  'tags.addPlaceholder': 'Add a tag',
+  'tags.appliesTo':
+    '{count, plural, one {Changes apply to the # task with this tag.} other {Changes apply to all # tasks with this tag.}}',
+  'tags.rename': 'Rename',
+  'tags.delete': 'Delete tag',
+
+  'repeat.title': 'Repeat · {title}',
+  'repeat.never': 'Never',
+  'repeat.daily': 'Daily',
+  'repeat.weekly': 'Weekly',
+  'repeat.monthly': 'Monthly',
+  'repeat.every': 'Every',
+  'repeat.after': 'After',
+  // The unit after a stepper's number, e.g. "Every 2 weeks"
+  'repeat.unit':
+    '{count, plural, one {{unit, select, day {day} week {week} month {month} other {time}}} other {{unit, select, day {days} week {weeks} month {months} other {times}}}}',
+  'repeat.sameDay': 'Same day of month',
+  'repeat.onWeekday': 'On {weekday}',
+  'repeat.ends': 'Ends',
+  'repeat.endsAfter': 'After a number of times',
+  'repeat.endsOnDate': 'On a date…',
+  'repeat.endsOn': 'On {date}',
+  'repeat.noDueDate': 'Without a due date, the next one is counted from completion.',
+
+  'reminders.title': 'Reminders · {title}',
+  'reminders.empty': 'No reminders yet.',
+  'reminders.pickTime': 'Pick a time…',
+  'reminders.needsDueDate': 'Set a due date to remind relative to it.',
+
+  // Import and export
+  'transfer.export': 'Export',
+  'transfer.exportHint':
+    'JSON keeps every field of your tasks and lists, though not archived tasks, and can be imported back. The other formats carry titles, completion, due dates, priorities and tags, and all but iCalendar carry lists.',
+  'transfer.exportButton': '{count, plural, one {Export # task} other {Export # tasks}}',
+  'transfer.exportFailed': 'Export failed',
+  'transfer.import': 'Import',
+  'transfer.placeholder': 'Paste an export here',
+  'transfer.format': 'Format',
+  'transfer.detected': '{format} (detected)',
+  'transfer.existing': 'Tasks we already have',
+  'transfer.mode.skip': 'Skip',
+  'transfer.mode.replace': 'Replace',
+  'transfer.mode.keep': 'Keep both',
+  'transfer.uidHint': 'Tasks with the same UID are updated in place; their lists, reminders and steps are kept.',
+  'transfer.summary':
+    '{found} found · {duplicates} already here · {problems, plural, one {# problem} other {# problems}}',
+  'transfer.update': 'Update',
+  'transfer.duplicate': 'Duplicate',
+  'transfer.more': '…and {count} more',
+  'transfer.importButton': '{count, plural, one {Import # task} other {Import # tasks}}',
+  'transfer.imported': '{count, plural, one {# task imported} other {# tasks imported}}',
+  'transfer.issue': '{where}: {message}',
+  'transfer.where.file': 'File',
+  'transfer.where.line': 'Line {line}',
+  'transfer.where.task': 'Task {index}',
+  'transfer.issue.invalidJson': 'Not valid JSON: {detail}',
+  'transfer.issue.notAnExport': 'Expected a task export with a "tasks" array.',
+  'transfer.issue.newerVersion':
+    'This export is from a newer version of the app (schema v{version}). Update the app to import it.',
+  'transfer.issue.upgradeFailed': "The tasks couldn't be upgraded: {detail}",
+  'transfer.issue.noTitle': 'The task has no title.',
+  'transfer.issue.invalidField': '"{field}" has an invalid value: {value}.',
+  'transfer.issue.unclosedQuote': 'A quoted field is never closed.',
+  'transfer.issue.noTitleColumn': 'The header row needs a "title" column.',
+  'transfer.issue.invalidDate': '"{value}" is not a valid date.',
+  'transfer.issue.invalidColumnDate': '"{value}" in {column} is not a valid date.',
+  'transfer.issue.invalidDueDate': '"{value}" is not a valid due date.',
+  'transfer.issue.invalidPriority': '"{value}" is not a priority.',
+  'transfer.issue.invalidRepeat': '"{value}" is not a valid repeat.',
+  'transfer.issue.badCheckbox': 'Unrecognised checkbox; use [ ] or [x].',
+  'transfer.issue.noStepTitle': 'The step has no title.',
+  'transfer.issue.orphanStep': 'An indented step has no task above it.',
+  'transfer.issue.notICalendar': 'Not an iCalendar file; expected BEGIN:VCALENDAR.',
+  'transfer.issue.notAProperty': 'Expected NAME:value.',
+  'transfer.issue.unclosedTodo': 'The VTODO is never closed with END:VTODO.',
+  'transfer.issue.noSummary': 'The VTODO has no SUMMARY.',
+  'transfer.issue.invalidPropertyDate': '"{value}" is not a valid {property} date.',
+  // Repeats we can't read; the task is still imported, just without repeating
+  'transfer.issue.unsupportedFrequency':
+    "Repeating with FREQ={frequency} isn't supported; the task was imported without repeating.",
+  'transfer.issue.noFrequency': 'The RRULE has no FREQ; the task was imported without repeating.',
+  'transfer.issue.invalidRulePart': '"{value}" is not a valid {part}; the task was imported without repeating.',
+
+  // Links into the app
+  'link.notFound': 'Not found',
+  'link.goHome': 'Go to my tasks',
+  'link.nowhere': "This link doesn't go anywhere",
+  'link.nowhereMessage': 'There\'s nothing at "{path}". Links can open a task, a list or a new task to add.',
+  'link.listNotFound': 'List not found',
+  'link.listNotFoundMessage': 'There\'s no list called "{name}". It may have been renamed or deleted.',
+  'link.cantAdd': "This link can't add a task",
+  'link.noTitle': 'The link has no task title.',
+  'link.titleTooLong': 'The title is longer than {max} characters.',
+  'link.badDueDate': '"{due}" is not a due date; use a day like 2026-03-14 or an ISO date and time.',
+  'link.addHint': 'A link wants to add this task. Check it before adding.',
+  'link.noDueDate': 'No due date',
+  'link.due': 'Due {date}',
+  'link.addTo': 'Add to',
+
+  // Task details
+  'details.title': 'Task',
+  'details.notFound': 'Task not found',
+  'details.notFoundMessage': "It may have been deleted, or added on another device that hasn't synced yet.",
+  'details.notes': 'Notes',
+  'details.editNotes': 'Edit',
+  'details.notesPlaceholder': 'Write notes in Markdown: **bold**, *italic*, - lists, [links](https://…)',
+  'details.noNotes': 'No notes yet',
+  'details.details': 'Details',
+  'details.steps': 'Steps',
+  'details.history': 'History',
+  'details.created': 'Created',
+  'details.updated': 'Updated',
+  'details.completed': 'Completed',
+  'details.showInList': 'Show in list',
+  'details.delete': 'Delete task',
+
+  // Screen and tab titles
+  'nav.home': 'Home',
+  'nav.lists': 'Lists',
+  'nav.stats': 'Stats',
+  'nav.transfer': 'Import & export',
+  'nav.sync': 'Sync',
+  'nav.archive': 'Archive',
+  'nav.settings': 'Settings',
+  'nav.list': 'List',
+  'nav.add': 'Add from link',
+
+  // Lists
+  'lists.title': 'Lists',
+  'lists.defaultName': 'My Tasks',
+  'lists.deleted': 'Deleted list',
+  'lists.open': '{count, plural, other {# open}}',
+  'lists.newPlaceholder': 'Add a new list',
+  'lists.newLabel': 'New list',
+  'lists.add': 'Add list',
+  'lists.nameLabel': 'List name',
+  'lists.changeColor': 'Change color of {name}',
+  'lists.moveUp': 'Move {name} up',
+  'lists.moveDown': 'Move {name} down',
+  'lists.rename': 'Rename {name}',
+  'lists.delete': 'Delete {name}',
+  'lists.deleteTitle': 'Delete "{name}"?',
+  'lists.deleteMessage':
+    '{count, plural, one {Its task will be deleted too.} other {Its # tasks will be deleted too.}}',
+  'lists.syncOffline': 'Sync, offline',
+
+  // Archive
+  'archive.auto': 'Archive completed tasks',
+  'archive.autoNever': 'Never',
+  'archive.autoAfter': '{days, plural, =7 {After a week} one {After a day} other {After # days}}',
+  'archive.archiveNow':
+    '{count, plural, one {Archive # completed task now} other {Archive # completed tasks now}}',
+  'archive.searchPlaceholder': 'Search titles, tags, notes or dates',
+  'archive.searchLabel': 'Search the archive',
+  'archive.range.all': 'Any time',
+  'archive.range.week': 'Past week',
+  'archive.range.month': 'Past 30 days',
+  'archive.range.year': 'Past year',
+  'archive.empty': 'Nothing archived yet',
+  'archive.noMatches': 'No archived tasks match',
+  'archive.meta': '{list} · Completed {time}',
+  'archive.restore': 'Restore {title}',
+  'archive.deleteForever': 'Delete {title} forever',
+  'archive.deleteTitle': 'Delete task',
+  'archive.deleteMessage': 'Delete "{title}" for good? It can\'t be restored.',
+
+  // Sync
+  'sync.intro':
+    'Tasks are kept on this device and synced with the server whenever it can be reached. When two devices change the same task, the latest change to each field wins.',
+  'sync.server': 'Server',
+  'sync.devHint': "For development, run `npm run sync-server` and enter this computer's address.",
+  'sync.turnOn': 'Turn on sync',
+  'sync.switchServer': 'Switch server',
+  'sync.turnOff': 'Turn off',
+  'sync.status.off': 'Sync is off',
+  'sync.status.idle': 'Up to date',
+  'sync.status.syncing': 'Syncing…',
+  'sync.status.offline': 'Offline; changes are kept until the server is reachable',
+  'sync.neverSynced': 'Never synced',
+  'sync.lastSynced': 'Last synced {date}',
+  'sync.pending': '{count, plural, one {# change waiting to be sent} other {# changes waiting to be sent}}',
+  'sync.syncNow': 'Sync now',
+  'sync.failed': "Couldn't sync: {detail}",
+
+  // Stats
+  'stats.durationMinutes': '{count, plural, one {# minute} other {# minutes}}',
+  'stats.durationHours': '{count, plural, one {# hour} other {# hours}}',
+  'stats.durationDays': '{count, plural, one {# day} other {# days}}',
+  'stats.title': 'Stats',
+  'stats.completed': 'Completed',
+  'stats.currentStreak': 'Current streak',
+  'stats.longestStreak': 'Longest streak',
+  'stats.average': 'Tasks take {duration} to complete on average.',
+  'stats.averageEmpty': 'Complete a task to see how long tasks take.',
+  'stats.activity': 'Created and completed',
+  'stats.period.day': 'Last 7 days',
+  'stats.period.week': 'Last 8 weeks',
+  'stats.bucket': '{label}: {created} created, {completed} completed',
+  'stats.createdTotal': 'Created {count}',
+  'stats.completedTotal': 'Completed {count}',
+  'stats.completedBy': 'Completed by',
+  'stats.breakdown.list': 'List',
+  'stats.breakdown.tag': 'Tag',
+  'stats.breakdown.priority': 'Priority',
+  'stats.noTags': 'No tags',
+  'stats.empty': 'Nothing completed yet',
+
+  // Settings
+  'settings.language': 'Language',
+  'settings.languageHint': "System follows your device's language.",
+  'settings.appearance': 'Appearance',
+  'settings.theme': 'Theme',
+  'theme.system': 'System',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.highContrast': 'High contrast',
+  'settings.themeHint': "System follows your device's light or dark setting. Changes apply right away.",
+  'settings.accent': 'Accent color',
+  'settings.accentAuto': 'Auto',
+  'settings.accentAutoLabel': 'Automatic accent',
+  'accent.blue': 'Blue',
+  'accent.purple': 'Purple',
+  'accent.pink': 'Pink',
+  'accent.orange': 'Orange',
+  'accent.green': 'Green',
+  'accent.teal': 'Teal',
+  'settings.accentHint': "Auto uses the theme's own accent, which suits it best.",
+  'settings.preview': 'Preview',
+  'settings.previewTask': 'Water the plants',
+  'settings.previewTag': 'home',
+  'settings.previewDone': 'Book flights',
+  'settings.reduceMotion': 'Reduce motion',
+  'settings.reduceMotionHint': 'Rows appear and move without animating.',
+  'settings.reduceMotionSystem': 'Animations are already off because reduce motion is on for this device.',
+  'settings.tasks': 'Tasks',
+  'settings.defaultSort': 'Sort new lists by',
+  'settings.defaultSortHint': 'Each list keeps its own sort once changed.',
+  'settings.completedTasks': 'Completed tasks',
+  'settings.completed.inline': 'In place',
+  'settings.completed.bottom': 'At the bottom',
+  'settings.completed.hidden': 'Hidden',
+  'settings.completedHint': 'The Done filter always shows them.',
+  'settings.weekStart': 'Weeks start on',
+  'settings.weekStart.1': 'Monday',
+  'settings.weekStart.0': 'Sunday',
+  'settings.weekStart.6': 'Saturday',
+  'settings.confirmDelete': 'Confirm before deleting',
+  'settings.confirmDeleteHint': 'Ask before deleting tasks. Deleting can be undone either way.',
+  'settings.haptics': 'Haptics',
+  'settings.hapticsHint': 'A light tap when swiping, dragging and switching tabs, on iPhone.',
+};
+
+export type MessageKey = keyof typeof en;
+
+type Catalog = Partial<Record<MessageKey, string>>;
+
+const es: Catalog = {
+  'tasks.title': 'Mis tareas',
+  'tasks.remaining': '{count, plural, =0 {No queda nada por hacer} one {Queda # tarea} other {Quedan # tareas}}',
+  'tasks.count': '{count, plural, one {# tarea} other {# tareas}}',
+  'tasks.selected': '{count, plural, one {# seleccionada} other {# seleccionadas}}',
+  'tasks.selectAll': 'Seleccionar todas',
+  'tasks.selectCompleted': 'Seleccionar hechas',
+  'tasks.select': 'Seleccionar tareas',
+  'tasks.sort': 'Ordenar tareas',
+  'tasks.sortBy': 'Ordenar por',
+  'tasks.undo': 'Deshacer',
+  'tasks.undoChange': 'Deshacer: {change}',
+  'tasks.redo': 'Rehacer',
+  'tasks.newPlaceholder': 'Añadir una tarea',
+  'tasks.newLabel': 'Nueva tarea',
+  'tasks.newHint': 'Escribe un título. Las fechas, #etiquetas y !prioridad se reconocen al escribir.',
+  'tasks.add': 'Añadir tarea',
+  'tasks.search': 'Buscar tareas',
+  'tasks.clearSearch': 'Borrar búsqueda',
+  'tasks.noSearchResults': 'Ninguna tarea coincide con la búsqueda.',
+  'tasks.noFilterResults': 'Ninguna tarea coincide con este filtro.',
+  'tasks.completedHidden': 'Todo hecho. Las tareas completadas están ocultas en los ajustes.',
+  'tasks.empty': 'Todavía no hay tareas.',
+  'tasks.loadFailedTitle': 'Error',
+  'tasks.loadFailed': 'No se pudieron cargar las tareas.',
+  'tasks.deleteOne': '¿Eliminar la tarea?',
+  'tasks.deleteMany': '¿Eliminar {count, plural, one {# tarea} other {# tareas}}?',
+  'tasks.priorityTitle': 'Prioridad · {title}',
+  'tasks.moveTitle': 'Mover · {title}',
+  'tasks.tagsTitle': 'Etiquetas · {title}',
+
+  'history.added': 'Tarea añadida',
+  'history.deleted': 'Tarea eliminada',
+  'history.completion': 'Estado de la tarea cambiado',
+  'history.renamed': 'Tarea renombrada',
+  'history.updated': 'Tarea actualizada',
+  'history.snoozed': 'Tarea pospuesta',
+  'history.moved': 'Tarea movida',
+  'history.tagDeleted': 'Etiqueta #{tag} eliminada',
+  'history.tagRenamed': 'Etiqueta #{tag} renombrada',
+  'history.notesEdited': 'Notas editadas',
+  'history.bulkCompleted': '{count, plural, one {# tarea completada} other {# tareas completadas}}',
+  'history.bulkReopened': '{count, plural, one {# tarea reabierta} other {# tareas reabiertas}}',
+  'history.bulkDeleted': '{count, plural, one {# tarea eliminada} other {# tareas eliminadas}}',
+  'history.bulkRetagged': '{count, plural, one {# tarea reetiquetada} other {# tareas reetiquetadas}}',
+  'history.bulkReprioritized':
+    '{count, plural, one {Prioridad cambiada en # tarea} other {Prioridad cambiada en # tareas}}',
+  'history.bulkMoved': '{count, plural, one {# tarea movida} other {# tareas movidas}}',
+
+  'common.cancel': 'Cancelar',
+  'common.delete': 'Eliminar',
+  'common.confirmDelete': 'Podrás deshacerlo después.',
+
+  'task.overdue': 'Vencida · {date}',
+  'task.progress': '{done}/{total} hechos',
+  'task.addStep': 'Añadir un paso',
+  'task.markDone': 'Marcar como hecha',
+  'task.markNotDone': 'Marcar como no hecha',
+  'task.rename': 'Renombrar',
+  'task.cancelRename': 'Cancelar el cambio de nombre',
+  'task.titleField': 'Título de la tarea',
+  'task.openDetails': 'Ver detalles',
+  'task.showSteps': 'Mostrar pasos',
+  'task.hideSteps': 'Ocultar pasos',
+  'task.snoozeUntilTomorrow': 'Posponer hasta mañana',
+  'task.moveToList': 'Mover a otra lista',
+  'task.moreActions': 'Más acciones',
+  'task.removeDueDate': 'Quitar fecha límite',
+  'task.showTag': 'Ver tareas con la etiqueta {tag}',
+  'task.removeStep': 'Quitar el paso {title}',
+
+  'describe.due': 'Vence {date}',
+  'describe.overdue': 'Vencida, vencía {date}',
+  'describe.priority':
+    '{priority, select, urgent {Prioridad urgente} high {Prioridad alta} medium {Prioridad media} low {Prioridad baja} other {Sin prioridad}}',
+  'describe.reminders': '{count, plural, one {# recordatorio} other {# recordatorios}}',
+  'describe.tags': 'Etiquetas: {tags}',
+  'describe.steps': '{done} de {total, plural, one {# paso hecho} other {# pasos hechos}}',
+  'describe.notes': 'Tiene notas',
+  'describe.added': '{count, plural, one {{title} añadida} other {# tareas añadidas}}',
+  'describe.removed': '{count, plural, one {{title} quitada} other {# tareas quitadas}}',
+
+  'filter.all': 'Todas',
+  'filter.open': 'Pendientes',
+  'filter.completed': 'Hechas',
+  'filter.clear': 'Borrar',
+  'filter.clearLabel': 'Borrar filtros',
+  'filter.tag': 'Etiqueta {tag}',
+  'filter.manageTag': 'Renombrar o eliminar la etiqueta',
+
+  'bulk.complete': 'Hecha',
+  'bulk.uncomplete': 'Pendiente',
+  'bulk.tags': 'Etiquetas',
+  'bulk.priority': 'Prioridad',
+  'bulk.list': 'Mover',
+  'bulk.archive': 'Archivar',
+  'bulk.delete': 'Eliminar',
+
+  'swipe.complete': 'Hecha',
+  'swipe.reopen': 'Reabrir',
+  'swipe.snooze': 'Posponer',
+  'swipe.move': 'Mover',
+  'swipe.delete': 'Eliminar',
+
+  'quickAdd.noTitle': 'Añade un título',
+
+  'actions.dueDate': 'Fecha límite',
+  'actions.reminders': 'Recordatorios',
+  'actions.recurrence': 'Repetir',
+  'actions.subtasks': 'Pasos',
+  'actions.priority': 'Prioridad',
+  'actions.tags': 'Etiquetas',
+  'actions.list': 'Mover a otra lista',
+  'actions.snooze': 'Posponer',
+  'actions.archive': 'Archivar',
+  'actions.delete': 'Eliminar',
+  'actions.none': 'Ninguna',
+  'actions.never': 'Nunca',
+  'actions.add': 'Añadir',
+
+  'priority.urgent': 'Urgente',
+  'priority.high': 'Alta',
+  'priority.medium': 'Media',
+  'priority.low': 'Baja',
+  'priority.none': 'Ninguna',
+
+  'sort.manual': 'Manual',
+  'sort.priority': 'Prioridad',
+  'sort.dueDate': 'Fecha límite',
+  'sort.title': 'Título',
+  'sort.createdAt': 'Fecha de creación',
+  'sort.completedLast': 'Hechas al final',
+
+  'date.today': 'Hoy {time}',
+  'date.tomorrow': 'Mañana {time}',
+  'date.yesterday': 'Ayer {time}',
+  'recurrence.every':
+    '{interval, plural, one {{unit, select, day {Cada día} week {Cada semana} other {Cada mes}}} other {Cada # {unit, select, day {días} week {semanas} other {meses}}}}',
+  'recurrence.on': '{rule}, {days}',
+  'recurrence.monthlyWeekday':
+    'el {ordinal, select, 1 {primer} 2 {segundo} 3 {tercer} 4 {cuarto} other {último}} {weekday}',
+  'recurrence.left': '{rule}, quedan {count}',
+  'recurrence.until': '{rule}, hasta el {date}',
+
+  'reminder.atDueTime': 'A la hora de vencimiento',
+  'reminder.minutesBefore': '{count, plural, one {# minuto antes} other {# minutos antes}}',
+  'reminder.hoursBefore': '{count, plural, one {# hora antes} other {# horas antes}}',
+  'reminder.daysBefore': '{count, plural, one {# día antes} other {# días antes}}',
+  'reminder.body': 'Recordatorio',
+  'reminder.bodyDue': 'Vence {date}',
+
+  'common.error': 'Error',
+  'tasks.saveFailed': 'No se pudieron guardar las tareas.',
+  'lists.saveFailed': 'No se pudieron guardar las listas.',
+
+  'sheet.done': 'Listo',
+
+  'tags.empty': 'Todavía no hay etiquetas.',
+  'tags.addPlaceholder': 'Añadir una etiqueta',
+  'tags.appliesTo':
+    '{count, plural, one {Los cambios se aplican a la # tarea con esta etiqueta.} other {Los cambios se aplican a las # tareas con esta etiqueta.}}',
+  'tags.rename': 'Renombrar',
+  'tags.delete': 'Eliminar etiqueta',
+
+  'repeat.title': 'Repetir · {title}',
+  'repeat.never': 'Nunca',
+  'repeat.daily': 'Cada día',
+  'repeat.weekly': 'Cada semana',
+  'repeat.monthly': 'Cada mes',
+  'repeat.every': 'Cada',
+  'repeat.after': 'Después de',
+  'repeat.unit':
+    '{count, plural, one {{unit, select, day {día} week {semana} month {mes} other {vez}}} other {{unit, select, day {días} week {semanas} month {meses} other {veces}}}}',
+  'repeat.sameDay': 'El mismo día del mes',
+  'repeat.onWeekday': '{weekday}',
+  'repeat.ends': 'Termina',
+  'repeat.endsAfter': 'Tras varias veces',
+  'repeat.endsOnDate': 'En una fecha…',
+  'repeat.endsOn': 'El {date}',
+  'repeat.noDueDate': 'Sin fecha de vencimiento, la siguiente se cuenta desde que se completa.',
+
+  'reminders.title': 'Recordatorios · {title}',
+  'reminders.empty': 'Todavía no hay recordatorios.',
+  'reminders.pickTime': 'Elegir una hora…',
+  'reminders.needsDueDate': 'Pon una fecha de vencimiento para recordar con antelación.',
+
+  'transfer.export': 'Exportar',
+  'transfer.exportHint':
+    'JSON conserva todos los datos de tus tareas y listas, salvo las tareas archivadas, y se puede volver a importar. Los demás formatos incluyen títulos, estado, fechas de vencimiento, prioridades y etiquetas, y todos menos iCalendar incluyen las listas.',
+  'transfer.exportButton': '{count, plural, one {Exportar # tarea} other {Exportar # tareas}}',
+  'transfer.exportFailed': 'No se pudo exportar',
+  'transfer.import': 'Importar',
+  'transfer.placeholder': 'Pega aquí una exportación',
+  'transfer.format': 'Formato',
+  'transfer.detected': '{format} (detectado)',
+  'transfer.existing': 'Tareas que ya tenemos',
+  'transfer.mode.skip': 'Omitir',
+  'transfer.mode.replace': 'Reemplazar',
+  'transfer.mode.keep': 'Conservar ambas',
+  'transfer.uidHint':
+    'Las tareas con el mismo UID se actualizan; se conservan sus listas, recordatorios y pasos.',
+  'transfer.summary':
+    '{found} encontradas · {duplicates} ya existen · {problems, plural, one {# problema} other {# problemas}}',
+  'transfer.update': 'Actualizar',
+  'transfer.duplicate': 'Duplicada',
+  'transfer.more': '…y {count} más',
+  'transfer.importButton': '{count, plural, one {Importar # tarea} other {Importar # tareas}}',
+  'transfer.imported': '{count, plural, one {# tarea importada} other {# tareas importadas}}',
+  'transfer.issue': '{where}: {message}',
+  'transfer.where.file': 'Archivo',
+  'transfer.where.line': 'Línea {line}',
+  'transfer.where.task': 'Tarea {index}',
+  'transfer.issue.invalidJson': 'No es un JSON válido: {detail}',
+  'transfer.issue.notAnExport': 'Se esperaba una exportación de tareas con una lista "tasks".',
+  'transfer.issue.newerVersion':
+    'Esta exportación es de una versión más reciente de la app (esquema v{version}). Actualiza la app para importarla.',
+  'transfer.issue.upgradeFailed': 'No se pudieron actualizar las tareas: {detail}',
+  'transfer.issue.noTitle': 'La tarea no tiene título.',
+  'transfer.issue.invalidField': '"{field}" tiene un valor no válido: {value}.',
+  'transfer.issue.unclosedQuote': 'Un campo entre comillas nunca se cierra.',
+  'transfer.issue.noTitleColumn': 'La fila de encabezado necesita una columna "title".',
+  'transfer.issue.invalidDate': '"{value}" no es una fecha válida.',
+  'transfer.issue.invalidColumnDate': '"{value}" en {column} no es una fecha válida.',
+  'transfer.issue.invalidDueDate': '"{value}" no es una fecha de vencimiento válida.',
+  'transfer.issue.invalidPriority': '"{value}" no es una prioridad.',
+  'transfer.issue.invalidRepeat': '"{value}" no es una repetición válida.',
+  'transfer.issue.badCheckbox': 'Casilla no reconocida; usa [ ] o [x].',
+  'transfer.issue.noStepTitle': 'El paso no tiene título.',
+  'transfer.issue.orphanStep': 'Un paso con sangría no tiene ninguna tarea encima.',
+  'transfer.issue.notICalendar': 'No es un archivo iCalendar; se esperaba BEGIN:VCALENDAR.',
+  'transfer.issue.notAProperty': 'Se esperaba NOMBRE:valor.',
+  'transfer.issue.unclosedTodo': 'El VTODO nunca se cierra con END:VTODO.',
+  'transfer.issue.noSummary': 'El VTODO no tiene SUMMARY.',
+  'transfer.issue.invalidPropertyDate': '"{value}" no es una fecha {property} válida.',
+  'transfer.issue.unsupportedFrequency':
+    'No se admite repetir con FREQ={frequency}; la tarea se importó sin repetición.',
+  'transfer.issue.noFrequency': 'La RRULE no tiene FREQ; la tarea se importó sin repetición.',
+  'transfer.issue.invalidRulePart': '"{value}" no es un {part} válido; la tarea se importó sin repetición.',
+
+  'link.notFound': 'No encontrado',
+  'link.goHome': 'Ir a mis tareas',
+  'link.nowhere': 'Este enlace no lleva a ninguna parte',
+  'link.nowhereMessage':
+    'No hay nada en "{path}". Los enlaces pueden abrir una tarea, una lista o una tarea nueva para añadir.',
+  'link.listNotFound': 'Lista no encontrada',
+  'link.listNotFoundMessage':
+    'No hay ninguna lista llamada "{name}". Puede que se haya renombrado o eliminado.',
+  'link.cantAdd': 'Este enlace no puede añadir una tarea',
+  'link.noTitle': 'El enlace no tiene título de tarea.',
+  'link.titleTooLong': 'El título tiene más de {max} caracteres.',
+  'link.badDueDate':
+    '"{due}" no es una fecha de vencimiento; usa un día como 2026-03-14 o una fecha y hora ISO.',
+  'link.addHint': 'Un enlace quiere añadir esta tarea. Revísala antes de añadirla.',
+  'link.noDueDate': 'Sin fecha de vencimiento',
+  'link.due': 'Vence {date}',
+  'link.addTo': 'Añadir a',
+
+  'details.title': 'Tarea',
+  'details.notFound': 'Tarea no encontrada',
+  'details.notFoundMessage':
+    'Puede que se haya eliminado, o que se añadiera en otro dispositivo que aún no se ha sincronizado.',
+  'details.notes': 'Notas',
+  'details.editNotes': 'Editar',
+  'details.notesPlaceholder': 'Escribe notas en Markdown: **negrita**, *cursiva*, - listas, [enlaces](https://…)',
+  'details.noNotes': 'Todavía no hay notas',
+  'details.details': 'Detalles',
+  'details.steps': 'Pasos',
+  'details.history': 'Historial',
+  'details.created': 'Creada',
+  'details.updated': 'Actualizada',
+  'details.completed': 'Completada',
+  'details.showInList': 'Mostrar en la lista',
+  'details.delete': 'Eliminar tarea',
+
+  'nav.home': 'Inicio',
+  'nav.lists': 'Listas',
+  'nav.stats': 'Estadísticas',
+  'nav.transfer': 'Importar y exportar',
+  'nav.sync': 'Sincronización',
+  'nav.archive': 'Archivo',
+  'nav.settings': 'Ajustes',
+  'nav.list': 'Lista',
+  'nav.add': 'Añadir desde enlace',
+
+  'lists.title': 'Listas',
+  'lists.defaultName': 'Mis tareas',
+  'lists.deleted': 'Lista eliminada',
+  'lists.open': '{count, plural, one {# pendiente} other {# pendientes}}',
+  'lists.newPlaceholder': 'Añade una lista nueva',
+  'lists.newLabel': 'Lista nueva',
+  'lists.add': 'Añadir lista',
+  'lists.nameLabel': 'Nombre de la lista',
+  'lists.changeColor': 'Cambiar el color de {name}',
+  'lists.moveUp': 'Subir {name}',
+  'lists.moveDown': 'Bajar {name}',
+  'lists.rename': 'Renombrar {name}',
+  'lists.delete': 'Eliminar {name}',
+  'lists.deleteTitle': '¿Eliminar "{name}"?',
+  'lists.deleteMessage':
+    '{count, plural, one {También se eliminará su tarea.} other {También se eliminarán sus # tareas.}}',
+  'lists.syncOffline': 'Sincronización, sin conexión',
+
+  'archive.auto': 'Archivar tareas completadas',
+  'archive.autoNever': 'Nunca',
+  'archive.autoAfter': '{days, plural, =7 {Tras una semana} one {Tras un día} other {Tras # días}}',
+  'archive.archiveNow':
+    '{count, plural, one {Archivar ahora # tarea completada} other {Archivar ahora # tareas completadas}}',
+  'archive.searchPlaceholder': 'Busca títulos, etiquetas, notas o fechas',
+  'archive.searchLabel': 'Buscar en el archivo',
+  'archive.range.all': 'Cualquier fecha',
+  'archive.range.week': 'Última semana',
+  'archive.range.month': 'Últimos 30 días',
+  'archive.range.year': 'Último año',
+  'archive.empty': 'Aún no hay nada archivado',
+  'archive.noMatches': 'Ninguna tarea archivada coincide',
+  'archive.meta': '{list} · Completada {time}',
+  'archive.restore': 'Restaurar {title}',
+  'archive.deleteForever': 'Eliminar {title} para siempre',
+  'archive.deleteTitle': 'Eliminar tarea',
+  'archive.deleteMessage': '¿Eliminar "{title}" definitivamente? No se podrá restaurar.',
+
+  'sync.intro':
+    'Las tareas se guardan en este dispositivo y se sincronizan con el servidor siempre que esté disponible. Cuando dos dispositivos cambian la misma tarea, gana el cambio más reciente de cada campo.',
+  'sync.server': 'Servidor',
+  'sync.devHint': 'Para desarrollo, ejecuta `npm run sync-server` e introduce la dirección de este ordenador.',
+  'sync.turnOn': 'Activar la sincronización',
+  'sync.switchServer': 'Cambiar de servidor',
+  'sync.turnOff': 'Desactivar',
+  'sync.status.off': 'La sincronización está desactivada',
+  'sync.status.idle': 'Al día',
+  'sync.status.syncing': 'Sincronizando…',
+  'sync.status.offline': 'Sin conexión; los cambios se guardan hasta que el servidor esté disponible',
+  'sync.neverSynced': 'Nunca sincronizado',
+  'sync.lastSynced': 'Última sincronización: {date}',
+  'sync.pending': '{count, plural, one {# cambio pendiente de enviar} other {# cambios pendientes de enviar}}',
+  'sync.syncNow': 'Sincronizar ahora',
+  'sync.failed': 'No se pudo sincronizar: {detail}',
+
+  'stats.durationMinutes': '{count, plural, one {# minuto} other {# minutos}}',
+  'stats.durationHours': '{count, plural, one {# hora} other {# horas}}',
+  'stats.durationDays': '{count, plural, one {# día} other {# días}}',
+  'stats.title': 'Estadísticas',
+  'stats.completed': 'Completadas',
+  'stats.currentStreak': 'Racha actual',
+  'stats.longestStreak': 'Racha más larga',
+  'stats.average': 'Las tareas tardan de media {duration} en completarse.',
+  'stats.averageEmpty': 'Completa una tarea para ver cuánto tardan las tareas.',
+  'stats.activity': 'Creadas y completadas',
+  'stats.period.day': 'Últimos 7 días',
+  'stats.period.week': 'Últimas 8 semanas',
+  'stats.bucket':
+    '{label}: {created, plural, one {# creada} other {# creadas}}, {completed, plural, one {# completada} other {# completadas}}',
+  'stats.createdTotal': 'Creadas {count}',
+  'stats.completedTotal': 'Completadas {count}',
+  'stats.completedBy': 'Completadas por',
+  'stats.breakdown.list': 'Lista',
+  'stats.breakdown.tag': 'Etiqueta',
+  'stats.breakdown.priority': 'Prioridad',
+  'stats.noTags': 'Sin etiquetas',
+  'stats.empty': 'Aún no hay nada completado',
+
+  'settings.language': 'Idioma',
+  'settings.languageHint': 'Sistema sigue el idioma del dispositivo.',
+  'settings.appearance': 'Apariencia',
+  'settings.theme': 'Tema',
+  'theme.system': 'Sistema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.highContrast': 'Alto contraste',
+  'settings.themeHint': 'Sistema sigue el modo claro u oscuro del dispositivo. Los cambios se aplican al momento.',
+  'settings.accent': 'Color de acento',
+  'settings.accentAuto': 'Auto',
+  'settings.accentAutoLabel': 'Acento automático',
+  'accent.blue': 'Azul',
+  'accent.purple': 'Morado',
+  'accent.pink': 'Rosa',
+  'accent.orange': 'Naranja',
+  'accent.green': 'Verde',
+  'accent.teal': 'Turquesa',
+  'settings.accentHint': 'Auto usa el acento propio del tema, que es el que mejor le queda.',
+  'settings.preview': 'Vista previa',
+  'settings.previewTask': 'Regar las plantas',
+  'settings.previewTag': 'casa',
+  'settings.previewDone': 'Reservar vuelos',
+  'settings.reduceMotion': 'Reducir movimiento',
+  'settings.reduceMotionHint': 'Las filas aparecen y se mueven sin animaciones.',
+  'settings.reduceMotionSystem':
+    'Las animaciones ya están desactivadas porque este dispositivo tiene activado reducir movimiento.',
+  'settings.tasks': 'Tareas',
+  'settings.defaultSort': 'Ordenar las listas nuevas por',
+  'settings.defaultSortHint': 'Cada lista conserva su propio orden una vez cambiado.',
+  'settings.completedTasks': 'Tareas completadas',
+  'settings.completed.inline': 'En su sitio',
+  'settings.completed.bottom': 'Al final',
+  'settings.completed.hidden': 'Ocultas',
+  'settings.completedHint': 'El filtro Hechas siempre las muestra.',
+  'settings.weekStart': 'La semana empieza el',
+  'settings.weekStart.1': 'Lunes',
+  'settings.weekStart.0': 'Domingo',
+  'settings.weekStart.6': 'Sábado',
+  'settings.confirmDelete': 'Confirmar antes de eliminar',
+  'settings.confirmDeleteHint': 'Preguntar antes de eliminar tareas. Eliminar se puede deshacer de todos modos.',
+  'settings.haptics': 'Vibración',
+  'settings.hapticsHint': 'Un toque suave al deslizar, arrastrar y cambiar de pestaña, en iPhone.',
+};
+
+// Arabic has six plural forms: zero, one, two, few (3-10), many (11-99) and other
+const ar: Catalog = {
+  'tasks.title': 'مهامي',
+  'tasks.remaining':
+    '{count, plural, zero {لم يبق شيء} one {بقيت مهمة واحدة} two {بقيت مهمتان} few {بقيت # مهام} many {بقيت # مهمة} other {بقيت # مهمة}}',
+  'tasks.count':
+    '{count, plural, zero {لا مهام} one {مهمة واحدة} two {مهمتان} few {# مهام} many {# مهمة} other {# مهمة}}',
+  'tasks.selected': '{count, plural, other {تم تحديد #}}',
+  'tasks.selectAll': 'تحديد الكل',
+  'tasks.selectCompleted': 'تحديد المنجزة',
+  'tasks.select': 'تحديد المهام',
+  'tasks.sort': 'ترتيب المهام',
+  'tasks.sortBy': 'الترتيب حسب',
+  'tasks.undo': 'تراجع',
+  'tasks.undoChange': 'تراجع: {change}',
+  'tasks.redo': 'إعادة',
+  'tasks.newPlaceholder': 'أضف مهمة جديدة',
+  'tasks.newLabel': 'مهمة جديدة',
+  'tasks.newHint': 'اكتب عنوانًا. تُلتقط التواريخ و#الوسوم و!الأولوية أثناء الكتابة.',
+  'tasks.add': 'إضافة مهمة',
+  'tasks.search': 'البحث في المهام',
+  'tasks.clearSearch': 'مسح البحث',
+  'tasks.noSearchResults': 'لا توجد مهام مطابقة للبحث.',
+  'tasks.noFilterResults': 'لا توجد مهام مطابقة لهذه التصفية.',
+  'tasks.completedHidden': 'أنجزت كل شيء. المهام المنجزة مخفية في الإعدادات.',
+  'tasks.empty': 'لا توجد مهام بعد.',
+  'tasks.loadFailedTitle': 'خطأ',
+  'tasks.loadFailed': 'تعذر تحميل المهام.',
+  'tasks.deleteOne': 'حذف المهمة؟',
+  'tasks.deleteMany':
+    'حذف {count, plural, one {مهمة واحدة} two {مهمتين} few {# مهام} many {# مهمة} other {# مهمة}}؟',
+  'tasks.priorityTitle': 'الأولوية · {title}',
+  'tasks.moveTitle': 'نقل · {title}',
+  'tasks.tagsTitle': 'الوسوم · {title}',
+
+  'history.added': 'أضيفت مهمة',
+  'history.deleted': 'حذفت مهمة',
+  'history.completion': 'تغيرت حالة مهمة',
+  'history.renamed': 'أعيدت تسمية مهمة',
+  'history.updated': 'حدثت مهمة',
+  'history.snoozed': 'أجلت مهمة',
+  'history.moved': 'نقلت مهمة',
+  'history.tagDeleted': 'حذف الوسم #{tag}',
+  'history.tagRenamed': 'أعيدت تسمية الوسم #{tag}',
+  'history.notesEdited': 'تم تعديل الملاحظات',
+  'history.bulkCompleted':
+    '{count, plural, one {أنجزت مهمة واحدة} two {أنجزت مهمتان} few {أنجزت # مهام} many {أنجزت # مهمة} other {أنجزت # مهمة}}',
+  'history.bulkReopened':
+    '{count, plural, one {أعيد فتح مهمة واحدة} two {أعيد فتح مهمتين} few {أعيد فتح # مهام} many {أعيد فتح # مهمة} other {أعيد فتح # مهمة}}',
+  'history.bulkDeleted':
+    '{count, plural, one {حذفت مهمة واحدة} two {حذفت مهمتان} few {حذفت # مهام} many {حذفت # مهمة} other {حذفت # مهمة}}',
+  'history.bulkRetagged':
+    '{count, plural, one {تغيرت وسوم مهمة واحدة} two {تغيرت وسوم مهمتين} few {تغيرت وسوم # مهام} many {تغيرت وسوم # مهمة} other {تغيرت وسوم # مهمة}}',
+  'history.bulkReprioritized':
+    '{count, plural, one {تغيرت أولوية مهمة واحدة} two {تغيرت أولوية مهمتين} few {تغيرت أولوية # مهام} many {تغيرت أولوية # مهمة} other {تغيرت أولوية # مهمة}}',
+  'history.bulkMoved':
+    '{count, plural, one {نقلت مهمة واحدة} two {نقلت مهمتان} few {نقلت # مهام} many {نقلت # مهمة} other {نقلت # مهمة}}',
+
+  'common.cancel': 'إلغاء',
+  'common.delete': 'حذف',
+  'common.confirmDelete': 'يمكنك التراجع عن ذلك لاحقًا.',
+
+  'task.overdue': 'متأخرة · {date}',
+  'task.progress': '{done}/{total} منجزة',
+  'task.addStep': 'أضف خطوة',
+  'task.markDone': 'تحديد كمنجزة',
+  'task.markNotDone': 'تحديد كغير منجزة',
+  'task.rename': 'إعادة تسمية',
+  'task.cancelRename': 'إلغاء إعادة التسمية',
+  'task.titleField': 'عنوان المهمة',
+  'task.openDetails': 'فتح التفاصيل',
+  'task.showSteps': 'إظهار الخطوات',
+  'task.hideSteps': 'إخفاء الخطوات',
+  'task.snoozeUntilTomorrow': 'تأجيل إلى الغد',
+  'task.moveToList': 'نقل إلى قائمة',
+  'task.moreActions': 'إجراءات أخرى',
+  'task.removeDueDate': 'إزالة تاريخ الاستحقاق',
+  'task.showTag': 'إظهار المهام الموسومة بـ {tag}',
+  'task.removeStep': 'إزالة الخطوة {title}',
+
+  'describe.due': 'تستحق {date}',
+  'describe.overdue': 'متأخرة، كانت تستحق {date}',
+  'describe.priority':
+    '{priority, select, urgent {أولوية عاجلة} high {أولوية عالية} medium {أولوية متوسطة} low {أولوية منخفضة} other {بلا أولوية}}',
+  'describe.reminders':
+    '{count, plural, one {تذكير واحد} two {تذكيران} few {# تذكيرات} many {# تذكيرًا} other {# تذكير}}',
+  'describe.tags': 'الوسوم: {tags}',
+  'describe.steps': '{done} من {total} خطوات منجزة',
+  'describe.notes': 'تحتوي على ملاحظات',
+  'describe.added':
+    '{count, plural, one {أضيفت {title}} two {أضيفت مهمتان} few {أضيفت # مهام} many {أضيفت # مهمة} other {أضيفت # مهمة}}',
+  'describe.removed':
+    '{count, plural, one {أزيلت {title}} two {أزيلت مهمتان} few {أزيلت # مهام} many {أزيلت # مهمة} other {أزيلت # مهمة}}',
+
+  'filter.all': 'الكل',
+  'filter.open': 'مفتوحة',
+  'filter.completed': 'منجزة',
+  'filter.clear': 'مسح',
+  'filter.clearLabel': 'مسح عوامل التصفية',
+  'filter.tag': 'الوسم {tag}',
+  'filter.manageTag': 'إعادة تسمية الوسم أو حذفه',
+
+  'bulk.complete': 'منجزة',
+  'bulk.uncomplete': 'غير منجزة',
+  'bulk.tags': 'الوسوم',
+  'bulk.priority': 'الأولوية',
+  'bulk.list': 'نقل',
+  'bulk.archive': 'أرشفة',
+  'bulk.delete': 'حذف',
+
+  'swipe.complete': 'منجزة',
+  'swipe.reopen': 'إعادة فتح',
+  'swipe.snooze': 'تأجيل',
+  'swipe.move': 'نقل',
+  'swipe.delete': 'حذف',
+
+  'quickAdd.noTitle': 'أضف عنوانًا',
+
+  'actions.dueDate': 'تاريخ الاستحقاق',
+  'actions.reminders': 'التذكيرات',
+  'actions.recurrence': 'التكرار',
+  'actions.subtasks': 'الخطوات',
+  'actions.priority': 'الأولوية',
+  'actions.tags': 'الوسوم',
+  'actions.list': 'نقل إلى قائمة',
+  'actions.snooze': 'تأجيل',
+  'actions.archive': 'أرشفة',
+  'actions.delete': 'حذف',
+  'actions.none': 'لا شيء',
+  'actions.never': 'أبدًا',
+  'actions.add': 'إضافة',
+
+  'priority.urgent': 'عاجلة',
+  'priority.high': 'عالية',
+  'priority.medium': 'متوسطة',
+  'priority.low': 'منخفضة',
+  'priority.none': 'بلا',
+
+  'sort.manual': 'يدوي',
+  'sort.priority': 'الأولوية',
+  'sort.dueDate': 'تاريخ الاستحقاق',
+  'sort.title': 'العنوان',
+  'sort.createdAt': 'تاريخ الإنشاء',
+  'sort.completedLast': 'المنجزة أخيرًا',
+
+  'date.today': 'اليوم {time}',
+  'date.tomorrow': 'غدًا {time}',
+  'date.yesterday': 'أمس {time}',
+  'recurrence.every':
+    '{unit, select, day {{interval, plural, one {كل يوم} two {كل يومين} few {كل # أيام} other {كل # يومًا}}} week {{interval, plural, one {كل أسبوع} two {كل أسبوعين} few {كل # أسابيع} other {كل # أسبوعًا}}} other {{interval, plural, one {كل شهر} two {كل شهرين} few {كل # أشهر} other {كل # شهرًا}}}}',
+  'recurrence.on': '{rule}، {days}',
+  'recurrence.monthlyWeekday':
+    '{weekday} {ordinal, select, 1 {الأول} 2 {الثاني} 3 {الثالث} 4 {الرابع} other {الأخير}}',
+  'recurrence.left': '{rule}، متبقٍ {count}',
+  'recurrence.until': '{rule}، حتى {date}',
+
+  'reminder.atDueTime': 'في موعد الاستحقاق',
+  'reminder.minutesBefore':
+    '{count, plural, one {قبل دقيقة واحدة} two {قبل دقيقتين} few {قبل # دقائق} many {قبل # دقيقة} other {قبل # دقيقة}}',
+  'reminder.hoursBefore':
+    '{count, plural, one {قبل ساعة واحدة} two {قبل ساعتين} few {قبل # ساعات} many {قبل # ساعة} other {قبل # ساعة}}',
+  'reminder.daysBefore':
+    '{count, plural, one {قبل يوم واحد} two {قبل يومين} few {قبل # أيام} many {قبل # يومًا} other {قبل # يوم}}',
+  'reminder.body': 'تذكير',
+  'reminder.bodyDue': 'موعد الاستحقاق {date}',
+
+  'common.error': 'خطأ',
+  'tasks.saveFailed': 'تعذّر حفظ المهام.',
+  'lists.saveFailed': 'تعذّر حفظ القوائم.',
+
+  'sheet.done': 'تم',
+
+  'tags.empty': 'لا توجد وسوم بعد.',
+  'tags.addPlaceholder': 'إضافة وسم',
+  'tags.appliesTo':
+    '{count, plural, one {تنطبق التغييرات على المهمة الوحيدة التي تحمل هذا الوسم.} two {تنطبق التغييرات على المهمتين اللتين تحملان هذا الوسم.} few {تنطبق التغييرات على # مهام تحمل هذا الوسم.} other {تنطبق التغييرات على # مهمة تحمل هذا الوسم.}}',
+  'tags.rename': 'إعادة التسمية',
+  'tags.delete': 'حذف الوسم',
+
+  'repeat.title': 'التكرار · {title}',
+  'repeat.never': 'أبدًا',
+  'repeat.daily': 'يوميًا',
+  'repeat.weekly': 'أسبوعيًا',
+  'repeat.monthly': 'شهريًا',
+  'repeat.every': 'كل',
+  'repeat.after': 'بعد',
+  'repeat.unit':
+    '{count, plural, one {{unit, select, day {يوم} week {أسبوع} month {شهر} other {مرة}}} two {{unit, select, day {يومين} week {أسبوعين} month {شهرين} other {مرتين}}} few {{unit, select, day {أيام} week {أسابيع} month {أشهر} other {مرات}}} other {{unit, select, day {يومًا} week {أسبوعًا} month {شهرًا} other {مرة}}}}',
+  'repeat.sameDay': 'اليوم نفسه من الشهر',
+  'repeat.onWeekday': 'في {weekday}',
+  'repeat.ends': 'ينتهي',
+  'repeat.endsAfter': 'بعد عدد من المرات',
+  'repeat.endsOnDate': 'في تاريخ…',
+  'repeat.endsOn': 'في {date}',
+  'repeat.noDueDate': 'بدون موعد استحقاق، يُحسب الموعد التالي من وقت الإنجاز.',
+
+  'reminders.title': 'التذكيرات · {title}',
+  'reminders.empty': 'لا توجد تذكيرات بعد.',
+  'reminders.pickTime': 'اختيار وقت…',
+  'reminders.needsDueDate': 'حدّد موعد استحقاق للتذكير قبله.',
+
+  'transfer.export': 'التصدير',
+  'transfer.exportHint':
+    'يحتفظ JSON بكل بيانات مهامك وقوائمك، عدا المهام المؤرشفة، ويمكن استيراده مجددًا. تحمل الصيغ الأخرى العناوين وحالة الإنجاز ومواعيد الاستحقاق والأولويات والوسوم، وتحمل جميعها القوائم باستثناء iCalendar.',
+  'transfer.exportButton':
+    '{count, plural, zero {تصدير # مهمة} one {تصدير مهمة واحدة} two {تصدير مهمتين} few {تصدير # مهام} many {تصدير # مهمة} other {تصدير # مهمة}}',
+  'transfer.exportFailed': 'تعذّر التصدير',
+  'transfer.import': 'الاستيراد',
+  'transfer.placeholder': 'الصق ملف تصدير هنا',
+  'transfer.format': 'الصيغة',
+  'transfer.detected': '{format} (تم اكتشافها)',
+  'transfer.existing': 'المهام الموجودة لدينا',
+  'transfer.mode.skip': 'تخطٍّ',
+  'transfer.mode.replace': 'استبدال',
+  'transfer.mode.keep': 'الاحتفاظ بكليهما',
+  'transfer.uidHint': 'تُحدَّث المهام ذات المعرّف UID نفسه في مكانها، مع الاحتفاظ بقوائمها وتذكيراتها وخطواتها.',
+  'transfer.summary':
+    'وُجدت {found} · {duplicates} موجودة مسبقًا · {problems, plural, zero {لا مشكلات} one {مشكلة واحدة} two {مشكلتان} few {# مشكلات} many {# مشكلة} other {# مشكلة}}',
+  'transfer.update': 'تحديث',
+  'transfer.duplicate': 'مكررة',
+  'transfer.more': '…و{count} غيرها',
+  'transfer.importButton':
+    '{count, plural, zero {استيراد # مهمة} one {استيراد مهمة واحدة} two {استيراد مهمتين} few {استيراد # مهام} many {استيراد # مهمة} other {استيراد # مهمة}}',
+  'transfer.imported':
+    '{count, plural, zero {لم تُستورد أي مهمة} one {تم استيراد مهمة واحدة} two {تم استيراد مهمتين} few {تم استيراد # مهام} many {تم استيراد # مهمة} other {تم استيراد # مهمة}}',
+  'transfer.issue': '{where}: {message}',
+  'transfer.where.file': 'الملف',
+  'transfer.where.line': 'السطر {line}',
+  'transfer.where.task': 'المهمة {index}',
+  'transfer.issue.invalidJson': 'ليس JSON صالحًا: {detail}',
+  'transfer.issue.notAnExport': 'المتوقع ملف تصدير مهام يحتوي على مصفوفة "tasks".',
+  'transfer.issue.newerVersion':
+    'هذا التصدير من إصدار أحدث من التطبيق (المخطط v{version}). حدّث التطبيق لاستيراده.',
+  'transfer.issue.upgradeFailed': 'تعذّر ترقية المهام: {detail}',
+  'transfer.issue.noTitle': 'المهمة بلا عنوان.',
+  'transfer.issue.invalidField': 'قيمة "{field}" غير صالحة: {value}.',
+  'transfer.issue.unclosedQuote': 'حقل بين علامتي اقتباس لا يُغلق أبدًا.',
+  'transfer.issue.noTitleColumn': 'يحتاج صف العناوين إلى عمود "title".',
+  'transfer.issue.invalidDate': '"{value}" ليس تاريخًا صالحًا.',
+  'transfer.issue.invalidColumnDate': '"{value}" في {column} ليس تاريخًا صالحًا.',
+  'transfer.issue.invalidDueDate': '"{value}" ليس موعد استحقاق صالحًا.',
+  'transfer.issue.invalidPriority': '"{value}" ليست أولوية.',
+  'transfer.issue.invalidRepeat': '"{value}" ليس تكرارًا صالحًا.',
+  'transfer.issue.badCheckbox': 'مربع اختيار غير معروف؛ استخدم [ ] أو [x].',
+  'transfer.issue.noStepTitle': 'الخطوة بلا عنوان.',
+  'transfer.issue.orphanStep': 'خطوة مزاحة بلا مهمة فوقها.',
+  'transfer.issue.notICalendar': 'ليس ملف iCalendar؛ المتوقع BEGIN:VCALENDAR.',
+  'transfer.issue.notAProperty': 'المتوقع NAME:value.',
+  'transfer.issue.unclosedTodo': 'لا يُغلق VTODO أبدًا بـ END:VTODO.',
+  'transfer.issue.noSummary': 'لا يحتوي VTODO على SUMMARY.',
+  'transfer.issue.invalidPropertyDate': '"{value}" ليس تاريخ {property} صالحًا.',
+  'transfer.issue.unsupportedFrequency': 'التكرار بـ FREQ={frequency} غير مدعوم؛ استُوردت المهمة دون تكرار.',
+  'transfer.issue.noFrequency': 'لا يحتوي RRULE على FREQ؛ استُوردت المهمة دون تكرار.',
+  'transfer.issue.invalidRulePart': '"{value}" ليس {part} صالحًا؛ استُوردت المهمة دون تكرار.',
+
+  'link.notFound': 'غير موجود',
+  'link.goHome': 'الانتقال إلى مهامي',
+  'link.nowhere': 'هذا الرابط لا يؤدي إلى أي مكان',
+  'link.nowhereMessage': 'لا يوجد شيء في "{path}". يمكن للروابط فتح مهمة أو قائمة أو مهمة جديدة لإضافتها.',
+  'link.listNotFound': 'القائمة غير موجودة',
+  'link.listNotFoundMessage': 'لا توجد قائمة باسم "{name}". ربما أُعيدت تسميتها أو حُذفت.',
+  'link.cantAdd': 'لا يمكن لهذا الرابط إضافة مهمة',
+  'link.noTitle': 'لا يحتوي الرابط على عنوان مهمة.',
+  'link.titleTooLong': 'يتجاوز العنوان {max} حرف.',
+  'link.badDueDate': '"{due}" ليس موعد استحقاق؛ استخدم يومًا مثل 2026-03-14 أو تاريخًا ووقتًا بصيغة ISO.',
+  'link.addHint': 'يريد رابط إضافة هذه المهمة. تحقّق منها قبل إضافتها.',
+  'link.noDueDate': 'بلا موعد استحقاق',
+  'link.due': 'موعد الاستحقاق {date}',
+  'link.addTo': 'إضافة إلى',
+
+  'details.title': 'مهمة',
+  'details.notFound': 'المهمة غير موجودة',
+  'details.notFoundMessage': 'ربما حُذفت، أو أُضيفت على جهاز آخر لم تتم مزامنته بعد.',
+  'details.notes': 'الملاحظات',
+  'details.editNotes': 'تعديل',
+  'details.notesPlaceholder': 'اكتب الملاحظات بصيغة Markdown: **غامق**، *مائل*، - قوائم، [روابط](https://…)',
+  'details.noNotes': 'لا توجد ملاحظات بعد',
+  'details.details': 'التفاصيل',
+  'details.steps': 'الخطوات',
+  'details.history': 'السجل',
+  'details.created': 'تاريخ الإنشاء',
+  'details.updated': 'آخر تحديث',
+  'details.completed': 'تاريخ الإنجاز',
+  'details.showInList': 'عرض في القائمة',
+  'details.delete': 'حذف المهمة',
+
+  'nav.home': 'الرئيسية',
+  'nav.lists': 'القوائم',
+  'nav.stats': 'الإحصاءات',
+  'nav.transfer': 'الاستيراد والتصدير',
+  'nav.sync': 'المزامنة',
+  'nav.archive': 'الأرشيف',
+  'nav.settings': 'الإعدادات',
+  'nav.list': 'قائمة',
+  'nav.add': 'إضافة من رابط',
+
+  'lists.title': 'القوائم',
+  'lists.defaultName': 'مهامي',
+  'lists.deleted': 'قائمة محذوفة',
+  'lists.open': '{count, plural, other {# مفتوحة}}',
+  'lists.newPlaceholder': 'أضف قائمة جديدة',
+  'lists.newLabel': 'قائمة جديدة',
+  'lists.add': 'إضافة قائمة',
+  'lists.nameLabel': 'اسم القائمة',
+  'lists.changeColor': 'تغيير لون {name}',
+  'lists.moveUp': 'نقل {name} لأعلى',
+  'lists.moveDown': 'نقل {name} لأسفل',
+  'lists.rename': 'إعادة تسمية {name}',
+  'lists.delete': 'حذف {name}',
+  'lists.deleteTitle': 'حذف "{name}"؟',
+  'lists.deleteMessage':
+    '{count, plural, one {ستُحذف مهمتها أيضًا.} two {ستُحذف مهمتاها أيضًا.} few {ستُحذف مهامها الـ# أيضًا.} many {ستُحذف مهامها الـ# أيضًا.} other {ستُحذف مهامها الـ# أيضًا.}}',
+  'lists.syncOffline': 'المزامنة، غير متصل',
+
+  'archive.auto': 'أرشفة المهام المكتملة',
+  'archive.autoNever': 'أبدًا',
+  'archive.autoAfter':
+    '{days, plural, =7 {بعد أسبوع} one {بعد يوم} two {بعد يومين} few {بعد # أيام} many {بعد # يومًا} other {بعد # يوم}}',
+  'archive.archiveNow':
+    '{count, plural, one {أرشفة مهمة مكتملة واحدة الآن} two {أرشفة مهمتين مكتملتين الآن} few {أرشفة # مهام مكتملة الآن} many {أرشفة # مهمة مكتملة الآن} other {أرشفة # مهمة مكتملة الآن}}',
+  'archive.searchPlaceholder': 'ابحث في العناوين أو الوسوم أو الملاحظات أو التواريخ',
+  'archive.searchLabel': 'البحث في الأرشيف',
+  'archive.range.all': 'أي وقت',
+  'archive.range.week': 'الأسبوع الماضي',
+  'archive.range.month': 'آخر 30 يومًا',
+  'archive.range.year': 'العام الماضي',
+  'archive.empty': 'لا شيء مؤرشف بعد',
+  'archive.noMatches': 'لا توجد مهام مؤرشفة مطابقة',
+  'archive.meta': '{list} · اكتملت {time}',
+  'archive.restore': 'استعادة {title}',
+  'archive.deleteForever': 'حذف {title} نهائيًا',
+  'archive.deleteTitle': 'حذف المهمة',
+  'archive.deleteMessage': 'حذف "{title}" نهائيًا؟ لا يمكن استعادتها.',
+
+  'sync.intro':
+    'تُحفظ المهام على هذا الجهاز وتُزامن مع الخادم متى أمكن الوصول إليه. عندما يغيّر جهازان المهمة نفسها، يُعتمد أحدث تغيير لكل حقل.',
+  'sync.server': 'الخادم',
+  'sync.devHint': 'للتطوير، شغّل `npm run sync-server` وأدخل عنوان هذا الحاسوب.',
+  'sync.turnOn': 'تشغيل المزامنة',
+  'sync.switchServer': 'تبديل الخادم',
+  'sync.turnOff': 'إيقاف',
+  'sync.status.off': 'المزامنة متوقفة',
+  'sync.status.idle': 'محدّث',
+  'sync.status.syncing': 'جارٍ المزامنة…',
+  'sync.status.offline': 'غير متصل؛ تُحفظ التغييرات حتى يصبح الخادم متاحًا',
+  'sync.neverSynced': 'لم تتم المزامنة قط',
+  'sync.lastSynced': 'آخر مزامنة {date}',
+  'sync.pending':
+    '{count, plural, zero {لا تغييرات بانتظار الإرسال} one {تغيير واحد بانتظار الإرسال} two {تغييران بانتظار الإرسال} few {# تغييرات بانتظار الإرسال} many {# تغييرًا بانتظار الإرسال} other {# تغيير بانتظار الإرسال}}',
+  'sync.syncNow': 'زامن الآن',
+  'sync.failed': 'تعذّرت المزامنة: {detail}',
+
+  'stats.durationMinutes':
+    '{count, plural, one {دقيقة واحدة} two {دقيقتان} few {# دقائق} many {# دقيقة} other {# دقيقة}}',
+  'stats.durationHours':
+    '{count, plural, one {ساعة واحدة} two {ساعتان} few {# ساعات} many {# ساعة} other {# ساعة}}',
+  'stats.durationDays': '{count, plural, one {يوم واحد} two {يومان} few {# أيام} many {# يومًا} other {# يوم}}',
+  'stats.title': 'الإحصاءات',
+  'stats.completed': 'المكتملة',
+  'stats.currentStreak': 'السلسلة الحالية',
+  'stats.longestStreak': 'أطول سلسلة',
+  'stats.average': 'تستغرق المهام {duration} في المتوسط لإكمالها.',
+  'stats.averageEmpty': 'أكمل مهمة لترى كم تستغرق المهام.',
+  'stats.activity': 'المُنشأة والمكتملة',
+  'stats.period.day': 'آخر 7 أيام',
+  'stats.period.week': 'آخر 8 أسابيع',
+  'stats.bucket': '{label}: أُنشئت {created}، اكتملت {completed}',
+  'stats.createdTotal': 'المُنشأة {count}',
+  'stats.completedTotal': 'المكتملة {count}',
+  'stats.completedBy': 'المكتملة حسب',
+  'stats.breakdown.list': 'القائمة',
+  'stats.breakdown.tag': 'الوسم',
+  'stats.breakdown.priority': 'الأولوية',
+  'stats.noTags': 'بلا وسوم',
+  'stats.empty': 'لم يكتمل شيء بعد',
+
+  'settings.language': 'اللغة',
+  'settings.languageHint': 'خيار النظام يتبع لغة جهازك.',
+  'settings.appearance': 'المظهر',
+  'settings.theme': 'السمة',
+  'theme.system': 'النظام',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+  'theme.highContrast': 'تباين عالٍ',
+  'settings.themeHint': 'يتبع خيار النظام الوضع الفاتح أو الداكن في جهازك. تُطبَّق التغييرات فورًا.',
+  'settings.accent': 'لون التمييز',
+  'settings.accentAuto': 'تلقائي',
+  'settings.accentAutoLabel': 'لون تمييز تلقائي',
+  'accent.blue': 'أزرق',
+  'accent.purple': 'بنفسجي',
+  'accent.pink': 'وردي',
+  'accent.orange': 'برتقالي',
+  'accent.green': 'أخضر',
+  'accent.teal': 'أزرق مخضر',
+  'settings.accentHint': 'يستخدم الخيار التلقائي لون تمييز السمة نفسها، وهو الأنسب لها.',
+  'settings.preview': 'معاينة',
+  'settings.previewTask': 'سقي النباتات',
+  'settings.previewTag': 'المنزل',
+  'settings.previewDone': 'حجز الرحلات',
+  'settings.reduceMotion': 'تقليل الحركة',
+  'settings.reduceMotionHint': 'تظهر الصفوف وتتحرك دون رسوم متحركة.',
+  'settings.reduceMotionSystem': 'الرسوم المتحركة متوقفة بالفعل لأن تقليل الحركة مفعّل على هذا الجهاز.',
+  'settings.tasks': 'المهام',
+  'settings.defaultSort': 'ترتيب القوائم الجديدة حسب',
+  'settings.defaultSortHint': 'تحتفظ كل قائمة بترتيبها الخاص بعد تغييره.',
+  'settings.completedTasks': 'المهام المكتملة',
+  'settings.completed.inline': 'في مكانها',
+  'settings.completed.bottom': 'في الأسفل',
+  'settings.completed.hidden': 'مخفية',
+  'settings.completedHint': 'يعرضها عامل التصفية "المنجزة" دائمًا.',
+  'settings.weekStart': 'يبدأ الأسبوع يوم',
+  'settings.weekStart.1': 'الاثنين',
+  'settings.weekStart.0': 'الأحد',
+  'settings.weekStart.6': 'السبت',
+  'settings.confirmDelete': 'التأكيد قبل الحذف',
+  'settings.confirmDeleteHint': 'السؤال قبل حذف المهام. يمكن التراجع عن الحذف في الحالتين.',
+  'settings.haptics': 'الاهتزاز',
+  'settings.hapticsHint': 'نقرة خفيفة عند السحب والإفلات والتبديل بين التبويبات، على iPhone.',
+};
+
+export const Messages = { en, es, ar };
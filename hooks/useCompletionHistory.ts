@@ -0,0 +1,41 @@
+import { useEffect, useRef, useState } from 'react';
+
+import Task from '@/app/(tabs)/Task';
+import { EMPTY_COMPLETION_HISTORY, recordCompletions, type CompletionHistory } from '@/lib/stats';
+import { loadCompletionHistory, saveCompletionHistory } from '@/lib/statsRepository';
+
+/**
+ * The history behind the stats screen. Like undo, it's recorded from per-task diffs after
+ * changes land, so a task ticked off in the list, the detail screen or a bulk action, or on
+ * another device, counts the same way; un-ticking it takes the completion back.
+ */
+export function useCompletionHistory(tasks: Task[], loaded: boolean): CompletionHistory {
+  const [history, setHistory] = useState<CompletionHistory>(EMPTY_COMPLETION_HISTORY);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  // Null until the first loaded task list has been seen
+  const previousTasks = useRef<Task[] | null>(null);
+
+  // Stats that can't be read are left alone rather than replaced by an empty history
+  useEffect(() => {
+    loadCompletionHistory()
+      .then(stored => {
+        setHistory(stored);
+        setHistoryLoaded(true);
+      })
+      .catch(e => console.warn('Failed to load stats', e));
+  }, []);
+
+  useEffect(() => {
+    if (!loaded || !historyLoaded) return;
+    const before = previousTasks.current;
+    previousTasks.current = tasks;
+    setHistory(prev => recordCompletions(prev, before, tasks));
+  }, [tasks, loaded, historyLoaded]);
+
+  useEffect(() => {
+    if (!historyLoaded) return;
+    saveCompletionHistory(history).catch(e => console.warn('Failed to save stats', e));
+  }, [history, historyLoaded]);
+
+  return history;
+}
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+
+import { useI18n } from '@/hooks/useI18n';
+import { useSettings } from '@/hooks/useSettings';
+
+// Deletes straight away, or once confirmed when delete confirmation is on in settings
+export function useConfirmDelete(): (title: string, onDelete: () => void) => void {
+  const { settings } = useSettings();
+  const { t } = useI18n();
+  return useCallback(
+    (title, onDelete) => {
+      if (!settings.confirmDelete) return onDelete();
+      Alert.alert(title, t('common.confirmDelete'), [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: onDelete },
+      ]);
+    },
+    [settings.confirmDelete, t]
+  );
+}
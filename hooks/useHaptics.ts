@@ -0,0 +1,15 @@
+import * as Haptics from 'expo-haptics';
+import { useCallback } from 'react';
+
+import { useSettings } from '@/hooks/useSettings';
+
+// Plays an impact on iOS, unless haptics are turned off in settings
+export function useHaptics(): (style?: Haptics.ImpactFeedbackStyle) => void {
+  const { settings } = useSettings();
+  return useCallback(
+    (style = Haptics.ImpactFeedbackStyle.Light) => {
+      if (settings.haptics && process.env.EXPO_OS === 'ios') Haptics.impactAsync(style);
+    },
+    [settings.haptics]
+  );
+}
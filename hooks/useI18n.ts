@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+
+import { useSettings } from '@/hooks/useSettings';
+import { createTranslator, resolveLocale, type Translator } from '@/lib/i18n';
+
+// The language picked in settings, following the device by default
+export function useI18n(): Translator {
+  const { settings } = useSettings();
+  return useMemo(() => {
+    const { language, locale } = resolveLocale(settings.language);
+    return createTranslator(language, locale);
+  }, [settings.language]);
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time that refreshes on an interval, so time-based UI such as overdue markers stays fresh
+ */
+export function useNow(intervalMs = 60 * 1000) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
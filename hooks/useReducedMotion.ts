@@ -0,0 +1,18 @@
+import { useCallback } from 'react';
+import { LayoutAnimation } from 'react-native';
+
+import { useSettings } from '@/hooks/useSettings';
+
+// Whether to skip decorative animations, per the app's setting or the device's
+export function useReducedMotion(): boolean {
+  const { settings, systemReduceMotion } = useSettings();
+  return settings.reduceMotion || systemReduceMotion;
+}
+
+// Animates the next layout change, like a row appearing or leaving, unless motion is reduced
+export function useLayoutAnimation(): () => void {
+  const reducedMotion = useReducedMotion();
+  return useCallback(() => {
+    if (!reducedMotion) LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+  }, [reducedMotion]);
+}
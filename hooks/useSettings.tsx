@@ -0,0 +1,65 @@
+import { createContext, useCallback, useContext, useEffect, useState, type PropsWithChildren } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+import { DEFAULT_SETTINGS, validateSettings, type Settings } from '@/lib/settings';
+import { loadSettings, saveSettings } from '@/lib/settingsRepository';
+
+type SettingsStore = {
+  loaded: boolean;
+  settings: Settings;
+  // Invalid values are dropped, keeping the current setting
+  updateSettings: (changes: Partial<Settings>) => void;
+  // The device's own reduce motion setting, which applies whatever `settings.reduceMotion` says
+  systemReduceMotion: boolean;
+};
+
+const SettingsContext = createContext<SettingsStore | null>(null);
+
+// Loads settings once and saves every change; screens follow changes as soon as they're made
+export function SettingsProvider({ children }: PropsWithChildren) {
+  const [loaded, setLoaded] = useState(false);
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [systemReduceMotion, setSystemReduceMotion] = useState(false);
+
+  // Settings that can't be read keep working for this session but are never saved over
+  useEffect(() => {
+    loadSettings()
+      .then(stored => {
+        setSettings(stored);
+        setLoaded(true);
+      })
+      .catch(e => console.warn('Failed to load settings', e));
+  }, []);
+
+  useEffect(() => {
+    AccessibilityInfo.isReduceMotionEnabled().then(setSystemReduceMotion);
+    const subscription = AccessibilityInfo.addEventListener('reduceMotionChanged', setSystemReduceMotion);
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    saveSettings(settings).catch(e => console.warn('Failed to save settings', e));
+  }, [settings, loaded]);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings(prev => {
+      const next = validateSettings({ ...prev, ...changes }, prev);
+      return (Object.keys(next) as (keyof Settings)[]).every(key => next[key] === prev[key]) ? prev : next;
+    });
+  }, []);
+
+  return (
+    <SettingsContext.Provider value={{ loaded, settings, updateSettings, systemReduceMotion }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const store = useContext(SettingsContext);
+  if (!store) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return store;
+}
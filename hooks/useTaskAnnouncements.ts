@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { useI18n } from '@/hooks/useI18n';
+import { describeListChanges } from '@/lib/accessibility';
+
+/**
+ * Tells screen reader users when tasks appear in or leave the list they're looking at,
+ * however it happened: adding, deleting, undo, archiving or sync. Switching lists and the
+ * first load aren't announced.
+ */
+export function useTaskAnnouncements(tasks: Task[], listId: string, loaded: boolean) {
+  const i18n = useI18n();
+  const previous = useRef<{ tasks: Task[]; listId: string } | null>(null);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const before = previous.current;
+    previous.current = { tasks, listId };
+    if (!before || before.listId !== listId) return;
+
+    const message = describeListChanges(before.tasks, tasks, i18n);
+    if (message) AccessibilityInfo.announceForAccessibility(message);
+  }, [tasks, listId, loaded, i18n]);
+}
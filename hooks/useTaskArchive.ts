@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+
+import Task from '@/app/(tabs)/Task';
+import { useNow } from '@/hooks/useNow';
+import { archiveTasks, dueForArchive, restoreTasks, type Archive, type ArchivedTask } from '@/lib/archive';
+import { type TaskList } from '@/lib/lists';
+import { loadArchive, saveArchive } from '@/lib/taskRepository';
+
+export type TaskArchive = {
+  // False until the stored archive has been read, and for good if reading it failed
+  loaded: boolean;
+  tasks: ArchivedTask[];
+  autoArchiveDays: number | null;
+  setAutoArchiveDays: (days: number | null) => void;
+  // Move the completed tasks among `ids` out of the active list, returning how many moved;
+  // nothing moves until the archive has loaded
+  add: (ids: string[]) => number;
+  restore: (ids: string[]) => void;
+  // Delete archived tasks for good
+  remove: (ids: string[]) => void;
+  // Changes pulled from other devices, applied as they are
+  setTasks: Dispatch<SetStateAction<ArchivedTask[]>>;
+};
+
+/**
+ * The archive of completed tasks. Moving tasks in and out isn't undoable, since the undo
+ * history only covers the active list; restoring from the archive is the way back.
+ */
+export function useTaskArchive(
+  tasks: Task[],
+  setTasks: Dispatch<SetStateAction<Task[]>>,
+  lists: TaskList[],
+  loaded: boolean
+): TaskArchive {
+  const [archive, setArchive] = useState<Archive>({ tasks: [], autoArchiveDays: null });
+  const [archiveLoaded, setArchiveLoaded] = useState(false);
+  // Tasks that have been done long enough are picked up within the hour
+  const now = useNow(60 * 60 * 1000);
+  // Read by the callbacks below, which stay stable so task rows don't re-render
+  const latest = useRef({ tasks, archive, lists, archiveLoaded });
+  latest.current = { tasks, archive, lists, archiveLoaded };
+
+  // An archive that can't be read, e.g. written by a newer version, is never saved over
+  useEffect(() => {
+    loadArchive()
+      .then(stored => {
+        setArchive(stored);
+        setArchiveLoaded(true);
+      })
+      .catch(e => console.warn('Failed to load the archive', e));
+  }, []);
+
+  useEffect(() => {
+    if (!archiveLoaded) return;
+    saveArchive(archive).catch(e => console.warn('Failed to save the archive', e));
+  }, [archive, archiveLoaded]);
+
+  const add = useCallback(
+    (ids: string[]) => {
+      const { tasks, archive, archiveLoaded } = latest.current;
+      if (!archiveLoaded) return 0;
+      const result = archiveTasks(tasks, archive.tasks, ids);
+      const moved = result.archive.length - archive.tasks.length;
+      if (moved > 0) {
+        setTasks(result.tasks);
+        setArchive({ ...archive, tasks: result.archive });
+      }
+      return moved;
+    },
+    [setTasks]
+  );
+
+  // Archive whatever has been done for longer than the configured number of days
+  useEffect(() => {
+    if (!loaded || !archiveLoaded || archive.autoArchiveDays === null) return;
+    const ids = dueForArchive(tasks, archive.autoArchiveDays, now);
+    if (ids.length > 0) add(ids);
+  }, [tasks, loaded, archiveLoaded, archive.autoArchiveDays, now, add]);
+
+  // A task lives in one place: one that's back in the list, e.g. through sync or an import, leaves the archive
+  useEffect(() => {
+    if (!loaded || !archiveLoaded) return;
+    const active = new Set(tasks.map(task => task.id));
+    if (archive.tasks.some(task => active.has(task.id))) {
+      setArchive(prev => ({ ...prev, tasks: prev.tasks.filter(task => !active.has(task.id)) }));
+    }
+  }, [tasks, archive.tasks, loaded, archiveLoaded]);
+
+  const restore = useCallback(
+    (ids: string[]) => {
+      const { tasks, archive, lists, archiveLoaded } = latest.current;
+      if (!archiveLoaded) return;
+      const result = restoreTasks(tasks, archive.tasks, ids, lists);
+      setTasks(result.tasks);
+      setArchive({ ...archive, tasks: result.archive });
+    },
+    [setTasks]
+  );
+
+  const remove = useCallback((ids: string[]) => {
+    setArchive(prev => ({ ...prev, tasks: prev.tasks.filter(task => !ids.includes(task.id)) }));
+  }, []);
+
+  const setArchivedTasks = useCallback((update: SetStateAction<ArchivedTask[]>) => {
+    setArchive(prev => ({ ...prev, tasks: typeof update === 'function' ? update(prev.tasks) : update }));
+  }, []);
+
+  const setAutoArchiveDays = useCallback((autoArchiveDays: number | null) => {
+    setArchive(prev => ({ ...prev, autoArchiveDays }));
+  }, []);
+
+  return {
+    loaded: archiveLoaded,
+    tasks: archive.tasks,
+    autoArchiveDays: archive.autoArchiveDays,
+    setAutoArchiveDays,
+    add,
+    restore,
+    remove,
+    setTasks: setArchivedTasks,
+  };
+}
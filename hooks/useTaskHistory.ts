@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+
+import Task from '@/app/(tabs)/Task';
+import {
+  applyChanges,
+  diffTasks,
+  EMPTY_HISTORY,
+  isMeaningful,
+  pushEntry,
+  type History,
+  type HistoryEntry,
+} from '@/lib/history';
+import { loadHistory, saveHistory } from '@/lib/historyRepository';
+
+export type TaskHistory = {
+  canUndo: boolean;
+  canRedo: boolean;
+  // Most recent undoable change, e.g. for an "Undo" snackbar
+  lastEntry: HistoryEntry | undefined;
+  // Label the next change to the tasks so it can be undone
+  record: (label: string) => void;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+};
+
+/**
+ * Undo/redo over the task list. Changes are recorded as per-task diffs after they land,
+ * so every way of updating the tasks is covered as long as it's labelled with `record`;
+ * unlabelled updates (like toggling edit mode) are not undoable.
+ */
+export function useTaskHistory(
+  tasks: Task[],
+  setTasks: Dispatch<SetStateAction<Task[]>>,
+  loaded: boolean
+): TaskHistory {
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const pendingLabel = useRef<string | null>(null);
+  const previousTasks = useRef(tasks);
+
+  // A history that can't be read still records this session's changes, but is never saved over
+  useEffect(() => {
+    loadHistory()
+      .then(stored => {
+        setHistory(stored);
+        setHistoryLoaded(true);
+      })
+      .catch(e => console.warn('Failed to load undo history', e));
+  }, []);
+
+  // Turn a labelled change into a history entry
+  useEffect(() => {
+    const before = previousTasks.current;
+    const label = pendingLabel.current;
+    previousTasks.current = tasks;
+    pendingLabel.current = null;
+    if (!loaded || label === null) return;
+
+    const changes = diffTasks(before, tasks).filter(isMeaningful);
+    if (changes.length > 0) {
+      setHistory(prev => pushEntry(prev, { label, at: Date.now(), changes }));
+    }
+  }, [tasks, loaded]);
+
+  useEffect(() => {
+    if (!historyLoaded) return;
+    saveHistory(history).catch(e => console.warn('Failed to save undo history', e));
+  }, [history, historyLoaded]);
+
+  const record = useCallback((label: string) => {
+    pendingLabel.current = label;
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    setTasks(prev => applyChanges(prev, entry.changes, 'undo'));
+    setHistory({ past: history.past.slice(0, -1), future: [entry, ...history.future] });
+  }, [history, setTasks]);
+
+  const redo = useCallback(() => {
+    const [entry, ...future] = history.future;
+    if (!entry) return;
+    setTasks(prev => applyChanges(prev, entry.changes, 'redo'));
+    setHistory({ past: [...history.past, entry], future });
+  }, [history, setTasks]);
+
+  const clear = useCallback(() => setHistory(EMPTY_HISTORY), []);
+
+  return {
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    lastEntry: history.past[history.past.length - 1],
+    record,
+    undo,
+    redo,
+    clear,
+  };
+}
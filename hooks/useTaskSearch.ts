@@ -0,0 +1,18 @@
+import { useDeferredValue, useMemo } from 'react';
+
+import Task from '@/app/(tabs)/Task';
+import { searchTasks, type SearchResult } from '@/lib/search';
+
+/**
+ * Search results for `query` that stay responsive while typing: matching runs at a
+ * deferred priority. Every query searches all tasks, since typo tolerance means a longer
+ * query can match tasks a shorter one missed.
+ */
+export function useTaskSearch(tasks: Task[], query: string): SearchResult[] | null {
+  const deferredQuery = useDeferredValue(query.trim());
+
+  return useMemo(
+    () => (deferredQuery === '' ? null : searchTasks(tasks, deferredQuery)),
+    [tasks, deferredQuery]
+  );
+}
@@ -0,0 +1,156 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type PropsWithChildren,
+  type SetStateAction,
+} from 'react';
+import { Alert } from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { useCompletionHistory } from '@/hooks/useCompletionHistory';
+import { useI18n } from '@/hooks/useI18n';
+import { useTaskArchive, type TaskArchive } from '@/hooks/useTaskArchive';
+import { useTaskHistory, type TaskHistory } from '@/hooks/useTaskHistory';
+import { useTaskSync, type TaskSync } from '@/hooks/useTaskSync';
+import { notifier } from '@/lib/expoNotifier';
+import { loadLists, saveLists } from '@/lib/listRepository';
+import { DEFAULT_LIST_ID, type TaskList } from '@/lib/lists';
+import { syncReminders } from '@/lib/reminders';
+import { type CompletionHistory } from '@/lib/stats';
+import { loadTasks, saveTasks } from '@/lib/taskRepository';
+import { touchChanged } from '@/lib/timestamps';
+
+type TaskStore = {
+  loaded: boolean;
+  tasks: Task[];
+  // Updates that can't be undone, like entering edit mode
+  setTasks: Dispatch<SetStateAction<Task[]>>;
+  // Updates recorded in the undo history under `label`
+  updateTasks: (label: string, update: SetStateAction<Task[]>) => void;
+  history: TaskHistory;
+  sync: TaskSync;
+  archive: TaskArchive;
+  // Every completion and new task, for the stats screen
+  completionHistory: CompletionHistory;
+  lists: TaskList[];
+  setLists: Dispatch<SetStateAction<TaskList[]>>;
+  activeListId: string;
+  setActiveListId: (id: string) => void;
+};
+
+const TaskStoreContext = createContext<TaskStore | null>(null);
+
+/**
+ * Owns the tasks and lists shared by every screen: loads them once, saves them on
+ * every change and keeps reminders, and other devices when sync is on, up to date.
+ */
+export function TaskStoreProvider({ children }: PropsWithChildren) {
+  const [loaded, setLoaded] = useState(false);
+  const [tasks, setStoredTasks] = useState<Task[]>([]);
+  const [lists, setLists] = useState<TaskList[]>([]);
+  const [activeListId, setActiveListId] = useState(DEFAULT_LIST_ID);
+  const translator = useI18n();
+  // Read when loading fails, by which time the language setting has usually loaded too
+  const i18n = useRef(translator);
+  i18n.current = translator;
+
+  // Every change made on this device stamps `updatedAt` on the tasks it touched
+  const setTasks = useCallback<Dispatch<SetStateAction<Task[]>>>(
+    update =>
+      setStoredTasks(prev => touchChanged(prev, typeof update === 'function' ? update(prev) : update)),
+    []
+  );
+
+  const history = useTaskHistory(tasks, setTasks, loaded);
+  const { record } = history;
+  const archive = useTaskArchive(tasks, setTasks, lists, loaded);
+  // Changes pulled from other devices keep the times they were made at. Sync waits for the
+  // archive too, since a task missing from both the list and the archive reads as deleted.
+  const sync = useTaskSync(tasks, setStoredTasks, archive, loaded && archive.loaded);
+  const completionHistory = useCompletionHistory(tasks, loaded);
+
+  const updateTasks = useCallback(
+    (label: string, update: SetStateAction<Task[]>) => {
+      record(label);
+      setTasks(update);
+    },
+    [record]
+  );
+
+  // Load tasks and lists from storage
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [storedLists, storedTasks] = await Promise.all([loadLists(), loadTasks()]);
+        setLists(storedLists);
+        setActiveListId(storedLists[0].id);
+        setStoredTasks(storedTasks);
+        setLoaded(true);
+      } catch (e) {
+        const { t } = i18n.current;
+        Alert.alert(t('tasks.loadFailedTitle'), t('tasks.loadFailed'));
+      }
+    };
+    load();
+  }, []);
+
+  // Save tasks to storage, but never before the stored list has been read
+  useEffect(() => {
+    if (!loaded) return;
+    saveTasks(tasks).catch(() => {
+      const { t } = i18n.current;
+      Alert.alert(t('common.error'), t('tasks.saveFailed'));
+    });
+  }, [tasks, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    saveLists(lists).catch(() => {
+      const { t } = i18n.current;
+      Alert.alert(t('common.error'), t('lists.saveFailed'));
+    });
+  }, [lists, loaded]);
+
+  // Re-plan reminders whenever a task is added, changed, completed or removed, or the language changes
+  useEffect(() => {
+    if (!loaded) return;
+    syncReminders(notifier, tasks, Date.now(), translator).catch(e => console.warn('Failed to schedule reminders', e));
+  }, [tasks, loaded, translator]);
+
+  // Fall back to the first list if the active one is deleted
+  const activeList = lists.find(list => list.id === activeListId) ?? lists[0];
+
+  return (
+    <TaskStoreContext.Provider
+      value={{
+        loaded,
+        tasks,
+        setTasks,
+        updateTasks,
+        history,
+        sync,
+        archive,
+        completionHistory,
+        lists,
+        setLists,
+        activeListId: activeList?.id ?? DEFAULT_LIST_ID,
+        setActiveListId,
+      }}
+    >
+      {children}
+    </TaskStoreContext.Provider>
+  );
+}
+
+export function useTaskStore() {
+  const store = useContext(TaskStoreContext);
+  if (!store) {
+    throw new Error('useTaskStore must be used within a TaskStoreProvider');
+  }
+  return store;
+}
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import { AppState } from 'react-native';
+
+import Task from '@/app/(tabs)/Task';
+import { type TaskArchive } from '@/hooks/useTaskArchive';
+import {
+  acknowledge,
+  applyArchivedRecords,
+  applyRecords,
+  createHttpTransport,
+  createSyncState,
+  receive,
+  recordLocalChanges,
+  type SyncState,
+} from '@/lib/sync';
+import { loadSyncState, saveSyncState } from '@/lib/syncRepository';
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'offline';
+
+export type TaskSync = {
+  status: SyncStatus;
+  endpoint: string | null;
+  // Local changes the server hasn't got yet
+  pending: number;
+  lastSyncedAt: number | null;
+  // Why the last attempt failed, while we're offline
+  error: string | null;
+  // Sync with a different server, or pass null to stop syncing
+  setEndpoint: (endpoint: string | null) => void;
+  syncNow: () => void;
+};
+
+// Local changes are pushed shortly after they're made, so a burst of edits goes up together
+const PUSH_DELAY = 2000;
+
+// How often other devices' changes are pulled while the app is open
+const PULL_INTERVAL = 30 * 1000;
+
+/**
+ * Keeps the tasks in sync with a server once an endpoint is set. Like the undo history, it
+ * works from the tasks after each change lands, so every way of updating them is covered;
+ * changes pulled from other devices come back in through `setTasks` and aren't undoable.
+ * Archived tasks are synced alongside the list, so archiving on one device archives everywhere.
+ */
+export function useTaskSync(
+  tasks: Task[],
+  setTasks: Dispatch<SetStateAction<Task[]>>,
+  archive: Pick<TaskArchive, 'tasks' | 'setTasks'>,
+  loaded: boolean
+): TaskSync {
+  const { tasks: archived, setTasks: setArchived } = archive;
+  // The ref is the source of truth between awaits; the state copy is for rendering
+  const state = useRef<SyncState | null>(null);
+  const [snapshot, setSnapshot] = useState<SyncState | null>(null);
+  const [status, setStatus] = useState<'idle' | 'syncing' | 'offline'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const running = useRef(false);
+  const pushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const update = useCallback((next: SyncState) => {
+    state.current = next;
+    setSnapshot(next);
+    saveSyncState(next).catch(e => console.warn('Failed to save sync state', e));
+  }, []);
+
+  useEffect(() => {
+    loadSyncState()
+      .then(loadedState => {
+        state.current = loadedState;
+        setSnapshot(loadedState);
+      })
+      .catch(e => console.warn('Failed to load sync state', e));
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    const endpoint = state.current?.endpoint;
+    if (!endpoint || running.current) return;
+    running.current = true;
+    setStatus('syncing');
+    const transport = createHttpTransport(endpoint);
+    // Stop if sync was turned off or pointed elsewhere while a request was out
+    const current = () => (state.current?.endpoint === endpoint ? state.current : null);
+
+    try {
+      const pushed = current()?.queue ?? [];
+      if (pushed.length > 0) {
+        await transport.push(pushed);
+        if (!current()) return;
+        update(acknowledge(current()!, pushed));
+      }
+
+      const { ops, revision } = await transport.pull(current()!.cursor);
+      if (!current()) return;
+      const received = receive(current()!, ops, revision);
+      update(received.state);
+      if (received.taskIds.length > 0) {
+        const { records } = state.current!;
+        setTasks(prev => applyRecords(prev, records, received.taskIds));
+        setArchived(prev => applyArchivedRecords(prev, records, received.taskIds));
+      }
+      setStatus('idle');
+      setError(null);
+    } catch (e) {
+      setStatus('offline');
+      setError((e as Error).message);
+    } finally {
+      running.current = false;
+    }
+  }, [setTasks, setArchived, update]);
+
+  const endpoint = snapshot?.endpoint ?? null;
+  const syncLoaded = snapshot !== null;
+
+  // Queue whatever changed, never before the stored tasks have been read
+  useEffect(() => {
+    const current = state.current;
+    if (!loaded || !current?.endpoint) return;
+    const next = recordLocalChanges(current, tasks, archived);
+    if (next === current) return;
+    update(next);
+    if (pushTimer.current) clearTimeout(pushTimer.current);
+    pushTimer.current = setTimeout(syncNow, PUSH_DELAY);
+  }, [tasks, archived, loaded, syncLoaded, endpoint, update, syncNow]);
+
+  // Pull now, every so often, and whenever the app comes back to the foreground
+  useEffect(() => {
+    if (!loaded || !endpoint) return;
+    syncNow();
+    const interval = setInterval(syncNow, PULL_INTERVAL);
+    const subscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active') syncNow();
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+      if (pushTimer.current) clearTimeout(pushTimer.current);
+    };
+  }, [loaded, endpoint, syncNow]);
+
+  const setEndpoint = useCallback(
+    (next: string | null) => {
+      const current = state.current;
+      const trimmed = next?.trim() || null;
+      if (!current || trimmed === current.endpoint) return;
+      // A different server starts from scratch: our tasks are uploaded and merged with its own
+      update({ ...createSyncState(current.deviceId, trimmed), clock: current.clock });
+      setStatus('idle');
+      setError(null);
+    },
+    [update]
+  );
+
+  return {
+    status: endpoint ? status : 'off',
+    endpoint,
+    pending: snapshot?.queue.length ?? 0,
+    lastSyncedAt: snapshot?.lastSyncedAt ?? null,
+    error,
+    setEndpoint,
+    syncNow,
+  };
+}
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+
+import { type Palette } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useSettings } from '@/hooks/useSettings';
+import { resolveTheme, type Theme } from '@/lib/theme';
+
+// The theme picked in settings, following the system scheme by default
+export function useTheme(): Theme {
+  const systemScheme = useColorScheme();
+  const { settings } = useSettings();
+  return useMemo(
+    () => resolveTheme(settings.theme, systemScheme, settings.accent),
+    [settings.theme, settings.accent, systemScheme]
+  );
+}
+
+/**
+ * Styles built from the current theme's colors, rebuilt when the theme changes. `create`
+ * should be defined outside the component so it keeps its identity between renders.
+ */
+export function useThemedStyles<T>(create: (colors: Palette) => T): T {
+  const { colors } = useTheme();
+  return useMemo(() => create(colors), [create, colors]);
+}
@@ -0,0 +1,4 @@
+// Native modules the libraries under test touch on import; see each package's Jest docs
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
@@ -0,0 +1,133 @@
+import { Messages, type MessageKey } from '@/constants/Messages';
+import { createTranslator, resolveLocale, type Language, type MessageValues } from '@/lib/i18n';
+
+// Patterns beyond what the catalogs use, to reach every branch of the parser
+jest.mock('@/constants/Messages', () => {
+  const actual = jest.requireActual('@/constants/Messages');
+  const patterns = {
+    'test.argument': 'Hello, {name}!',
+    'test.number': '{count} left',
+    'test.plural': '{count, plural, =0 {No tasks} =1 {Just one task} one {# task} other {# tasks}}',
+    'test.categories': '{count, plural, zero {zero} one {one} two {two} few {few} many {many} other {other}}',
+    'test.select': '{unit, select, day {daily} week {weekly} other {every {unit}}}',
+    'test.nested': '{unit, select, day {{count, plural, one {every day} other {every # days}}} other {# {unit}}}',
+    'test.broken.other': '{count, plural, one {# task}}',
+    'test.broken.option': '{count, plural, other {# tasks',
+    'test.broken.close': '{count, plural, other {# tasks}',
+    'test.broken.brace': 'Done}',
+    'test.broken.name': 'Hello, {}',
+  };
+  return { Messages: { ...actual.Messages, en: { ...actual.Messages.en, ...patterns } } };
+});
+
+const format = (key: string, values?: MessageValues, language: Language = 'en') =>
+  createTranslator(language).t(key as MessageKey, values);
+
+describe('messages', () => {
+  it('fills in arguments, formatting numbers for the locale', () => {
+    expect(format('test.argument', { name: 'Ana' })).toBe('Hello, Ana!');
+    expect(format('test.number', { count: 1234 })).toBe('1,234 left');
+  });
+
+  it('leaves missing arguments visible', () => {
+    expect(format('test.argument')).toBe('Hello, {name}!');
+  });
+
+  it('picks exact plural matches before categories', () => {
+    expect(format('test.plural', { count: 0 })).toBe('No tasks');
+    expect(format('test.plural', { count: 1 })).toBe('Just one task');
+    expect(format('test.plural', { count: 2500 })).toBe('2,500 tasks');
+  });
+
+  it('picks select options, falling back to other', () => {
+    expect(format('test.select', { unit: 'week' })).toBe('weekly');
+    expect(format('test.select', { unit: 'month' })).toBe('every month');
+  });
+
+  it('replaces # with the innermost plural count, and only inside plurals', () => {
+    expect(format('test.nested', { unit: 'day', count: 1 })).toBe('every day');
+    expect(format('test.nested', { unit: 'day', count: 3 })).toBe('every 3 days');
+    expect(format('test.nested', { unit: 'week', count: 3 })).toBe('# week');
+  });
+
+  it('falls back to English for messages a catalog lacks', () => {
+    expect(format('test.argument', { name: 'Ana' }, 'es')).toBe('Hello, Ana!');
+  });
+
+  it.each([
+    ['test.broken.other', 'plural "count" needs an "other" option'],
+    ['test.broken.option', 'unclosed option "other"'],
+    ['test.broken.close', 'unclosed plural'],
+    ['test.broken.brace', 'unexpected "}" at 4'],
+    ['test.broken.name', 'expected an argument name at 8'],
+  ])('rejects %s', (key, message) => {
+    expect(() => format(key, { count: 1 })).toThrow(message);
+  });
+
+  it.each(Object.keys(Messages) as Language[])('parses every message in the %s catalog', language => {
+    const keys = Object.keys(Messages[language]).filter(key => !key.startsWith('test.'));
+    for (const key of keys) expect(() => format(key, { count: 2 }, language)).not.toThrow();
+  });
+});
+
+describe('plurals', () => {
+  const categories = (language: Language, counts: number[]) =>
+    counts.map(count => format('test.categories', { count }, language));
+
+  const ARABIC_COUNTS = [0, 1, 2, 3, 10, 11, 99, 100, 101, 102, 103, 111, 1000];
+  const ARABIC_CATEGORIES = [
+    'zero',
+    'one',
+    'two',
+    'few',
+    'few',
+    'many',
+    'many',
+    'other',
+    'other',
+    'other',
+    'few',
+    'many',
+    'other',
+  ];
+
+  it('follow the locale’s rules', () => {
+    expect(categories('en', [0, 1, 2])).toEqual(['other', 'one', 'other']);
+    expect(categories('ar', ARABIC_COUNTS)).toEqual(ARABIC_CATEGORIES);
+  });
+
+  describe('without Intl.PluralRules', () => {
+    const { PluralRules } = Intl;
+
+    beforeEach(() => {
+      delete (Intl as { PluralRules?: typeof PluralRules }).PluralRules;
+    });
+
+    afterEach(() => {
+      Object.assign(Intl, { PluralRules });
+    });
+
+    it('fall back to the same categories', () => {
+      expect(categories('en', [0, 1, 2])).toEqual(['other', 'one', 'other']);
+      expect(categories('es', [0, 1, 2])).toEqual(['other', 'one', 'other']);
+      expect(categories('ar', ARABIC_COUNTS)).toEqual(ARABIC_CATEGORIES);
+    });
+  });
+});
+
+describe('resolveLocale', () => {
+  it.each<[Parameters<typeof resolveLocale>[0], string, ReturnType<typeof resolveLocale>]>([
+    ['es', 'en-US', { language: 'es', locale: 'es' }],
+    ['system', 'es-MX', { language: 'es', locale: 'es-MX' }],
+    ['system', 'AR-EG', { language: 'ar', locale: 'AR-EG' }],
+    ['system', 'en-GB', { language: 'en', locale: 'en-GB' }],
+    ['system', 'fr-FR', { language: 'en', locale: 'en' }],
+  ])('resolves %s with the device set to %s', (preference, deviceLocale, expected) => {
+    expect(resolveLocale(preference, deviceLocale)).toEqual(expected);
+  });
+
+  it('lays Arabic out right to left', () => {
+    expect(createTranslator('ar').direction).toBe('rtl');
+    expect(createTranslator('es').direction).toBe('ltr');
+  });
+});
@@ -0,0 +1,254 @@
+import Task, { type TaskData } from '@/app/(tabs)/Task';
+import { type MessageKey } from '@/constants/Messages';
+import { parseICalendar, toICalendar } from '@/lib/ical';
+import { createDefaultList } from '@/lib/lists';
+import { createRule, type RecurrenceRule } from '@/lib/recurrence';
+import { type ImportText } from '@/lib/taskFormats';
+import { applyImport, planImport } from '@/lib/taskImport';
+
+const NOW = Date.UTC(2026, 5, 10, 14, 0);
+const utc = (month: number, day: number, hour = 0) => Date.UTC(2026, month - 1, day, hour);
+
+const task = (id: string, title: string, fields: Partial<TaskData> = {}) =>
+  Object.assign(new Task(id, title, false, false, utc(6, 1)), { updatedAt: utc(6, 2) }, fields);
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+const todo = (...lines: string[]) => ['BEGIN:VTODO', ...lines, 'END:VTODO'];
+
+const issue = (line: number, key: MessageKey, values?: Record<string, unknown>) => ({
+  where: { key: 'transfer.where.line', values: { line } } as ImportText,
+  message: values ? { key, values } : { key },
+});
+
+// The recurrence read from an RRULE, and any issue it raised
+function readRule(rrule: string): { rule: RecurrenceRule | null; errors: unknown[] } {
+  const { entries, errors } = parseICalendar(calendar(...todo('UID:1', 'SUMMARY:Repeat', `RRULE:${rrule}`)), NOW);
+  return { rule: entries[0].task.recurrence, errors };
+}
+
+describe('toICalendar', () => {
+  it('writes a VTODO per task', () => {
+    const text = toICalendar(
+      [
+        task('1', 'Buy milk, eggs; bread', {
+          dueDate: utc(6, 12, 9),
+          priority: 'high',
+          tags: ['errands', 'home'],
+          recurrence: { ...createRule('weekly'), weekdays: [1, 3] },
+          notes: 'Two lines\nof notes',
+        }),
+        task('2', 'Done', { completed: true, completedAt: utc(6, 5, 8) }),
+      ],
+      NOW
+    );
+    expect(text.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//todoapp//Tasks//EN',
+      'BEGIN:VTODO',
+      'UID:1',
+      'DTSTAMP:20260610T140000Z',
+      'CREATED:20260601T000000Z',
+      'LAST-MODIFIED:20260602T000000Z',
+      'SUMMARY:Buy milk\\, eggs\\; bread',
+      'STATUS:NEEDS-ACTION',
+      'DTSTART:20260612T090000Z',
+      'DUE:20260612T090000Z',
+      'PRIORITY:3',
+      'CATEGORIES:errands,home',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+      'DESCRIPTION:Two lines\\nof notes',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:2',
+      'DTSTAMP:20260610T140000Z',
+      'CREATED:20260601T000000Z',
+      'LAST-MODIFIED:20260602T000000Z',
+      'SUMMARY:Done',
+      'STATUS:COMPLETED',
+      'COMPLETED:20260605T080000Z',
+      'END:VTODO',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const lines = toICalendar([task('1', 'é'.repeat(60))], NOW).split('\r\n');
+    const summary = lines.findIndex(line => line.startsWith('SUMMARY:'));
+    expect(lines[summary + 1]).toMatch(/^ é+$/);
+    for (const line of lines) expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+  });
+});
+
+describe('parseICalendar', () => {
+  it('reads back what it wrote', () => {
+    const tasks = [
+      task('1', 'Buy milk, eggs; bread', {
+        dueDate: utc(6, 12, 9),
+        priority: 'high',
+        tags: ['errands', 'home,garden'],
+        recurrence: { ...createRule('monthly'), monthlyWeekday: { ordinal: -1, weekday: 5 }, count: 6 },
+        notes: 'Two lines\nof notes',
+      }),
+      task('2', 'Done '.repeat(20).trim(), { completed: true, completedAt: utc(6, 5, 8) }),
+    ];
+    const { entries, errors } = parseICalendar(toICalendar(tasks, NOW), NOW);
+    expect(errors).toEqual([]);
+    expect(entries.map(entry => entry.task)).toEqual(
+      tasks.map(t =>
+        expect.objectContaining({
+          id: t.id,
+          title: t.title,
+          completed: t.completed,
+          completedAt: t.completedAt,
+          createdAt: t.createdAt,
+          updatedAt: t.updatedAt,
+          dueDate: t.dueDate,
+          priority: t.priority,
+          tags: t.tags,
+          recurrence: t.recurrence,
+          notes: t.notes,
+        })
+      )
+    );
+  });
+
+  it('reads dates, priorities and other apps’ quirks', () => {
+    const { entries } = parseICalendar(
+      calendar(
+        ...todo(
+          'UID:a',
+          'SUMMARY:Floating',
+          'DUE;VALUE=DATE:20260614',
+          'PRIORITY:2',
+          'CATEGORIES:one',
+          'CATEGORIES:two'
+        ),
+        ...todo(
+          'UID:b',
+          'SUMMARY:Wrapped',
+          ' title',
+          'COMPLETED:20260601T100000Z',
+          'BEGIN:VALARM',
+          'SUMMARY:Ignored',
+          'END:VALARM'
+        )
+      ),
+      NOW
+    );
+    expect(entries[0].task).toMatchObject({
+      dueDate: new Date(2026, 5, 14, 9).getTime(),
+      priority: 'high',
+      tags: ['one', 'two'],
+    });
+    expect(entries[1].task).toMatchObject({ title: 'Wrappedtitle', completed: true, completedAt: utc(6, 1, 10) });
+  });
+
+  describe('RRULE', () => {
+    it.each<[string, Partial<RecurrenceRule>]>([
+      ['FREQ=DAILY', { frequency: 'daily', interval: 1 }],
+      ['FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO', { frequency: 'weekly', interval: 2, weekdays: [1, 5] }],
+      ['FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', { frequency: 'weekly', weekdays: [1, 2, 3, 4, 5] }],
+      ['FREQ=MONTHLY;BYDAY=2TU', { frequency: 'monthly', monthlyWeekday: { ordinal: 2, weekday: 2 } }],
+      ['FREQ=MONTHLY;BYDAY=-1FR', { frequency: 'monthly', monthlyWeekday: { ordinal: -1, weekday: 5 } }],
+      ['FREQ=YEARLY;INTERVAL=2', { frequency: 'monthly', interval: 24 }],
+      ['FREQ=WEEKLY;UNTIL=20261231T000000Z', { frequency: 'weekly', until: utc(12, 31) }],
+      ['FREQ=DAILY;COUNT=5', { frequency: 'daily', count: 5 }],
+    ])('decodes %s', (rrule, expected) => {
+      const { rule, errors } = readRule(rrule);
+      expect(errors).toEqual([]);
+      expect(rule).toMatchObject(expected);
+    });
+
+    it.each<[string, MessageKey, Record<string, unknown> | undefined]>([
+      ['FREQ=HOURLY', 'transfer.issue.unsupportedFrequency', { frequency: 'HOURLY' }],
+      ['INTERVAL=2', 'transfer.issue.noFrequency', undefined],
+      ['FREQ=DAILY;INTERVAL=0', 'transfer.issue.invalidRulePart', { value: '0', part: 'INTERVAL' }],
+      ['FREQ=WEEKLY;BYDAY=XX', 'transfer.issue.invalidRulePart', { value: 'XX', part: 'BYDAY' }],
+      ['FREQ=WEEKLY;UNTIL=soon', 'transfer.issue.invalidRulePart', { value: 'soon', part: 'UNTIL' }],
+      ['FREQ=WEEKLY;COUNT=-1', 'transfer.issue.invalidRulePart', { value: '-1', part: 'COUNT' }],
+    ])('imports %s without repeating', (rrule, key, values) => {
+      const { rule, errors } = readRule(rrule);
+      expect(rule).toBeNull();
+      expect(errors).toEqual([issue(6, key, values)]);
+    });
+  });
+
+  it('reports a file that is not a calendar', () => {
+    expect(parseICalendar('BEGIN:VTODO\r\nEND:VTODO', NOW).errors).toEqual([
+      { where: { key: 'transfer.where.file' }, message: { key: 'transfer.issue.notICalendar' } },
+    ]);
+  });
+
+  it('reports malformed VTODOs by line and keeps the rest', () => {
+    const { entries, errors } = parseICalendar(
+      calendar(
+        ...todo('UID:1', 'SUMMARY:Fine', 'DUE:tomorrow', 'not a property'),
+        ...todo('UID:2', 'DESCRIPTION:No summary'),
+        'BEGIN:VTODO',
+        'SUMMARY:Never closed'
+      ),
+      NOW
+    );
+    expect(entries.map(entry => entry.task.title)).toEqual(['Fine']);
+    expect(errors).toEqual([
+      issue(7, 'transfer.issue.notAProperty'),
+      issue(6, 'transfer.issue.invalidPropertyDate', { value: 'tomorrow', property: 'DUE' }),
+      issue(9, 'transfer.issue.noSummary'),
+      issue(13, 'transfer.issue.unclosedTodo'),
+    ]);
+  });
+});
+
+describe('re-importing by UID', () => {
+  const lists = [createDefaultList(), { id: 'work', name: 'Work', color: '#28a745', sort: 'manual' as const }];
+  const existing = [
+    task('1', 'Buy milk', {
+      order: 0,
+      listId: 'work',
+      reminders: [{ id: 'r', type: 'offset', minutesBefore: 30 }],
+      subtasks: [{ id: 's', title: 'Check fridge', completed: false }],
+    }),
+    task('2', 'Walk dog', { order: 1 }),
+  ];
+
+  // Import a calendar the way the transfer screen does: matched by UID alone, replacing what it matches
+  const reimport = (text: string) => {
+    const items = planImport(parseICalendar(text, NOW).entries, existing, lists, 'default', false);
+    return applyImport(items, existing, lists, 'replace', NOW).tasks;
+  };
+
+  it('updates the same tasks instead of adding copies', () => {
+    const tasks = reimport(toICalendar(existing, NOW));
+    expect(tasks.map(t => [t.id, t.title, t.order])).toEqual([
+      ['1', 'Buy milk', 0],
+      ['2', 'Walk dog', 1],
+    ]);
+  });
+
+  it('takes changes made in another app, keeping what VTODOs do not carry', () => {
+    const edited = toICalendar(existing, NOW)
+      .replace('SUMMARY:Buy milk', 'SUMMARY:Buy oat milk')
+      .replace('STATUS:NEEDS-ACTION', 'STATUS:COMPLETED');
+    const [milk] = reimport(edited);
+    expect(milk).toMatchObject({
+      id: '1',
+      title: 'Buy oat milk',
+      completed: true,
+      completedAt: NOW,
+      listId: 'work',
+      reminders: existing[0].reminders,
+      subtasks: existing[0].subtasks,
+    });
+  });
+
+  it('adds VTODOs with new UIDs, even when their title matches', () => {
+    const tasks = reimport(calendar(...todo('UID:elsewhere', 'SUMMARY:Walk dog')));
+    expect(tasks.map(t => [t.id, t.title])).toEqual([
+      ['1', 'Buy milk'],
+      ['2', 'Walk dog'],
+      ['elsewhere', 'Walk dog'],
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { endOfDay } from '@/lib/dueDates';
+import { parseQuickAdd, type QuickAddResult } from '@/lib/quickAdd';
+import { createRule } from '@/lib/recurrence';
+
+// Wednesday 10 June 2026, 2pm local time: clear of daylight saving changes either way
+const NOW = new Date(2026, 5, 10, 14, 0).getTime();
+
+// A local time on a day in 2026; months are 1-based here for readability
+const at = (month: number, day: number, hour = 9, minute = 0) => new Date(2026, month - 1, day, hour, minute).getTime();
+
+const parse = (input: string) => parseQuickAdd(input, NOW);
+
+describe('parseQuickAdd', () => {
+  it('leaves plain text as the title', () => {
+    expect(parse('  Buy milk  ')).toEqual<QuickAddResult>({
+      title: 'Buy milk',
+      dueDate: null,
+      tags: [],
+      priority: 'none',
+      recurrence: null,
+      parts: [],
+    });
+  });
+
+  describe('dates', () => {
+    it.each<[string, string, number]>([
+      ['Call mom tomorrow', 'Call mom', at(6, 11)],
+      ['Call mom tmrw', 'Call mom', at(6, 11)],
+      ['Dentist tonight', 'Dentist', at(6, 10, 20)],
+      ['Pay rent in 3 days', 'Pay rent', at(6, 13)],
+      ['Pay rent in a week', 'Pay rent', at(6, 17)],
+      ['Check oven in 2 hours', 'Check oven', at(6, 10, 16)],
+      ['Check oven in 45 minutes', 'Check oven', at(6, 10, 14, 45)],
+      ['Plan trip next week', 'Plan trip', at(6, 17)],
+      ['Plan trip next month', 'Plan trip', at(7, 10)],
+      ['Ship 2026-06-15', 'Ship', at(6, 15)],
+      ['Ship jun 20', 'Ship', at(6, 20)],
+      ['Ship 3 july 2026', 'Ship', at(7, 3)],
+      ['Ship on 3rd july', 'Ship', at(7, 3)],
+      // A day that has already passed this year means next year's
+      ['Ship jun 3', 'Ship', new Date(2027, 5, 3, 9).getTime()],
+    ])('reads "%s"', (input, title, dueDate) => {
+      expect(parse(input)).toMatchObject({ title, dueDate });
+    });
+
+    it('keeps "today" from being overdue once the default hour has passed', () => {
+      expect(parse('Call mom today')).toMatchObject({ title: 'Call mom', dueDate: endOfDay(NOW) });
+    });
+
+    it('rejects days the month does not have', () => {
+      expect(parse('Ship 2026-02-30')).toMatchObject({ title: 'Ship 2026-02-30', dueDate: null });
+      expect(parse('Ship feb 30')).toMatchObject({ title: 'Ship feb 30', dueDate: null });
+    });
+  });
+
+  describe('weekdays', () => {
+    it.each<[string, string, number]>([
+      ['Gym friday', 'Gym', at(6, 12)],
+      ['Gym on sat', 'Gym', at(6, 13)],
+      ['Pay rent by sunday', 'Pay rent', at(6, 14)],
+      ['Review next fri', 'Review', at(6, 12)],
+      // "next" skips today, a bare weekday name doesn't
+      ['Review next wed', 'Review', at(6, 17)],
+      ['Review wednesday 5pm', 'Review', at(6, 10, 17)],
+    ])('reads "%s"', (input, title, dueDate) => {
+      expect(parse(input)).toMatchObject({ title, dueDate });
+    });
+
+    it('leaves short day names that are ordinary words in the title', () => {
+      expect(parse('Wed the sun and sat down')).toMatchObject({ title: 'Wed the sun and sat down', dueDate: null });
+    });
+  });
+
+  describe('times', () => {
+    it.each<[string, string, number]>([
+      ['Report tomorrow 9:30am', 'Report', at(6, 11, 9, 30)],
+      ['Report tomorrow 9:30 pm', 'Report', at(6, 11, 21, 30)],
+      ['Report today 5pm', 'Report', at(6, 10, 17)],
+      ['Report tomorrow 12am', 'Report', at(6, 11, 0)],
+      ['Report tomorrow 12pm', 'Report', at(6, 11, 12)],
+      ['Standup at 17:00', 'Standup', at(6, 10, 17)],
+      ['Standup at 21', 'Standup', at(6, 10, 21)],
+      ['Lunch tomorrow at noon', 'Lunch', at(6, 11, 12)],
+      ['Release at midnight', 'Release', at(6, 11, 0)],
+      // A time on its own is its next occurrence
+      ['Standup 9:15', 'Standup', at(6, 11, 9, 15)],
+      ['Call back 3pm', 'Call back', at(6, 10, 15)],
+      // A bare hour up to 7 is the afternoon or evening, from 8 the morning
+      ['Meet at 5', 'Meet', at(6, 10, 17)],
+      ['Meet tomorrow at 7', 'Meet', at(6, 11, 19)],
+      ['Meet at 9', 'Meet', at(6, 11, 9)],
+    ])('reads "%s"', (input, title, dueDate) => {
+      expect(parse(input)).toMatchObject({ title, dueDate });
+    });
+
+    it('leaves impossible times in the title', () => {
+      expect(parse('Call 13pm')).toMatchObject({ title: 'Call 13pm', dueDate: null });
+    });
+  });
+
+  describe('tags', () => {
+    it.each<[string, string, string[]]>([
+      ['Buy milk #shop', 'Buy milk', ['shop']],
+      ['#home Fix the sink #Plumbing', 'Fix the sink', ['home', 'plumbing']],
+      ['Buy milk #shop #shop', 'Buy milk', ['shop']],
+      ['Write #q3-report draft', 'Write draft', ['q3-report']],
+      // Numbers are issue or ticket references, not tags
+      ['Fix issue #12', 'Fix issue #12', []],
+      ['Email about C# course', 'Email about C# course', []],
+    ])('reads "%s"', (input, title, tags) => {
+      expect(parse(input)).toMatchObject({ title, tags });
+    });
+  });
+
+  describe('priority', () => {
+    it.each([
+      ['Deploy !urgent', 'urgent'],
+      ['Deploy !high', 'high'],
+      ['Deploy !med', 'medium'],
+      ['Deploy !LOW', 'low'],
+      ['Deploy !1', 'urgent'],
+      ['Deploy !4', 'low'],
+    ])('reads "%s"', (input, priority) => {
+      expect(parse(input)).toMatchObject({ title: 'Deploy', priority });
+    });
+
+    it('leaves unknown priorities and exclamations in the title', () => {
+      expect(parse('Deploy !5')).toMatchObject({ title: 'Deploy !5', priority: 'none' });
+      expect(parse('Ship it!')).toMatchObject({ title: 'Ship it!', priority: 'none' });
+    });
+  });
+
+  describe('repeats', () => {
+    it.each([
+      ['Water plants daily', { ...createRule('daily') }, null],
+      ['Water plants every day', { ...createRule('daily') }, null],
+      ['Pay bills monthly', { ...createRule('monthly') }, null],
+      ['Gym every other week', { ...createRule('weekly'), interval: 2 }, null],
+      ['Pills every 3 days 5 times', { ...createRule('daily'), interval: 3, count: 5 }, null],
+      ['Standup every weekday at 9am', { ...createRule('weekly'), weekdays: [1, 2, 3, 4, 5] }, at(6, 11)],
+      ['Hike every weekend', { ...createRule('weekly'), weekdays: [0, 6] }, at(6, 13)],
+      ['Bins every mon and thu', { ...createRule('weekly'), weekdays: [1, 4] }, at(6, 11)],
+      ['Rent every first monday', { ...createRule('monthly'), monthlyWeekday: { ordinal: 1, weekday: 1 } }, at(7, 6)],
+      ['Review every last fri', { ...createRule('monthly'), monthlyWeekday: { ordinal: -1, weekday: 5 } }, at(6, 26)],
+    ])('reads "%s"', (input, recurrence, dueDate) => {
+      expect(parse(input)).toMatchObject({ recurrence, dueDate });
+    });
+
+    it("isn't read as a due date", () => {
+      expect(parse('Call dad every monday')).toMatchObject({
+        title: 'Call dad',
+        recurrence: { ...createRule('weekly'), weekdays: [1] },
+        dueDate: at(6, 15),
+      });
+    });
+
+    it('keeps a typed due date over the first occurrence', () => {
+      expect(parse('Water plants daily starting tomorrow')).toMatchObject({
+        title: 'Water plants starting',
+        dueDate: at(6, 11),
+      });
+    });
+  });
+
+  it('lists what it recognised in the order it was typed', () => {
+    const result = parse('Call bank tomorrow 9am #finance !high every monday');
+    expect(result.title).toBe('Call bank');
+    expect(result.parts).toEqual([
+      { kind: 'date', text: 'tomorrow' },
+      { kind: 'time', text: '9am' },
+      { kind: 'tag', text: '#finance' },
+      { kind: 'priority', text: '!high' },
+      { kind: 'recurrence', text: 'every monday' },
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import Task from '@/app/(tabs)/Task';
+import { createNextOccurrence, createRule, getNextOccurrence } from '@/lib/recurrence';
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 9).getTime();
+
+// Complete each occurrence on its due date, returning the due dates that follow
+function series(dueDate: number, rule = createRule('monthly'), occurrences = 4): string[] {
+  const dates: string[] = [];
+  let task: Task | null = Object.assign(new Task('1', 'Pay rent'), { dueDate, recurrence: rule });
+  for (let i = 0; i < occurrences && task; i++) {
+    task = createNextOccurrence(task, task.dueDate!);
+    if (task) dates.push(new Date(task.dueDate!).toDateString());
+  }
+  return dates;
+}
+
+describe('monthly repeats', () => {
+  it('keep to the 31st after shorter months', () => {
+    expect(series(day(2026, 1, 31))).toEqual([
+      new Date(day(2026, 2, 28)).toDateString(),
+      new Date(day(2026, 3, 31)).toDateString(),
+      new Date(day(2026, 4, 30)).toDateString(),
+      new Date(day(2026, 5, 31)).toDateString(),
+    ]);
+  });
+
+  it('keep to the 30th across February in a leap year', () => {
+    expect(series(day(2028, 1, 30), createRule('monthly'), 2)).toEqual([
+      new Date(day(2028, 2, 29)).toDateString(),
+      new Date(day(2028, 3, 30)).toDateString(),
+    ]);
+  });
+
+  it('follow a due date moved to another day', () => {
+    const rule = { ...createRule('monthly'), monthDay: 31 };
+    expect(getNextOccurrence(rule, day(2026, 4, 15), 0)).toBe(day(2026, 5, 15));
+  });
+
+  it('keep the anchor when skipping occurrences already in the past', () => {
+    expect(getNextOccurrence(createRule('monthly'), day(2026, 1, 31), day(2026, 3, 1))).toBe(day(2026, 3, 31));
+  });
+});
@@ -0,0 +1,212 @@
+import Task from '@/app/(tabs)/Task';
+import { formatDueDate } from '@/lib/dueDates';
+import { createTranslator } from '@/lib/i18n';
+import {
+  createMemoryNotifier,
+  describeReminder,
+  planReminders,
+  syncReminders,
+  type Notifier,
+  type Reminder,
+} from '@/lib/reminders';
+
+const en = createTranslator('en');
+const es = createTranslator('es');
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Wednesday 10 June 2026, 2pm local time
+const NOW = new Date(2026, 5, 10, 14, 0).getTime();
+const DUE = NOW + 3 * HOUR;
+
+function createTask(id: string, changes: Partial<Task> = {}): Task {
+  return Object.assign(new Task(id, `Task ${id}`, false, false, NOW), { dueDate: DUE }, changes);
+}
+
+const offset = (id: string, minutesBefore: number): Reminder => ({ id, type: 'offset', minutesBefore });
+const absolute = (id: string, at: number): Reminder => ({ id, type: 'absolute', at });
+
+// The memory notifier, counting the calls the engine makes
+function createFakeNotifier() {
+  const notifier = createMemoryNotifier();
+  const calls = { schedule: 0, cancel: 0 };
+  const counted: Notifier = {
+    schedule: reminder => {
+      calls.schedule++;
+      return notifier.schedule(reminder);
+    },
+    cancel: key => {
+      calls.cancel++;
+      return notifier.cancel(key);
+    },
+    getScheduledKeys: () => notifier.getScheduledKeys(),
+  };
+  return { notifier: counted, scheduled: notifier.scheduled, calls };
+}
+
+const fireTimes = (scheduled: Map<string, { taskId: string; fireAt: number }>) =>
+  [...scheduled.values()].map(({ taskId, fireAt }) => [taskId, fireAt]);
+
+describe('describeReminder', () => {
+  it.each<[Reminder, string, string]>([
+    [offset('a', 0), 'At due time', 'A la hora de vencimiento'],
+    [offset('a', 1), '1 minute before', '1 minuto antes'],
+    [offset('a', 15), '15 minutes before', '15 minutos antes'],
+    [offset('a', 60), '1 hour before', '1 hora antes'],
+    [offset('a', 120), '2 hours before', '2 horas antes'],
+    [offset('a', 24 * 60), '1 day before', '1 día antes'],
+    [offset('a', 3 * 24 * 60), '3 days before', '3 días antes'],
+  ])('describes %j', (reminder, english, spanish) => {
+    expect(describeReminder(reminder, NOW, en)).toBe(english);
+    expect(describeReminder(reminder, NOW, es)).toBe(spanish);
+  });
+
+  it('describes a fixed time as a date', () => {
+    expect(describeReminder(absolute('a', DUE), NOW, en)).toBe(formatDueDate(DUE, NOW, en));
+  });
+});
+
+describe('planReminders', () => {
+  it('plans reminders relative to the due date and at fixed times, soonest first', () => {
+    const tasks = [
+      createTask('1', { reminders: [offset('a', 0), offset('b', 60)] }),
+      createTask('2', { reminders: [absolute('c', NOW + 30 * MINUTE)] }),
+    ];
+    expect(planReminders(tasks, NOW, en).map(({ taskId, fireAt }) => [taskId, fireAt])).toEqual([
+      ['2', NOW + 30 * MINUTE],
+      ['1', DUE - HOUR],
+      ['1', DUE],
+    ]);
+  });
+
+  it('words notifications in the given language', () => {
+    const tasks = [
+      createTask('1', { reminders: [offset('a', 60)] }),
+      createTask('2', { dueDate: null, reminders: [absolute('b', NOW + HOUR)] }),
+    ];
+    expect(planReminders(tasks, NOW, en).map(({ title, body }) => [title, body])).toEqual([
+      ['Task 2', 'Reminder'],
+      ['Task 1', `Due ${formatDueDate(DUE, DUE - HOUR, en)}`],
+    ]);
+    expect(planReminders(tasks, NOW, es).map(({ body }) => body)).toEqual([
+      'Recordatorio',
+      `Vence ${formatDueDate(DUE, DUE - HOUR, es)}`,
+    ]);
+  });
+
+  it('skips reminders that have already fired', () => {
+    const tasks = [
+      createTask('1', { reminders: [offset('a', 4 * 60), absolute('b', NOW - MINUTE), absolute('c', NOW)] }),
+      createTask('2', { dueDate: NOW - HOUR, reminders: [offset('d', 0)] }),
+    ];
+    expect(planReminders(tasks, NOW, en)).toEqual([]);
+  });
+
+  it('skips completed tasks, and offsets on tasks without a due date', () => {
+    const tasks = [
+      createTask('1', { completed: true, reminders: [offset('a', 0)] }),
+      createTask('2', { dueDate: null, reminders: [offset('b', 0)] }),
+    ];
+    expect(planReminders(tasks, NOW, en)).toEqual([]);
+  });
+});
+
+describe('syncReminders', () => {
+  it('schedules new reminders once', async () => {
+    const { notifier, scheduled, calls } = createFakeNotifier();
+    const tasks = [createTask('1', { reminders: [offset('a', 0), offset('b', 15)] })];
+
+    await syncReminders(notifier, tasks, NOW, en);
+    await syncReminders(notifier, tasks, NOW, en);
+
+    expect(fireTimes(scheduled)).toEqual([
+      ['1', DUE - 15 * MINUTE],
+      ['1', DUE],
+    ]);
+    expect(calls).toEqual({ schedule: 2, cancel: 0 });
+  });
+
+  it('adds a reminder added to a task', async () => {
+    const { notifier, scheduled, calls } = createFakeNotifier();
+    await syncReminders(notifier, [createTask('1', { reminders: [offset('a', 0)] })], NOW, en);
+    await syncReminders(notifier, [createTask('1', { reminders: [offset('a', 0), offset('b', 60)] })], NOW, en);
+
+    expect(fireTimes(scheduled)).toEqual([
+      ['1', DUE],
+      ['1', DUE - HOUR],
+    ]);
+    expect(calls).toEqual({ schedule: 2, cancel: 0 });
+  });
+
+  it('reschedules reminders when the due date moves', async () => {
+    const { notifier, scheduled, calls } = createFakeNotifier();
+    const reminders = [offset('a', 15), absolute('b', NOW + HOUR)];
+    await syncReminders(notifier, [createTask('1', { reminders })], NOW, en);
+    await syncReminders(notifier, [createTask('1', { reminders, dueDate: DUE + 24 * HOUR })], NOW, en);
+
+    expect(fireTimes(scheduled)).toEqual([
+      ['1', NOW + HOUR],
+      ['1', DUE + 24 * HOUR - 15 * MINUTE],
+    ]);
+    // The fixed-time reminder keeps its time, but is reworded to mention the new due date
+    expect(calls).toEqual({ schedule: 4, cancel: 2 });
+    const fixed = [...scheduled.values()].find(reminder => reminder.fireAt === NOW + HOUR);
+    expect(fixed?.body).toBe(`Due ${formatDueDate(DUE + 24 * HOUR, NOW + HOUR, en)}`);
+  });
+
+  it('cancels reminders when a task is completed', async () => {
+    const { notifier, scheduled } = createFakeNotifier();
+    const task = createTask('1', { reminders: [offset('a', 0), absolute('b', NOW + HOUR)] });
+    await syncReminders(notifier, [task, createTask('2', { reminders: [offset('c', 0)] })], NOW, en);
+    await syncReminders(
+      notifier,
+      [{ ...task, completed: true }, createTask('2', { reminders: [offset('c', 0)] })],
+      NOW,
+      en
+    );
+
+    expect(fireTimes(scheduled)).toEqual([['2', DUE]]);
+  });
+
+  it('cancels reminders when a task or reminder is deleted', async () => {
+    const { notifier, scheduled } = createFakeNotifier();
+    const tasks = [
+      createTask('1', { reminders: [offset('a', 0)] }),
+      createTask('2', { reminders: [offset('b', 0), offset('c', 60)] }),
+    ];
+    await syncReminders(notifier, tasks, NOW, en);
+    await syncReminders(notifier, [createTask('2', { reminders: [offset('c', 60)] })], NOW, en);
+
+    expect(fireTimes(scheduled)).toEqual([['2', DUE - HOUR]]);
+  });
+
+  it('drops reminders whose time has passed', async () => {
+    const { notifier, scheduled } = createFakeNotifier();
+    const tasks = [createTask('1', { reminders: [offset('a', 0), offset('b', 2 * 60)] })];
+    await syncReminders(notifier, tasks, NOW, en);
+    await syncReminders(notifier, tasks, DUE - HOUR, en);
+
+    expect(fireTimes(scheduled)).toEqual([['1', DUE]]);
+  });
+
+  it('rewords scheduled reminders when the task is renamed', async () => {
+    const { notifier, scheduled, calls } = createFakeNotifier();
+    const reminders = [offset('a', 0), absolute('b', NOW + HOUR)];
+    await syncReminders(notifier, [createTask('1', { reminders })], NOW, en);
+    await syncReminders(notifier, [createTask('1', { reminders, title: 'Call the bank' })], NOW, en);
+
+    expect([...scheduled.values()].map(reminder => reminder.title)).toEqual(['Call the bank', 'Call the bank']);
+    expect(calls).toEqual({ schedule: 4, cancel: 2 });
+  });
+
+  it('rewords scheduled reminders when the language changes', async () => {
+    const { notifier, scheduled, calls } = createFakeNotifier();
+    const tasks = [createTask('1', { dueDate: null, reminders: [absolute('a', NOW + HOUR)] })];
+    await syncReminders(notifier, tasks, NOW, en);
+    await syncReminders(notifier, tasks, NOW, es);
+
+    expect([...scheduled.values()].map(reminder => reminder.body)).toEqual(['Recordatorio']);
+    expect(calls).toEqual({ schedule: 2, cancel: 1 });
+  });
+});
@@ -0,0 +1,74 @@
+import Task from '@/app/(tabs)/Task';
+import { searchTasks } from '@/lib/search';
+
+const task = (title: string, { tags = [] as string[], notes = '' } = {}) =>
+  Object.assign(new Task(title, title, false, false, 0), { tags, notes });
+
+const titles = (tasks: Task[], query: string) => searchTasks(tasks, query).map(result => result.task.title);
+
+describe('searchTasks', () => {
+  it('returns every task, unscored, for an empty query', () => {
+    const tasks = [task('Buy milk'), task('Walk dog')];
+    expect(searchTasks(tasks, '   ')).toEqual(tasks.map(t => ({ task: t, score: 0, titleMatches: [] })));
+  });
+
+  describe('ranking', () => {
+    it('ranks a word start in the title over a match inside a word', () => {
+      expect(titles([task('Unpack boxes'), task('Pack lunch')], 'pack')).toEqual(['Pack lunch', 'Unpack boxes']);
+    });
+
+    it('ranks a contiguous match over scattered letters', () => {
+      expect(titles([task('Print page'), task('Pin it')], 'pin')).toEqual(['Pin it', 'Print page']);
+    });
+
+    it('ranks title matches over tags, and tags over notes', () => {
+      const tasks = [
+        task('Call Sam', { notes: 'About the garden' }),
+        task('Buy seeds', { tags: ['garden'] }),
+        task('Weed the garden'),
+      ];
+      expect(titles(tasks, 'garden')).toEqual(['Weed the garden', 'Buy seeds', 'Call Sam']);
+    });
+
+    it('keeps the original order for equal scores', () => {
+      expect(titles([task('Milk B'), task('Milk A')], 'milk')).toEqual(['Milk B', 'Milk A']);
+    });
+
+    it('requires every word of the query to match somewhere', () => {
+      const tasks = [task('Buy milk', { tags: ['errands'] }), task('Buy bread')];
+      expect(titles(tasks, 'buy errands')).toEqual(['Buy milk']);
+    });
+
+    it('matches tags with or without their #', () => {
+      expect(titles([task('Buy milk', { tags: ['errands'] })], '#errands')).toEqual(['Buy milk']);
+    });
+
+    it('only highlights matches in the title', () => {
+      const [result] = searchTasks([task('Call Sam', { notes: 'garden' })], 'sam garden');
+      expect(result.titleMatches).toEqual([5, 6, 7]);
+    });
+  });
+
+  describe('typos', () => {
+    it.each([
+      ['a substituted letter', 'milj'],
+      ['a missing letter', 'mlk'],
+      ['an extra letter', 'milck'],
+    ])('finds a title one edit away: %s', (_, query) => {
+      expect(titles([task('Buy milk'), task('Pay rent')], query)).toEqual(['Buy milk']);
+    });
+
+    it('ranks an exact match over one with a typo', () => {
+      expect(titles([task('Buy mild salsa'), task('Buy milk')], 'milk')).toEqual(['Buy milk', 'Buy mild salsa']);
+    });
+
+    it('allows one typo in short words and two in longer ones', () => {
+      expect(titles([task('Buy milk')], 'mxyk')).toEqual([]);
+      expect(titles([task('Buy groceries')], 'grocxyies')).toEqual(['Buy groceries']);
+    });
+
+    it('needs short words to match without typos', () => {
+      expect(titles([task('Buy milk')], 'mx')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import Task from '@/app/(tabs)/Task';
+import type { Priority } from '@/lib/priority';
+import { sortTasks } from '@/lib/sorting';
+
+const task = (id: string, order: number, dueDate: number | null, priority: Priority = 'none') =>
+  Object.assign(new Task(id, id, false, false, 0), { order, dueDate, priority });
+
+const ids = (tasks: Task[]) => tasks.map(t => t.id);
+
+describe('sortTasks', () => {
+  it('puts tasks without a due date last, keeping their manual order', () => {
+    const tasks = [task('a', 0, null), task('b', 1, 200), task('c', 2, null), task('d', 3, 100)];
+    expect(ids(sortTasks(tasks, 'dueDate'))).toEqual(['d', 'b', 'a', 'c']);
+  });
+
+  it('breaks due date ties by priority even when neither task has a date', () => {
+    const tasks = [task('a', 0, null, 'low'), task('b', 1, null, 'high'), task('c', 2, 100, 'none')];
+    expect(ids(sortTasks(tasks, 'dueDate'))).toEqual(['c', 'b', 'a']);
+  });
+
+  it('breaks priority ties by due date, undated last', () => {
+    const tasks = [
+      task('a', 0, null, 'high'),
+      task('b', 1, 300, 'high'),
+      task('c', 2, null, 'high'),
+      task('d', 3, 100),
+    ];
+    expect(ids(sortTasks(tasks, 'priority'))).toEqual(['b', 'a', 'c', 'd']);
+  });
+});
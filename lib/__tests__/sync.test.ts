@@ -0,0 +1,268 @@
+import Task from '@/app/(tabs)/Task';
+import { archiveTasks, restoreTasks, type ArchivedTask } from '@/lib/archive';
+import { createDefaultList } from '@/lib/lists';
+import {
+  acknowledge,
+  applyArchivedRecords,
+  applyRecords,
+  createSyncState,
+  receive,
+  recordLocalChanges,
+  type SyncOp,
+  type SyncState,
+  type SyncTransport,
+} from '@/lib/sync';
+import { toData } from '@/lib/taskRepository';
+
+// The mock sync server's behaviour, in memory: an ordered log that ignores ops it has seen
+function createServer() {
+  const log: SyncOp[] = [];
+  const seen = new Set<string>();
+  const transport: SyncTransport = {
+    async push(ops) {
+      for (const op of ops) {
+        if (seen.has(op.id)) continue;
+        seen.add(op.id);
+        log.push({ ...op, revision: log.length + 1 });
+      }
+    },
+    async pull(since) {
+      return { ops: log.slice(since), revision: log.length };
+    },
+  };
+  return { log, transport };
+}
+
+type Device = { state: SyncState; tasks: Task[]; archived: ArchivedTask[] };
+
+function createDevice(id: string): Device {
+  return { state: createSyncState(id, 'http://sync.test'), tasks: [], archived: [] };
+}
+
+// A change made on the device, queued the way useTaskSync does after it lands
+function edit(device: Device, now: number, update: (tasks: Task[]) => Task[]) {
+  device.tasks = update(device.tasks);
+  device.state = recordLocalChanges(device.state, device.tasks, device.archived, now);
+}
+
+// Moving tasks in or out of the archive, as useTaskArchive does
+function moveArchived(
+  device: Device,
+  now: number,
+  move: (tasks: Task[], archived: ArchivedTask[]) => { tasks: Task[]; archive: ArchivedTask[] }
+) {
+  const result = move(device.tasks, device.archived);
+  device.tasks = result.tasks;
+  device.archived = result.archive;
+  device.state = recordLocalChanges(device.state, device.tasks, device.archived, now);
+}
+
+// Apply pulled records the way useTaskSync does
+function apply(device: Device, taskIds: string[]) {
+  device.tasks = applyRecords(device.tasks, device.state.records, taskIds);
+  device.archived = applyArchivedRecords(device.archived, device.state.records, taskIds);
+}
+
+function change(id: string, changes: Partial<Task>) {
+  return (tasks: Task[]) =>
+    tasks.map(task => (task.id === id ? Object.assign(new Task(task.id, ''), task, changes) : task));
+}
+
+// One round of useTaskSync's syncNow: push the queue, then pull and apply everything new
+async function sync(device: Device, transport: SyncTransport, now: number) {
+  const pushed = device.state.queue;
+  if (pushed.length > 0) {
+    await transport.push(pushed);
+    device.state = acknowledge(device.state, pushed);
+  }
+  const { ops, revision } = await transport.pull(device.state.cursor);
+  const received = receive(device.state, ops, revision, now);
+  device.state = received.state;
+  apply(device, received.taskIds);
+}
+
+const snapshot = (device: Device) =>
+  device.tasks.map(toData).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+// Two devices that have both synced a single task
+async function setUp() {
+  const { log, transport } = createServer();
+  const phone = createDevice('phone');
+  const tablet = createDevice('tablet');
+  edit(phone, 1000, () => [Object.assign(new Task('milk', 'Buy milk', false, false, 1000), { tags: ['shop'] })]);
+  await sync(phone, transport, 1100);
+  await sync(tablet, transport, 1200);
+  return { log, transport, phone, tablet };
+}
+
+describe('two devices syncing', () => {
+  it('shares a task created on one device with the other', async () => {
+    const { phone, tablet } = await setUp();
+    expect(snapshot(tablet)).toEqual(snapshot(phone));
+    expect(tablet.tasks[0].title).toBe('Buy milk');
+  });
+
+  it("doesn't echo changes it pulled back to the server", async () => {
+    const { tablet } = await setUp();
+    expect(recordLocalChanges(tablet.state, tablet.tasks, tablet.archived, 1300)).toBe(tablet.state);
+  });
+
+  it('keeps both edits when devices change different fields offline', async () => {
+    const { transport, phone, tablet } = await setUp();
+    edit(phone, 2000, change('milk', { title: 'Buy oat milk' }));
+    edit(tablet, 2100, change('milk', { completed: true, completedAt: 2100 }));
+
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+    await sync(phone, transport, 3200);
+
+    expect(snapshot(phone)).toEqual(snapshot(tablet));
+    expect(phone.tasks[0]).toMatchObject({ title: 'Buy oat milk', completed: true, completedAt: 2100, tags: ['shop'] });
+  });
+
+  it('keeps the later write when devices change the same field offline', async () => {
+    const { transport, phone, tablet } = await setUp();
+    edit(tablet, 2000, change('milk', { title: 'Buy milk and eggs' }));
+    edit(phone, 2500, change('milk', { title: 'Buy oat milk' }));
+
+    // The earlier edit reaches the server last, which mustn't matter
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+    await sync(phone, transport, 3200);
+
+    expect(snapshot(phone)).toEqual(snapshot(tablet));
+    expect(phone.tasks[0].title).toBe('Buy oat milk');
+  });
+
+  it('breaks ties between writes made at the same time by device id', async () => {
+    const { transport, phone, tablet } = await setUp();
+    edit(phone, 2000, change('milk', { priority: 'high' }));
+    edit(tablet, 2000, change('milk', { priority: 'low' }));
+
+    await sync(tablet, transport, 3000);
+    await sync(phone, transport, 3100);
+    await sync(tablet, transport, 3200);
+
+    expect(snapshot(phone)).toEqual(snapshot(tablet));
+    expect(phone.tasks[0].priority).toBe('low');
+  });
+
+  it('keeps a task edited after another device deleted it', async () => {
+    const { transport, phone, tablet } = await setUp();
+    edit(phone, 2000, () => []);
+    edit(tablet, 2500, change('milk', { title: 'Buy oat milk' }));
+
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+    await sync(phone, transport, 3200);
+
+    expect(snapshot(phone)).toEqual(snapshot(tablet));
+    expect(phone.tasks).toHaveLength(1);
+    expect(phone.tasks[0]).toMatchObject({ title: 'Buy oat milk', tags: ['shop'] });
+  });
+
+  it('deletes a task deleted after another device edited it', async () => {
+    const { transport, phone, tablet } = await setUp();
+    edit(tablet, 2000, change('milk', { title: 'Buy oat milk' }));
+    edit(phone, 2500, () => []);
+
+    await sync(tablet, transport, 3000);
+    await sync(phone, transport, 3100);
+    await sync(tablet, transport, 3200);
+
+    expect(phone.tasks).toEqual([]);
+    expect(tablet.tasks).toEqual([]);
+  });
+
+  it('logs a retried push only once', async () => {
+    const { log, transport, phone, tablet } = await setUp();
+    edit(phone, 2000, change('milk', { title: 'Buy oat milk' }));
+    const queued = phone.state.queue;
+    // The server got the push, but the response was lost, so the device sends it again
+    await transport.push(queued);
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+
+    expect(log.filter(op => queued.some(sent => sent.id === op.id))).toHaveLength(queued.length);
+    expect(snapshot(phone)).toEqual(snapshot(tablet));
+  });
+
+  it('ignores batches it has already applied', async () => {
+    const { log, transport, phone, tablet } = await setUp();
+    edit(phone, 2000, change('milk', { title: 'Buy oat milk' }));
+    edit(phone, 2100, tasks => [...tasks, new Task('bread', 'Buy bread', false, false, 2100)]);
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+    const before = snapshot(tablet);
+
+    // Replay the whole log, as after a pull whose cursor was never saved
+    const replayed = receive(tablet.state, log, log.length, 3200);
+    tablet.state = replayed.state;
+    apply(tablet, replayed.taskIds);
+
+    expect(snapshot(tablet)).toEqual(before);
+    expect(snapshot(tablet)).toEqual(snapshot(phone));
+    expect(recordLocalChanges(tablet.state, tablet.tasks, tablet.archived, 3300)).toBe(tablet.state);
+  });
+
+  it('converges whatever order the ops arrive in', async () => {
+    const { log, transport, phone, tablet } = await setUp();
+    edit(phone, 2000, change('milk', { title: 'Buy oat milk' }));
+    edit(tablet, 2100, change('milk', { title: 'Buy milk and eggs', priority: 'high' }));
+    edit(phone, 2200, () => []);
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+
+    const fresh = createDevice('laptop');
+    const received = receive(fresh.state, [...log].reverse(), log.length, 3200);
+    fresh.tasks = applyRecords([], received.state.records, received.taskIds);
+
+    expect(snapshot(fresh)).toEqual(snapshot(tablet));
+  });
+
+  it('archives a task archived on another device instead of deleting it', async () => {
+    const { log, transport, phone, tablet } = await setUp();
+    edit(phone, 2000, change('milk', { completed: true, completedAt: 2000 }));
+    moveArchived(phone, 2100, (tasks, archived) => archiveTasks(tasks, archived, ['milk'], 2100));
+
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+
+    expect(log.some(op => op.fields === null)).toBe(false);
+    expect(tablet.tasks).toEqual([]);
+    expect(tablet.archived).toEqual(phone.archived);
+    expect(tablet.archived[0]).toMatchObject({ id: 'milk', title: 'Buy milk', archivedAt: 2100 });
+    expect(recordLocalChanges(tablet.state, tablet.tasks, tablet.archived, 3200)).toBe(tablet.state);
+  });
+
+  it('restores a task restored on another device', async () => {
+    const { transport, phone, tablet } = await setUp();
+    edit(phone, 2000, change('milk', { completed: true, completedAt: 2000 }));
+    moveArchived(phone, 2100, (tasks, archived) => archiveTasks(tasks, archived, ['milk'], 2100));
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+
+    moveArchived(tablet, 4000, (tasks, archived) => restoreTasks(tasks, archived, ['milk'], [createDefaultList()]));
+    await sync(tablet, transport, 5000);
+    await sync(phone, transport, 5100);
+
+    expect(phone.archived).toEqual([]);
+    expect(snapshot(phone)).toEqual(snapshot(tablet));
+    expect(phone.tasks[0]).not.toHaveProperty('archivedAt');
+  });
+
+  it('deletes an archived task deleted for good on another device', async () => {
+    const { transport, phone, tablet } = await setUp();
+    edit(phone, 2000, change('milk', { completed: true, completedAt: 2000 }));
+    moveArchived(phone, 2100, (tasks, archived) => archiveTasks(tasks, archived, ['milk'], 2100));
+    await sync(phone, transport, 3000);
+    await sync(tablet, transport, 3100);
+
+    moveArchived(phone, 4000, tasks => ({ tasks, archive: [] }));
+    await sync(phone, transport, 5000);
+    await sync(tablet, transport, 5100);
+
+    expect(tablet.tasks).toEqual([]);
+    expect(tablet.archived).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+import Task, { type TaskData } from '@/app/(tabs)/Task';
+import { type MessageKey } from '@/constants/Messages';
+import { createDefaultList, type TaskList } from '@/lib/lists';
+import { createRule } from '@/lib/recurrence';
+import { detectFormat, exportTasks, parseTasks, type ImportText, type TransferFormat } from '@/lib/taskFormats';
+import { toData } from '@/lib/taskRepository';
+
+// Wednesday 10 June 2026, 2pm local time
+const NOW = new Date(2026, 5, 10, 14, 0).getTime();
+
+// A local time on a day in 2026; months are 1-based here for readability
+const at = (month: number, day: number, hour = 0) => new Date(2026, month - 1, day, hour).getTime();
+
+const LISTS: TaskList[] = [createDefaultList(), { id: 'work', name: 'Work stuff', color: '#28a745', sort: 'manual' }];
+
+const task = (id: string, title: string, fields: Partial<TaskData> = {}) =>
+  Object.assign(new Task(id, title, false, false, at(6, 1)), { updatedAt: at(6, 1) }, fields);
+
+const TASKS = [
+  task('1', 'Buy milk', { tags: ['errands'], priority: 'high', dueDate: at(6, 12, 9) }),
+  task('2', 'Send report', {
+    listId: 'work',
+    completed: true,
+    completedAt: at(6, 9),
+    recurrence: { ...createRule('weekly'), interval: 2 },
+  }),
+  task('3', 'Plan trip', {
+    priority: 'low',
+    notes: 'Check **flights**',
+    subtasks: [{ id: 's1', title: 'Pick dates', completed: true }],
+  }),
+];
+
+const roundTrip = (format: TransferFormat, tasks: Task[] = TASKS) =>
+  parseTasks(format, exportTasks(format, tasks, LISTS, NOW), NOW);
+
+const issue = (where: ImportText, key: MessageKey, values?: Record<string, unknown>) => ({
+  where,
+  message: values ? { key, values } : { key },
+});
+
+const line = (n: number): ImportText => ({ key: 'transfer.where.line', values: { line: n } });
+const FILE: ImportText = { key: 'transfer.where.file' };
+
+describe('JSON', () => {
+  it('round-trips every field and the list names', () => {
+    const { entries, errors } = roundTrip('json');
+    expect(errors).toEqual([]);
+    expect(entries.map(entry => entry.task)).toEqual(TASKS.map(toData));
+    expect(entries.map(entry => entry.listName)).toEqual(['My Tasks', 'Work stuff', 'My Tasks']);
+  });
+
+  it('reads a bare array from before versioning, filling in later fields', () => {
+    const json = JSON.stringify([{ id: '42', title: 'Old task', completed: true }]);
+    const { entries, errors } = parseTasks('json', json, NOW);
+    expect(errors).toEqual([]);
+    expect(entries[0].task).toMatchObject({ id: '42', title: 'Old task', completed: true, dueDate: null, tags: [] });
+  });
+
+  it('reports text that is not JSON', () => {
+    expect(parseTasks('json', '{ nope', NOW).errors).toEqual([
+      issue(FILE, 'transfer.issue.invalidJson', { detail: expect.any(String) }),
+    ]);
+  });
+
+  it('reports JSON that is not an export', () => {
+    expect(parseTasks('json', '{"hello": 1}', NOW).errors).toEqual([issue(FILE, 'transfer.issue.notAnExport')]);
+  });
+
+  it('refuses exports from a newer schema', () => {
+    const { entries, errors } = parseTasks('json', JSON.stringify({ version: 999, tasks: [] }), NOW);
+    expect(entries).toEqual([]);
+    expect(errors).toEqual([issue(FILE, 'transfer.issue.newerVersion', { version: 999 })]);
+  });
+
+  it('reports untitled and malformed tasks by position and keeps the rest', () => {
+    const json = JSON.parse(exportTasks('json', TASKS, LISTS, NOW));
+    json.tasks.splice(1, 0, { title: '  ' });
+    json.tasks[2].priority = 'whenever';
+    const { entries, errors } = parseTasks('json', JSON.stringify(json), NOW);
+    expect(entries.map(entry => entry.task.title)).toEqual(['Buy milk', 'Plan trip']);
+    expect(errors).toEqual([
+      issue({ key: 'transfer.where.task', values: { index: 2 } }, 'transfer.issue.noTitle'),
+      issue({ key: 'transfer.where.task', values: { index: 3 } }, 'transfer.issue.invalidField', {
+        field: 'priority',
+        value: '"whenever"',
+      }),
+    ]);
+  });
+});
+
+describe('CSV', () => {
+  it('round-trips what the columns carry', () => {
+    const { entries, errors } = roundTrip('csv');
+    expect(errors).toEqual([]);
+    expect(entries.map(({ task, listName }) => ({ listName, ...task }))).toEqual(
+      TASKS.map(t =>
+        expect.objectContaining({
+          id: t.id,
+          title: t.title,
+          completed: t.completed,
+          completedAt: t.completedAt,
+          dueDate: t.dueDate,
+          createdAt: t.createdAt,
+          priority: t.priority,
+          tags: t.tags,
+          recurrence: t.recurrence,
+          listName: LISTS.find(list => list.id === t.listId)!.name,
+        })
+      )
+    );
+  });
+
+  it('keeps commas, quotes and line breaks inside titles', () => {
+    const tricky = [task('1', 'Say "hi", then\nleave')];
+    expect(roundTrip('csv', tricky).entries[0].task.title).toBe('Say "hi", then\nleave');
+  });
+
+  it('needs a title column', () => {
+    expect(parseTasks('csv', 'name,due\nMilk,', NOW).errors).toEqual([issue(line(1), 'transfer.issue.noTitleColumn')]);
+  });
+
+  it('reports bad cells by line and skips those rows', () => {
+    const csv = ['title,due,priority,repeat', 'Good,,,', ',,,', 'Late,someday,,', 'Loud,,shouty,', 'Often,,,3x'];
+    const { entries, errors } = parseTasks('csv', csv.join('\n'), NOW);
+    expect(entries.map(entry => entry.task.title)).toEqual(['Good']);
+    expect(errors).toEqual([
+      issue(line(3), 'transfer.issue.noTitle'),
+      issue(line(4), 'transfer.issue.invalidColumnDate', { value: 'someday', column: 'due' }),
+      issue(line(5), 'transfer.issue.invalidPriority', { value: 'shouty' }),
+      issue(line(6), 'transfer.issue.invalidRepeat', { value: '3x' }),
+    ]);
+  });
+
+  it('reports a quoted field that never closes', () => {
+    const { entries, errors } = parseTasks('csv', 'title\nFine\n"Broken\nstill broken', NOW);
+    expect(entries.map(entry => entry.task.title)).toEqual(['Fine']);
+    expect(errors).toEqual([issue(line(3), 'transfer.issue.unclosedQuote')]);
+  });
+});
+
+describe('Markdown', () => {
+  it('round-trips checklists under list headings', () => {
+    const { entries, errors } = roundTrip('markdown');
+    expect(errors).toEqual([]);
+    expect(entries.map(({ task, listName }) => ({ listName, ...task }))).toEqual([
+      expect.objectContaining({
+        listName: 'My Tasks',
+        title: 'Buy milk',
+        tags: ['errands'],
+        priority: 'high',
+        dueDate: at(6, 12, 9),
+      }),
+      expect.objectContaining({
+        listName: 'My Tasks',
+        title: 'Plan trip',
+        priority: 'low',
+        subtasks: [expect.objectContaining({ title: 'Pick dates', completed: true })],
+      }),
+      expect.objectContaining({
+        listName: 'Work stuff',
+        title: 'Send report',
+        completed: true,
+        recurrence: { ...createRule('weekly'), interval: 2 },
+      }),
+    ]);
+  });
+
+  it('skips prose but reports what looks like a broken item', () => {
+    const markdown = ['Some notes', '- [ ] Fine', '- [?] Odd', '  - [ ] ', '- [ ] Due due:tomorrow', '- [ ] #only'];
+    const { entries, errors } = parseTasks('markdown', markdown.join('\n'), NOW);
+    expect(entries.map(entry => entry.task.title)).toEqual(['Fine']);
+    expect(errors).toEqual([
+      issue(line(3), 'transfer.issue.badCheckbox'),
+      issue(line(4), 'transfer.issue.noStepTitle'),
+      issue(line(5), 'transfer.issue.invalidDueDate', { value: 'tomorrow' }),
+      issue(line(6), 'transfer.issue.noTitle'),
+    ]);
+  });
+
+  it('reports a step with no task above it', () => {
+    expect(parseTasks('markdown', '  - [ ] Orphan', NOW).errors).toEqual([issue(line(1), 'transfer.issue.orphanStep')]);
+  });
+});
+
+describe('todo.txt', () => {
+  it('round-trips priorities, dates, projects and contexts', () => {
+    const { entries, errors } = roundTrip('todotxt');
+    expect(errors).toEqual([]);
+    expect(entries.map(({ task, listName }) => ({ listName, ...task }))).toEqual([
+      expect.objectContaining({
+        listName: 'My-Tasks',
+        title: 'Buy milk',
+        tags: ['errands'],
+        priority: 'high',
+        dueDate: at(6, 12, 9),
+        createdAt: at(6, 1),
+      }),
+      expect.objectContaining({
+        listName: 'Work-stuff',
+        title: 'Send report',
+        completed: true,
+        completedAt: at(6, 9),
+        recurrence: { ...createRule('weekly'), interval: 2 },
+      }),
+      expect.objectContaining({ listName: 'My-Tasks', title: 'Plan trip', priority: 'low' }),
+    ]);
+  });
+
+  it('reports bad dates and repeats by line', () => {
+    const text = ['(A) Fine', '2026-02-30 Bad day', 'Often rec:3x', '+Work'].join('\n');
+    const { entries, errors } = parseTasks('todotxt', text, NOW);
+    expect(entries.map(entry => entry.task.title)).toEqual(['Fine', 'Bad day']);
+    expect(errors).toEqual([
+      issue(line(2), 'transfer.issue.invalidDate', { value: '2026-02-30' }),
+      issue(line(3), 'transfer.issue.invalidRepeat', { value: '3x' }),
+      issue(line(4), 'transfer.issue.noTitle'),
+    ]);
+  });
+});
+
+describe('detectFormat', () => {
+  it.each<[TransferFormat, string]>([
+    ['json', '{"version": 1, "tasks": []}'],
+    ['json', '[]'],
+    ['ical', 'BEGIN:VCALENDAR\r\nEND:VCALENDAR'],
+    ['markdown', '- [ ] Buy milk'],
+    ['markdown', '## Groceries'],
+    ['csv', 'title,due\nMilk,'],
+    ['todotxt', '(A) Buy milk +Groceries'],
+  ])('detects %s', (format, text) => {
+    expect(detectFormat(text)).toBe(format);
+  });
+});
@@ -0,0 +1,118 @@
+import Task from '@/app/(tabs)/Task';
+import { createDefaultList, type TaskList } from '@/lib/lists';
+import { type ImportEntry } from '@/lib/taskFormats';
+import { applyImport, planImport, type DuplicateMode } from '@/lib/taskImport';
+import { toData } from '@/lib/taskRepository';
+
+const NOW = 1_000_000;
+
+const LISTS: TaskList[] = [createDefaultList(), { id: 'work', name: 'Work', color: '#28a745', sort: 'manual' }];
+
+const task = (id: string, title: string, fields: Partial<Task> = {}) =>
+  Object.assign(new Task(id, title, false, false, 0), fields);
+
+const entry = (id: string, title: string, listName: string | null = null, fields: Partial<Task> = {}): ImportEntry => ({
+  task: toData(task(id, title, fields)),
+  listName,
+});
+
+// Existing tasks: two in the default list, one in Work
+const TASKS = [
+  task('a', 'Buy milk', { order: 0, tags: ['errands'] }),
+  task('b', 'Walk dog', { order: 1 }),
+  task('c', 'Send report', { order: 2, listId: 'work' }),
+];
+
+describe('planImport', () => {
+  it('puts tasks in the list the file names, or the fallback list when it names none', () => {
+    const items = planImport([entry('1', 'New', 'work'), entry('2', 'Other')], TASKS, LISTS, 'default');
+    expect(items.map(item => item.listId)).toEqual(['work', 'default']);
+  });
+
+  it('leaves lists that do not exist yet to be created', () => {
+    const [item] = planImport([entry('1', 'New', 'Holiday')], TASKS, LISTS, 'default');
+    expect(item.listId).toBeNull();
+  });
+
+  it('matches list names ignoring case and dashes', () => {
+    const lists = [...LISTS, { id: 'shop', name: 'Weekly shop', color: '#000', sort: 'manual' as const }];
+    const [item] = planImport([entry('1', 'New', 'weekly-SHOP')], TASKS, lists, 'default');
+    expect(item.listId).toBe('shop');
+  });
+
+  it('finds duplicates by id anywhere, and by title only in the same list', () => {
+    const items = planImport(
+      [
+        entry('c', 'Renamed report'),
+        entry('9', ' buy MILK '),
+        entry('8', 'Send report'),
+        entry('7', 'Walk dog', 'work'),
+      ],
+      TASKS,
+      LISTS,
+      'default'
+    );
+    expect(items.map(item => item.duplicateOf?.id ?? null)).toEqual(['c', 'a', null, null]);
+  });
+
+  it('matches by id alone when titles are not compared', () => {
+    const items = planImport([entry('b', 'Walk the dog'), entry('9', 'Buy milk')], TASKS, LISTS, 'default', false);
+    expect(items.map(item => item.duplicateOf?.id ?? null)).toEqual(['b', null]);
+  });
+});
+
+describe('applyImport', () => {
+  const entries = [entry('9', 'Buy milk', null, { priority: 'high' }), entry('10', 'Book flights', 'Holiday')];
+  const apply = (mode: DuplicateMode, imported = entries) =>
+    applyImport(planImport(imported, TASKS, LISTS, 'default'), TASKS, LISTS, mode, NOW);
+
+  it('creates lists the file names once, however many tasks go in them', () => {
+    const { tasks, lists } = apply('skip', [...entries, entry('11', 'Pack', 'holiday')]);
+    expect(lists.map(list => list.name)).toEqual(['My Tasks', 'Work', 'Holiday']);
+    const holiday = lists[2].id;
+    expect(tasks.filter(t => t.listId === holiday).map(t => t.title)).toEqual(['Book flights', 'Pack']);
+  });
+
+  it('skips duplicates and adds the rest at the end of the manual order', () => {
+    const { tasks } = apply('skip');
+    expect(tasks.map(t => [t.id, t.title, t.order])).toEqual([
+      ['a', 'Buy milk', 0],
+      ['b', 'Walk dog', 1],
+      ['c', 'Send report', 2],
+      ['10', 'Book flights', 3],
+    ]);
+    expect(tasks[0].priority).toBe('none');
+  });
+
+  it('replaces duplicates in place, keeping their id and position', () => {
+    const { tasks } = apply('replace');
+    expect(tasks.map(t => [t.id, t.title, t.order])).toEqual([
+      ['a', 'Buy milk', 0],
+      ['b', 'Walk dog', 1],
+      ['c', 'Send report', 2],
+      ['10', 'Book flights', 3],
+    ]);
+    expect(tasks[0]).toMatchObject({ priority: 'high', tags: [] });
+  });
+
+  it('only replaces the fields the file carries, when it says which', () => {
+    const partial: ImportEntry = {
+      ...entry('9', 'Buy milk', null, { priority: 'high' }),
+      fields: ['title', 'priority'],
+    };
+    const { tasks } = apply('replace', [partial]);
+    expect(tasks[0]).toMatchObject({ id: 'a', priority: 'high', tags: ['errands'] });
+  });
+
+  it('keeps both copies, giving the import a new id if it would clash', () => {
+    const { tasks } = apply('keep', [entry('b', 'Walk dog'), ...entries]);
+    expect(tasks.map(t => [t.id, t.title, t.order])).toEqual([
+      ['a', 'Buy milk', 0],
+      ['b', 'Walk dog', 1],
+      ['c', 'Send report', 2],
+      [`${NOW}-import-0`, 'Walk dog', 3],
+      ['9', 'Buy milk', 4],
+      ['10', 'Book flights', 5],
+    ]);
+  });
+});
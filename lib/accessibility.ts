@@ -0,0 +1,45 @@
+import Task from '@/app/(tabs)/Task';
+import { formatDueDate, getDueStatus } from '@/lib/dueDates';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { describeRecurrence } from '@/lib/recurrence';
+import { getSubtaskProgress } from '@/lib/subtasks';
+
+/**
+ * What screen readers say for a task row, in the order it matters: the title, then when
+ * it's due, then everything else. Done or not is exposed as the row's checked state.
+ */
+export function describeTask(task: Task, now = Date.now(), i18n: Translator = defaultTranslator): string {
+  const { t } = i18n;
+  const parts = [task.title];
+  const dueStatus = getDueStatus(task.dueDate, task.completed, now);
+  if (task.dueDate !== null) {
+    const date = formatDueDate(task.dueDate, now, i18n);
+    parts.push(t(dueStatus === 'overdue' ? 'describe.overdue' : 'describe.due', { date }));
+  }
+  if (task.priority !== 'none') parts.push(t('describe.priority', { priority: task.priority }));
+  if (task.recurrence) parts.push(describeRecurrence(task.recurrence, i18n));
+  if (task.reminders.length > 0) parts.push(t('describe.reminders', { count: task.reminders.length }));
+  if (task.tags.length > 0) parts.push(t('describe.tags', { tags: task.tags.join(', ') }));
+  const progress = getSubtaskProgress(task);
+  if (progress.total > 0) parts.push(t('describe.steps', progress));
+  if (task.notes.trim() !== '') parts.push(t('describe.notes'));
+  return parts.join('. ');
+}
+
+// "Buy milk added", "3 tasks removed"; null when no task came or went
+export function describeListChanges(
+  before: Task[],
+  after: Task[],
+  i18n: Translator = defaultTranslator
+): string | null {
+  const beforeIds = new Set(before.map(task => task.id));
+  const afterIds = new Set(after.map(task => task.id));
+  const added = after.filter(task => !beforeIds.has(task.id));
+  const removed = before.filter(task => !afterIds.has(task.id));
+
+  const messages = [
+    ...(added.length > 0 ? [i18n.t('describe.added', { count: added.length, title: added[0].title })] : []),
+    ...(removed.length > 0 ? [i18n.t('describe.removed', { count: removed.length, title: removed[0].title })] : []),
+  ];
+  return messages.length > 0 ? messages.join(', ') : null;
+}
@@ -0,0 +1,136 @@
+import Task, { type TaskData } from '@/app/(tabs)/Task';
+import { startOfDay } from '@/lib/dueDates';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { type TaskList } from '@/lib/lists';
+import { nextOrder } from '@/lib/ordering';
+import { toData, toTask } from '@/lib/taskRepository';
+
+/**
+ * Completed tasks moved out of the active list, either by hand or once they've been done for
+ * a while. They're stored apart from `@tasks` (see taskRepository) and can be restored.
+ */
+
+export type ArchivedTask = TaskData & { archivedAt: number };
+
+export type Archive = {
+  tasks: ArchivedTask[];
+  // How many days a task stays done before it's archived automatically; null never archives
+  autoArchiveDays: number | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ArchiveRange = 'all' | 'week' | 'month' | 'year';
+
+export const ARCHIVE_RANGES: { value: ArchiveRange; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'week', label: 'Past week' },
+  { value: 'month', label: 'Past 30 days' },
+  { value: 'year', label: 'Past year' },
+];
+
+const RANGE_DAYS: Record<Exclude<ArchiveRange, 'all'>, number> = { week: 7, month: 30, year: 365 };
+
+export const AUTO_ARCHIVE_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Never' },
+  { value: 1, label: 'After a day' },
+  { value: 7, label: 'After a week' },
+  { value: 30, label: 'After 30 days' },
+];
+
+// Tasks completed before we recorded completion times count from their last change
+export const completionTime = (task: TaskData) => task.completedAt ?? task.updatedAt;
+
+export function dueForArchive(tasks: Task[], days: number, now = Date.now()): string[] {
+  const cutoff = now - days * DAY_MS;
+  return tasks.filter(task => task.completed && completionTime(task) <= cutoff).map(task => task.id);
+}
+
+// Move the completed tasks among `ids` into the archive; anything not done yet stays put
+export function archiveTasks(
+  tasks: Task[],
+  archive: ArchivedTask[],
+  ids: string[],
+  now = Date.now()
+): { tasks: Task[]; archive: ArchivedTask[] } {
+  const moving = tasks.filter(task => task.completed && ids.includes(task.id));
+  if (moving.length === 0) return { tasks, archive };
+  return {
+    tasks: tasks.filter(task => !moving.includes(task)),
+    archive: [...archive, ...moving.map(task => ({ ...toData(task), archivedAt: now }))],
+  };
+}
+
+// Put archived tasks back at the end of their list, or the first list if theirs has gone
+export function restoreTasks(
+  tasks: Task[],
+  archive: ArchivedTask[],
+  ids: string[],
+  lists: TaskList[]
+): { tasks: Task[]; archive: ArchivedTask[] } {
+  let order = nextOrder(tasks);
+  const restored = archive
+    .filter(task => ids.includes(task.id))
+    .map(({ archivedAt, ...data }) =>
+      toTask({
+        ...data,
+        listId: lists.some(list => list.id === data.listId) ? data.listId : lists[0].id,
+        order: order++,
+      })
+    );
+  return {
+    tasks: [...tasks, ...restored],
+    archive: archive.filter(task => !ids.includes(task.id)),
+  };
+}
+
+// YYYY-MM-DD of the local day a task was completed, which searches can match on
+function completionDay(task: ArchivedTask): string {
+  const date = new Date(completionTime(task));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Archived tasks completed within `range` that match `query`, newest first. The query matches
+ * titles, tags and notes, or the completion date written as 2026-03-14, 2026-03 or "Mar 14" in
+ * the language's own words.
+ */
+export function searchArchive(
+  archive: ArchivedTask[],
+  query: string,
+  range: ArchiveRange,
+  now = Date.now(),
+  i18n: Translator = defaultTranslator
+): ArchivedTask[] {
+  const since = range === 'all' ? -Infinity : startOfDay(now) - RANGE_DAYS[range] * DAY_MS;
+  const needle = query.trim().toLowerCase();
+  const matches = (task: ArchivedTask) => {
+    if (needle === '') return true;
+    const date = new Date(completionTime(task));
+    return [
+      task.title,
+      task.notes,
+      ...task.tags.map(tag => `#${tag}`),
+      completionDay(task),
+      date.toLocaleDateString(i18n.locale, { month: 'short', day: 'numeric' }),
+      date.toLocaleDateString(i18n.locale, { month: 'long', day: 'numeric', year: 'numeric' }),
+    ].some(text => text.toLowerCase().includes(needle));
+  };
+
+  return archive
+    .filter(task => completionTime(task) >= since && matches(task))
+    .sort((a, b) => completionTime(b) - completionTime(a));
+}
+
+// Consecutive tasks completed on the same day, for section headers
+export function groupByCompletionDay(tasks: ArchivedTask[]): { day: number; data: ArchivedTask[] }[] {
+  const groups: { day: number; data: ArchivedTask[] }[] = [];
+  for (const task of tasks) {
+    const day = startOfDay(completionTime(task));
+    const last = groups[groups.length - 1];
+    if (last?.day === day) last.data.push(task);
+    else groups.push({ day, data: [task] });
+  }
+  return groups;
+}
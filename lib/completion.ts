@@ -0,0 +1,35 @@
+import Task from '@/app/(tabs)/Task';
+import { orderAfter } from '@/lib/ordering';
+import { createNextOccurrence } from '@/lib/recurrence';
+import { setSubtasksCompleted } from '@/lib/subtasks';
+
+/**
+ * Mark tasks done or not done. Completing a task checks off all of its steps, and
+ * completing a recurring task spawns its next occurrence right after it.
+ */
+export function setCompleted(
+  tasks: Task[],
+  ids: string[],
+  completed: boolean,
+  now = Date.now()
+): Task[] {
+  let spawned = 0;
+  return tasks.flatMap(task => {
+    if (!ids.includes(task.id) || task.completed === completed) return [task];
+    if (!completed) return [{ ...task, completed: false, completedAt: null }];
+
+    const done = {
+      ...task,
+      completed: true,
+      completedAt: now,
+      subtasks: setSubtasksCompleted(task.subtasks, true),
+    };
+    const next = createNextOccurrence(task, now);
+    if (!next) return [done];
+    // Occurrences spawned together would otherwise share the timestamp id
+    next.id = String(now + spawned++);
+    next.order = orderAfter(tasks, task);
+    // The series moves on to the next occurrence, so un-completing this one won't fork it
+    return [{ ...done, recurrence: null }, next];
+  });
+}
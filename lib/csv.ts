@@ -0,0 +1,66 @@
+import { type MessageKey } from '@/constants/Messages';
+
+// Minimal RFC 4180 CSV: comma separated, fields quoted with " when they need it
+
+export type CsvRow = {
+  // 1-based line the row starts on, for error messages
+  line: number;
+  cells: string[];
+};
+
+function quote(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(quote).join(',')).join('\r\n') + '\r\n';
+}
+
+// Parse CSV text into rows. Quoted fields may span lines; an unclosed quote is an error.
+export function parseCsv(text: string): { rows: CsvRow[]; error: { line: number; message: MessageKey } | null } {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    // Skip blank lines rather than reading them as a row with one empty cell
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) return { rows, error: { line: rowLine, message: 'transfer.issue.unclosedQuote' } };
+  if (cell !== '' || cells.length > 0) endRow();
+  return { rows, error: null };
+}
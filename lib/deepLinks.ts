@@ -0,0 +1,47 @@
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { parseDate } from '@/lib/taskFormats';
+
+/**
+ * Links into the app through the `todoapp` scheme, each of which Expo Router maps to a route:
+ *
+ *   todoapp://task/<id>                        app/task/[id].tsx
+ *   todoapp://add?title=<title>&due=<date>     app/add.tsx, which asks before adding
+ *   todoapp://list/<name>                      app/list/[name].tsx
+ */
+
+// Links come from anywhere, so a title that would swamp the list is turned away
+export const MAX_LINK_TITLE_LENGTH = 500;
+
+export type LinkParam = string | string[] | undefined;
+
+export type AddLink = {
+  title: string;
+  dueDate: number | null;
+};
+
+// A repeated query parameter arrives as an array; the first value wins
+export function firstParam(param: LinkParam): string | undefined {
+  return Array.isArray(param) ? param[0] : param;
+}
+
+// The task an add link describes, or what's wrong with it
+export function parseAddLink(
+  params: { title?: LinkParam; due?: LinkParam },
+  i18n: Translator = defaultTranslator
+): { task: AddLink | null; errors: string[] } {
+  const { t } = i18n;
+  const errors: string[] = [];
+  const title = (firstParam(params.title) ?? '').replace(/\s+/g, ' ').trim();
+  if (title === '') errors.push(t('link.noTitle'));
+  if (title.length > MAX_LINK_TITLE_LENGTH) {
+    errors.push(t('link.titleTooLong', { max: MAX_LINK_TITLE_LENGTH }));
+  }
+
+  const due = firstParam(params.due)?.trim() ?? '';
+  const dueDate = due === '' ? null : parseDate(due);
+  if (due !== '' && dueDate === null) {
+    errors.push(t('link.badDueDate', { due }));
+  }
+
+  return { task: errors.length === 0 ? { title, dueDate } : null, errors };
+}
@@ -0,0 +1,74 @@
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+
+export type DueStatus = 'overdue' | 'today' | 'upcoming';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Time of day given to due dates entered without one
+export const DEFAULT_DUE_HOUR = 9;
+
+export function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export function endOfDay(time: number): number {
+  return startOfDay(time) + DAY_MS - 1;
+}
+
+// Where a due date sits relative to `now`; completed tasks are never overdue
+export function getDueStatus(
+  dueDate: number | null,
+  completed: boolean,
+  now = Date.now()
+): DueStatus | null {
+  if (dueDate === null || completed) return null;
+  if (dueDate < now) return 'overdue';
+  if (dueDate <= endOfDay(now)) return 'today';
+  return 'upcoming';
+}
+
+function formatTime(date: Date, locale: string): string {
+  return date.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+}
+
+// Short label for a task row: "Today 9:00 AM", "Tomorrow 5:30 PM", "Mon, Jun 3"
+export function formatDueDate(dueDate: number, now = Date.now(), i18n: Translator = defaultTranslator): string {
+  const date = new Date(dueDate);
+  const time = formatTime(date, i18n.locale);
+  const dayOffset = Math.round((startOfDay(dueDate) - startOfDay(now)) / DAY_MS);
+  if (dayOffset === 0) return i18n.t('date.today', { time });
+  if (dayOffset === 1) return i18n.t('date.tomorrow', { time });
+  if (dayOffset === -1) return i18n.t('date.yesterday', { time });
+  return date.toLocaleDateString(i18n.locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === new Date(now).getFullYear() ? undefined : 'numeric',
+  });
+}
+
+// Full date and time for records like "created" and "completed": "Mar 14, 2026, 9:05 AM"
+export function formatTimestamp(time: number, i18n: Translator = defaultTranslator): string {
+  return new Date(time).toLocaleString(i18n.locale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// Snoozing pushes a future due date back a day; anything else lands on tomorrow
+export function snoozeDueDate(dueDate: number | null, now = Date.now()): number {
+  const next = new Date(dueDate !== null && dueDate > now ? dueDate : now);
+  next.setDate(next.getDate() + 1);
+  if (dueDate === null) {
+    next.setHours(DEFAULT_DUE_HOUR, 0, 0, 0);
+  } else if (dueDate <= now) {
+    const due = new Date(dueDate);
+    next.setHours(due.getHours(), due.getMinutes(), 0, 0);
+  }
+  return next.getTime();
+}
@@ -0,0 +1,55 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { createMemoryNotifier, type Notifier } from '@/lib/reminders';
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+    shouldShowBanner: true,
+    shouldShowList: true,
+  }),
+});
+
+// Only reminders scheduled by us are tagged, so other notifications are left alone
+const SOURCE = 'task-reminder';
+
+function createExpoNotifier(): Notifier {
+  let permission: Promise<boolean> | null = null;
+  const ensurePermission = () => {
+    permission ??= Notifications.requestPermissionsAsync().then(result => result.granted);
+    return permission;
+  };
+
+  return {
+    async schedule(reminder) {
+      if (!(await ensurePermission())) return;
+      await Notifications.scheduleNotificationAsync({
+        identifier: reminder.key,
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          data: { source: SOURCE, taskId: reminder.taskId },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.fireAt,
+        },
+      });
+    },
+    async cancel(key) {
+      await Notifications.cancelScheduledNotificationAsync(key);
+    },
+    async getScheduledKeys() {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      return scheduled
+        .filter(request => request.content.data?.source === SOURCE)
+        .map(request => request.identifier);
+    },
+  };
+}
+
+// Local notifications aren't available on web, so reminders are only planned there
+export const notifier: Notifier =
+  Platform.OS === 'web' ? createMemoryNotifier() : createExpoNotifier();
@@ -0,0 +1,84 @@
+import Task, { type TaskData } from '@/app/(tabs)/Task';
+import { toData, toTask } from '@/lib/taskRepository';
+
+// One task's state before and after a change; null means it didn't exist
+export type TaskChange = {
+  id: string;
+  before: TaskData | null;
+  after: TaskData | null;
+  // Position in the list on that side of the change, so undoing a delete puts the task back
+  beforeIndex: number;
+  afterIndex: number;
+};
+
+export type HistoryEntry = {
+  label: string;
+  at: number;
+  changes: TaskChange[];
+};
+
+export type History = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+// Older entries are dropped so the history stays small enough to persist
+export const HISTORY_LIMIT = 50;
+
+// Tasks are replaced, never mutated, so unchanged tasks keep their identity
+export function diffTasks(before: Task[], after: Task[]): TaskChange[] {
+  const beforeIndex = new Map(before.map((task, index) => [task.id, index]));
+  const afterIndex = new Map(after.map((task, index) => [task.id, index]));
+  const changes: TaskChange[] = [];
+
+  after.forEach((task, index) => {
+    const previousIndex = beforeIndex.get(task.id);
+    const previous = previousIndex === undefined ? undefined : before[previousIndex];
+    if (previous === task) return;
+    changes.push({
+      id: task.id,
+      before: previous ? toData(previous) : null,
+      after: toData(task),
+      beforeIndex: previousIndex ?? -1,
+      afterIndex: index,
+    });
+  });
+  before.forEach((task, index) => {
+    if (!afterIndex.has(task.id)) {
+      changes.push({ id: task.id, before: toData(task), after: null, beforeIndex: index, afterIndex: -1 });
+    }
+  });
+  return changes;
+}
+
+// Ignore changes that only touch UI state such as which task is being edited
+export function isMeaningful(change: TaskChange): boolean {
+  return JSON.stringify(change.before) !== JSON.stringify(change.after);
+}
+
+// Roll changes back ('undo') or forward ('redo')
+export function applyChanges(tasks: Task[], changes: TaskChange[], direction: 'undo' | 'redo'): Task[] {
+  const next = [...tasks];
+  const target = (change: TaskChange) => (direction === 'undo' ? change.before : change.after);
+  const targetIndex = (change: TaskChange) =>
+    direction === 'undo' ? change.beforeIndex : change.afterIndex;
+
+  // Remove first, then restore in ascending position so indices line up with the original list
+  for (const change of changes) {
+    const index = next.findIndex(task => task.id === change.id);
+    if (index !== -1) next.splice(index, 1);
+  }
+  const restored = changes
+    .filter(change => target(change) !== null)
+    .sort((a, b) => targetIndex(a) - targetIndex(b));
+  for (const change of restored) {
+    next.splice(Math.min(targetIndex(change), next.length), 0, toTask(target(change)!));
+  }
+  return next;
+}
+
+export function pushEntry(history: History, entry: HistoryEntry): History {
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
@@ -0,0 +1,26 @@
+import { EMPTY_HISTORY, type History } from '@/lib/history';
+import { createVersionedStore, type Migration } from '@/lib/versionedStore';
+
+type StoredHistory = History & { savedAt: number };
+
+// Undo history only outlives the app for a quick restart, not across days
+const HISTORY_TTL = 15 * 60 * 1000;
+
+// See `createVersionedStore` for how migrations run.
+const migrations: Migration[] = [];
+
+const store = createVersionedStore<StoredHistory>({
+  key: '@history',
+  field: 'history',
+  migrations,
+  fallback: () => ({ ...EMPTY_HISTORY, savedAt: 0 }),
+});
+
+export async function loadHistory(): Promise<History> {
+  const { past, future, savedAt } = await store.load();
+  return Date.now() - savedAt > HISTORY_TTL ? EMPTY_HISTORY : { past, future };
+}
+
+export async function saveHistory(history: History) {
+  await store.save({ ...history, savedAt: Date.now() });
+}
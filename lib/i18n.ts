@@ -0,0 +1,214 @@
+import { Messages, type MessageKey } from '@/constants/Messages';
+
+/**
+ * Translated UI text. Messages are looked up by key in the catalog for the current
+ * language, falling back to English, and use a subset of ICU MessageFormat:
+ *
+ * - Arguments: `{name}`
+ * - Plurals: `{count, plural, =0 {Nothing} one {# task} other {# tasks}}`, where `#` is
+ *   the count formatted for the locale
+ * - Selects: `{unit, select, day {day} week {week} other {month}}`
+ *
+ * Quoting with apostrophes and plural offsets aren't supported.
+ */
+
+export type Language = keyof typeof Messages;
+
+export type LanguagePreference = 'system' | Language;
+
+export type Direction = 'ltr' | 'rtl';
+
+export type MessageValues = Record<string, string | number>;
+
+export type Translator = {
+  language: Language;
+  // BCP 47 tag for dates and numbers; the device's own when following the system,
+  // so English on a British phone still gets day-month dates
+  locale: string;
+  direction: Direction;
+  t: (key: MessageKey, values?: MessageValues) => string;
+};
+
+// Each language by its own name, so it can be found whatever the current language is
+export const LANGUAGE_OPTIONS: { value: LanguagePreference; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'ar', label: 'العربية' },
+];
+
+const RTL_LANGUAGES: Language[] = ['ar'];
+
+type Part =
+  | string
+  | { kind: 'argument'; name: string }
+  | { kind: 'pound' }
+  | { kind: 'plural' | 'select'; name: string; options: Record<string, Part[]> };
+
+function parseError(pattern: string, message: string) {
+  return new Error(`Invalid message "${pattern}": ${message}`);
+}
+
+// Parses from `start` up to an unmatched "}" or the end, returning the parts and where it stopped
+function parse(pattern: string, start: number, inPlural: boolean): [Part[], number] {
+  const parts: Part[] = [];
+  let text = '';
+  let i = start;
+
+  while (i < pattern.length && pattern[i] !== '}') {
+    const char = pattern[i];
+    if (char === '#' && inPlural) {
+      if (text) parts.push(text);
+      text = '';
+      parts.push({ kind: 'pound' });
+      i++;
+    } else if (char === '{') {
+      if (text) parts.push(text);
+      text = '';
+      const [part, end] = parseArgument(pattern, i + 1, inPlural);
+      parts.push(part);
+      i = end;
+    } else {
+      text += char;
+      i++;
+    }
+  }
+  if (text) parts.push(text);
+  return [parts, i];
+}
+
+// Parses the inside of "{...}" starting after the brace, returning the part and the index after "}"
+function parseArgument(pattern: string, start: number, inPlural: boolean): [Part, number] {
+  const header = /^\s*(\w+)\s*(?:,\s*(plural|select)\s*,)?\s*/.exec(pattern.slice(start));
+  if (!header) throw parseError(pattern, `expected an argument name at ${start}`);
+  const [matched, name, kind] = header;
+  let i = start + matched.length;
+
+  if (!kind) {
+    if (pattern[i] !== '}') throw parseError(pattern, `expected "}" at ${i}`);
+    return [{ kind: 'argument', name }, i + 1];
+  }
+
+  const options: Record<string, Part[]> = {};
+  while (pattern[i] !== '}') {
+    const selector = /^\s*(=?\w+)\s*\{/.exec(pattern.slice(i));
+    if (!selector) throw parseError(pattern, `expected an option at ${i}`);
+    const [parts, end] = parse(pattern, i + selector[0].length, kind === 'plural' || inPlural);
+    if (pattern[end] !== '}') throw parseError(pattern, `unclosed option "${selector[1]}"`);
+    options[selector[1]] = parts;
+    i = end + 1;
+    while (/\s/.test(pattern[i] ?? '')) i++;
+    if (i >= pattern.length) throw parseError(pattern, `unclosed ${kind}`);
+  }
+  if (!options.other) throw parseError(pattern, `${kind} "${name}" needs an "other" option`);
+  return [{ kind: kind as 'plural' | 'select', name, options }, i + 1];
+}
+
+const parsed = new Map<string, Part[]>();
+
+function getParts(pattern: string): Part[] {
+  let parts = parsed.get(pattern);
+  if (!parts) {
+    const [result, end] = parse(pattern, 0, false);
+    if (end < pattern.length) throw parseError(pattern, `unexpected "}" at ${end}`);
+    parts = result;
+    parsed.set(pattern, parts);
+  }
+  return parts;
+}
+
+// CLDR plural categories for when Intl.PluralRules isn't available, as on older Hermes
+const FALLBACK_PLURALS: Record<Language, (n: number) => Intl.LDMLPluralRule> = {
+  en: n => (n === 1 ? 'one' : 'other'),
+  es: n => (n === 1 ? 'one' : 'other'),
+  ar: n => {
+    const mod100 = n % 100;
+    if (n === 0) return 'zero';
+    if (n === 1) return 'one';
+    if (n === 2) return 'two';
+    if (mod100 >= 3 && mod100 <= 10) return 'few';
+    if (mod100 >= 11) return 'many';
+    return 'other';
+  },
+};
+
+function createPluralRule(language: Language, locale: string): (n: number) => string {
+  if (typeof Intl.PluralRules !== 'function') return FALLBACK_PLURALS[language];
+  const rules = new Intl.PluralRules(locale);
+  return n => rules.select(n);
+}
+
+type Formatters = {
+  pluralRule: (n: number) => string;
+  numberFormat: Intl.NumberFormat;
+};
+
+// `count` is the value of the innermost plural, which "#" stands for
+function formatParts(parts: Part[], values: MessageValues, formatters: Formatters, count: number | null): string {
+  const { pluralRule, numberFormat } = formatters;
+  return parts
+    .map(part => {
+      if (typeof part === 'string') return part;
+      if (part.kind === 'pound') return count === null ? '#' : numberFormat.format(count);
+      const value = values[part.name];
+      if (part.kind === 'argument') {
+        return typeof value === 'number' ? numberFormat.format(value) : (value ?? `{${part.name}}`);
+      }
+      if (part.kind === 'select') {
+        return formatParts(part.options[String(value)] ?? part.options.other, values, formatters, count);
+      }
+      const n = Number(value);
+      const option = part.options[`=${n}`] ?? part.options[pluralRule(n)] ?? part.options.other;
+      return formatParts(option, values, formatters, n);
+    })
+    .join('');
+}
+
+/**
+ * Text styles for a direction. Layout flips with the `direction` style, but text alignment
+ * and the base writing direction of mixed-script text have to be set on the text itself.
+ */
+export function textDirectionStyle(direction: Direction) {
+  return { writingDirection: direction, textAlign: direction === 'rtl' ? 'right' : 'left' } as const;
+}
+
+// The device's preferred locale, e.g. "en-GB"
+export function getDeviceLocale(): string {
+  return Intl.DateTimeFormat().resolvedOptions().locale;
+}
+
+const isLanguage = (value: string): value is Language => value in Messages;
+
+/**
+ * The language and locale for a preference. Following the system uses the device's locale
+ * when there's a catalog for its language, and English otherwise.
+ */
+export function resolveLocale(
+  preference: LanguagePreference,
+  deviceLocale = getDeviceLocale()
+): { language: Language; locale: string } {
+  if (preference !== 'system') return { language: preference, locale: preference };
+  const language = deviceLocale.split('-')[0].toLowerCase();
+  return isLanguage(language) ? { language, locale: deviceLocale } : { language: 'en', locale: 'en' };
+}
+
+export function createTranslator(language: Language, locale: string = language): Translator {
+  const catalog: Partial<Record<MessageKey, string>> = Messages[language];
+  const formatters = {
+    pluralRule: createPluralRule(language, locale),
+    numberFormat: new Intl.NumberFormat(locale),
+  };
+
+  return {
+    language,
+    locale,
+    direction: RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr',
+    t: (key, values = {}) => formatParts(getParts(catalog[key] ?? Messages.en[key]), values, formatters, null),
+  };
+}
+
+// Used by formatting helpers when no translator is passed in: the device's language
+export const defaultTranslator = (() => {
+  const { language, locale } = resolveLocale('system');
+  return createTranslator(language, locale);
+})();
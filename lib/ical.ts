@@ -0,0 +1,318 @@
+import Task, { type TaskData } from '@/app/(tabs)/Task';
+import { DEFAULT_DUE_HOUR } from '@/lib/dueDates';
+import type { Priority } from '@/lib/priority';
+import { createRule, type RecurrenceRule } from '@/lib/recurrence';
+import { addTag } from '@/lib/tags';
+import type { ImportEntry, ImportIssue, ImportText, ParsedImport } from '@/lib/taskFormats';
+import { toData } from '@/lib/taskRepository';
+
+/**
+ * Tasks as RFC 5545 VTODO components. The task id is the UID, so importing a calendar we
+ * exported, or one another app has since edited, updates the same tasks.
+ */
+
+// Where an issue is, as lib/taskFormats reports it; taskFormats imports this module, so they aren't shared
+const inFile: ImportText = { key: 'transfer.where.file' };
+const atLine = (line: number): ImportText => ({ key: 'transfer.where.line', values: { line } });
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// PRIORITY runs from 1 (highest) to 9 (lowest); 0 means undefined
+const PRIORITY_LEVELS: Record<Priority, number> = { urgent: 1, high: 3, medium: 5, low: 7, none: 0 };
+
+// Fields a VTODO carries; updating a task from one leaves its reminders, steps and list alone
+export const ICAL_FIELDS: (keyof TaskData)[] = [
+  'title',
+  'completed',
+  'completedAt',
+  'dueDate',
+  'priority',
+  'tags',
+  'recurrence',
+  'createdAt',
+  'notes',
+];
+
+function priorityFromLevel(level: number): Priority {
+  if (level === 0) return 'none';
+  if (level === 1) return 'urgent';
+  if (level <= 4) return 'high';
+  if (level === 5) return 'medium';
+  return 'low';
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// UTC date-time, e.g. 20260120T090000Z
+function formatDateTime(time: number): string {
+  const date = new Date(time);
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * A DATE or DATE-TIME value. UTC times end in Z; times without it (and those with a TZID we
+ * can't resolve without a timezone database) are read as local time, and bare dates get the
+ * default due time.
+ */
+function parseDateTime(value: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day)] as const;
+  if (hours === undefined) return new Date(...parts, DEFAULT_DUE_HOUR).getTime();
+  const time = [Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? Date.UTC(...parts, ...time) : new Date(...parts, ...time).getTime();
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+// Split on commas that aren't escaped, as in CATEGORIES
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/).map(unescapeText);
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let rest = line;
+  while (rest.length > 0) {
+    // The leading space counts towards a continuation line's 75
+    const limit = chunks.length === 0 ? 75 : 74;
+    let size = Math.min(rest.length, limit);
+    while (encoder.encode(rest.slice(0, size)).length > limit) size--;
+    // Don't split a surrogate pair
+    if (size < rest.length && /[\uD800-\uDBFF]/.test(rest[size - 1])) size--;
+    chunks.push(rest.slice(0, size));
+    rest = rest.slice(size);
+  }
+  return chunks.join('\r\n ');
+}
+
+function encodeRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+    parts.push(`BYDAY=${rule.weekdays.map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.frequency === 'monthly' && rule.monthlyWeekday) {
+    parts.push(`BYDAY=${rule.monthlyWeekday.ordinal}${WEEKDAY_CODES[rule.monthlyWeekday.weekday]}`);
+  }
+  if (rule.until !== null) parts.push(`UNTIL=${formatDateTime(rule.until)}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+// The parts of an RRULE we can represent, or an error describing what we can't
+function decodeRule(value: string): RecurrenceRule | ImportText {
+  const parts = new Map(
+    value.split(';').map(part => part.split('=') as [string, string]).map(([key, val]) => [key.toUpperCase(), val ?? ''])
+  );
+  const frequency = parts.get('FREQ')?.toUpperCase();
+  let rule: RecurrenceRule;
+  switch (frequency) {
+    case 'DAILY':
+    case 'WEEKLY':
+    case 'MONTHLY':
+      rule = createRule(frequency.toLowerCase() as RecurrenceRule['frequency']);
+      break;
+    case 'YEARLY':
+      rule = { ...createRule('monthly'), interval: 12 };
+      break;
+    default:
+      return frequency
+        ? { key: 'transfer.issue.unsupportedFrequency', values: { frequency } }
+        : { key: 'transfer.issue.noFrequency' };
+  }
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  if (!Number.isInteger(interval) || interval < 1) {
+    return { key: 'transfer.issue.invalidRulePart', values: { value: parts.get('INTERVAL')!, part: 'INTERVAL' } };
+  }
+  rule.interval *= interval;
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    const days = byDay.split(',').map(day => /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/i.exec(day.trim()));
+    if (days.some(day => !day)) return { key: 'transfer.issue.invalidRulePart', values: { value: byDay, part: 'BYDAY' } };
+    const [first] = days as RegExpExecArray[];
+    if (rule.frequency === 'monthly' && first[1]) {
+      const ordinal = Number(first[1]);
+      rule.monthlyWeekday = { ordinal: ordinal > 4 ? -1 : ordinal, weekday: WEEKDAY_CODES.indexOf(first[2].toUpperCase()) };
+    } else if (rule.frequency === 'weekly') {
+      rule.weekdays = (days as RegExpExecArray[]).map(day => WEEKDAY_CODES.indexOf(day[2].toUpperCase())).sort();
+    } else if (rule.frequency === 'daily' && days.length < 7) {
+      // "Every day, but only on weekdays" is a weekly repeat on those days
+      rule = { ...rule, frequency: 'weekly', weekdays: (days as RegExpExecArray[]).map(day => WEEKDAY_CODES.indexOf(day[2].toUpperCase())).sort() };
+    }
+  }
+
+  const until = parts.get('UNTIL');
+  if (until) {
+    rule.until = parseDateTime(until);
+    if (rule.until === null) return { key: 'transfer.issue.invalidRulePart', values: { value: until, part: 'UNTIL' } };
+  }
+  const count = parts.get('COUNT');
+  if (count) {
+    rule.count = Number(count);
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      return { key: 'transfer.issue.invalidRulePart', values: { value: count, part: 'COUNT' } };
+    }
+  }
+  return rule;
+}
+
+function toVTodo(task: Task, now: number): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(task.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+  ];
+  if (task.completed && task.completedAt !== null) lines.push(`COMPLETED:${formatDateTime(task.completedAt)}`);
+  if (task.dueDate !== null) {
+    // A recurrence set is anchored on DTSTART, which we take to be the due date
+    if (task.recurrence) lines.push(`DTSTART:${formatDateTime(task.dueDate)}`);
+    lines.push(`DUE:${formatDateTime(task.dueDate)}`);
+  }
+  if (task.priority !== 'none') lines.push(`PRIORITY:${PRIORITY_LEVELS[task.priority]}`);
+  if (task.tags.length > 0) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+  if (task.recurrence) lines.push(`RRULE:${encodeRule(task.recurrence)}`);
+  if (task.notes !== '') lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+  lines.push('END:VTODO');
+  return lines;
+}
+
+export function toICalendar(tasks: Task[], now = Date.now()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//todoapp//Tasks//EN',
+    ...tasks.flatMap(task => toVTodo(task, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+type Property = { name: string; params: Record<string, string>; value: string; line: number };
+
+// Unfold continuation lines and split each content line into name, parameters and value
+function readProperties(text: string): Property[] {
+  const properties: Property[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    if (/^[ \t]/.test(raw) && properties.length > 0) {
+      properties[properties.length - 1].value += raw.slice(1);
+      return;
+    }
+    if (raw.trim() === '') return;
+    // The value starts at the first colon outside a quoted parameter
+    const match = /^([^:;]+)((?:;[^=;:]+=(?:"[^"]*"|[^;:]*))*):(.*)$/.exec(raw);
+    if (!match) {
+      properties.push({ name: '', params: {}, value: raw, line: index + 1 });
+      return;
+    }
+    const params: Record<string, string> = {};
+    for (const [, key, value] of match[2].matchAll(/;([^=;:]+)=("[^"]*"|[^;:]*)/g)) {
+      params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+    }
+    properties.push({ name: match[1].toUpperCase(), params, value: match[3], line: index + 1 });
+  });
+  return properties;
+}
+
+export function parseICalendar(text: string, now = Date.now()): ParsedImport {
+  const entries: ImportEntry[] = [];
+  const errors: ImportIssue[] = [];
+  const properties = readProperties(text);
+
+  if (!properties.some(property => property.name === 'BEGIN' && property.value.toUpperCase() === 'VCALENDAR')) {
+    return { entries, errors: [{ where: inFile, message: { key: 'transfer.issue.notICalendar' } }] };
+  }
+
+  let todo: Property[] | null = null;
+  // Nested components such as VALARM belong to the task but aren't read
+  let nested = 0;
+  for (const property of properties) {
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VTODO') {
+      todo = [property];
+    } else if (todo && property.name === 'BEGIN') {
+      nested++;
+    } else if (todo && property.name === 'END' && nested > 0) {
+      nested--;
+    } else if (todo && property.name === 'END' && property.value.toUpperCase() === 'VTODO') {
+      const entry = readTodo(todo, errors, now);
+      if (entry) entries.push(entry);
+      todo = null;
+    } else if (todo && nested === 0) {
+      if (property.name === '') {
+        errors.push({ where: atLine(property.line), message: { key: 'transfer.issue.notAProperty' } });
+      } else {
+        todo.push(property);
+      }
+    }
+  }
+  if (todo) errors.push({ where: atLine(todo[0].line), message: { key: 'transfer.issue.unclosedTodo' } });
+  return { entries, errors };
+}
+
+function readTodo(properties: Property[], errors: ImportIssue[], now: number): ImportEntry | null {
+  const where = atLine(properties[0].line);
+  const get = (name: string) => properties.find(property => property.name === name);
+  const summary = unescapeText(get('SUMMARY')?.value ?? '').trim();
+  if (summary === '') {
+    errors.push({ where, message: { key: 'transfer.issue.noSummary' } });
+    return null;
+  }
+
+  const uid = get('UID')?.value.trim() || `${now}-${properties[0].line}`;
+  const task = toData(new Task(uid, summary, false, false, now));
+  const date = (name: string) => {
+    const property = get(name);
+    if (!property) return null;
+    const time = parseDateTime(property.value.trim());
+    if (time === null) {
+      errors.push({
+        where: atLine(property.line),
+        message: { key: 'transfer.issue.invalidPropertyDate', values: { value: property.value, property: name } },
+      });
+    }
+    return time;
+  };
+
+  const status = get('STATUS')?.value.trim().toUpperCase();
+  task.completed = status === 'COMPLETED' || get('COMPLETED') !== undefined;
+  task.completedAt = task.completed ? (date('COMPLETED') ?? now) : null;
+  task.createdAt = date('CREATED') ?? now;
+  task.updatedAt = date('LAST-MODIFIED') ?? task.createdAt;
+  task.notes = unescapeText(get('DESCRIPTION')?.value ?? '');
+  task.dueDate = date('DUE');
+  task.priority = priorityFromLevel(Number(get('PRIORITY')?.value ?? 0) || 0);
+  task.tags = properties
+    .filter(property => property.name === 'CATEGORIES')
+    .flatMap(property => splitList(property.value))
+    .reduce(addTag, [] as string[]);
+
+  const rrule = get('RRULE');
+  if (rrule) {
+    const rule = decodeRule(rrule.value.trim());
+    if ('key' in rule) {
+      // The rest of the task is still worth having, just without its repeat
+      errors.push({ where: atLine(rrule.line), message: rule });
+    } else {
+      task.recurrence = rule;
+    }
+  }
+  return { task, listName: null, fields: ICAL_FIELDS };
+}
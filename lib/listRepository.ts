@@ -0,0 +1,25 @@
+import { createDefaultList, type TaskList } from '@/lib/lists';
+import { createVersionedStore, type Migration } from '@/lib/versionedStore';
+
+// See `createVersionedStore` for how migrations run.
+const migrations: Migration<any[]>[] = [
+  // 0 -> 1: per-list sort order.
+  lists => lists.map(list => ({ ...list, sort: 'manual' })),
+];
+
+// Lists are stored in display order
+const store = createVersionedStore<TaskList[]>({
+  key: '@lists',
+  field: 'lists',
+  migrations,
+  fallback: () => [createDefaultList()],
+});
+
+export async function loadLists(): Promise<TaskList[]> {
+  const lists = await store.load();
+  return lists.length > 0 ? lists : [createDefaultList()];
+}
+
+export async function saveLists(lists: TaskList[]) {
+  await store.save(lists);
+}
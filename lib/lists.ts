@@ -0,0 +1,39 @@
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { type SortOrder } from '@/lib/sorting';
+
+export type TaskList = {
+  id: string;
+  name: string;
+  color: string;
+  // How the list is ordered on the Home tab, remembered per list
+  sort: SortOrder;
+};
+
+// Tasks created before lists existed, and the first list on a fresh install
+export const DEFAULT_LIST_ID = 'default';
+
+export const LIST_COLORS = ['#007bff', '#28a745', '#fd7e14', '#dc3545', '#6f42c1', '#20c997', '#e83e8c', '#6c757d'];
+
+// Named in the device's language, since it's created before any settings are loaded
+export function createDefaultList(i18n: Translator = defaultTranslator): TaskList {
+  return { id: DEFAULT_LIST_ID, name: i18n.t('lists.defaultName'), color: LIST_COLORS[0], sort: 'manual' };
+}
+
+export function createList(name: string, existing: TaskList[], id = Date.now().toString()): TaskList {
+  // Cycle through the palette so new lists are told apart at a glance
+  return {
+    id,
+    name: name.trim(),
+    color: LIST_COLORS[existing.length % LIST_COLORS.length],
+    sort: 'manual',
+  };
+}
+
+export function moveList(lists: TaskList[], id: string, offset: -1 | 1): TaskList[] {
+  const from = lists.findIndex(list => list.id === id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= lists.length) return lists;
+  const next = [...lists];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
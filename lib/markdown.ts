@@ -0,0 +1,103 @@
+/**
+ * The little Markdown that task notes need: headings, lists, checkboxes, quotes, code, and
+ * bold, italic, code and links inline. Anything else is shown as written.
+ */
+
+export type InlineSpan = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  // Only web and mail links are kept; anything else stays plain text
+  url?: string;
+};
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; spans: InlineSpan[] }
+  | { type: 'paragraph'; spans: InlineSpan[] }
+  | { type: 'bullet'; depth: number; checked: boolean | null; spans: InlineSpan[] }
+  | { type: 'numbered'; depth: number; number: number; spans: InlineSpan[] }
+  | { type: 'quote'; spans: InlineSpan[] }
+  | { type: 'code'; text: string };
+
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\[[^\]]+\]\([^)\s]+\)|\*[^*\s][^*]*\*|(?<![\w])_[^_\s][^_]*_(?![\w]))/;
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+export function parseInline(text: string, inherited: Omit<InlineSpan, 'text'> = {}): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  text.split(INLINE).forEach((part, index) => {
+    if (part === '') return;
+    // split() puts captured markup at odd indexes
+    if (index % 2 === 0) {
+      spans.push({ ...inherited, text: part });
+    } else if (part.startsWith('**') || part.startsWith('__')) {
+      spans.push(...parseInline(part.slice(2, -2), { ...inherited, bold: true }));
+    } else if (part.startsWith('`')) {
+      spans.push({ ...inherited, text: part.slice(1, -1), code: true });
+    } else if (part.startsWith('[')) {
+      const [, label, url] = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part)!;
+      if (SAFE_URL.test(url)) spans.push(...parseInline(label, { ...inherited, url }));
+      else spans.push({ ...inherited, text: part });
+    } else {
+      spans.push(...parseInline(part.slice(1, -1), { ...inherited, italic: true }));
+    }
+  });
+  return spans;
+}
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let code: string[] | null = null;
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', spans: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (code) {
+      if (/^\s*```/.test(line)) {
+        blocks.push({ type: 'code', text: code.join('\n') });
+        code = null;
+      } else {
+        code.push(line);
+      }
+      continue;
+    }
+
+    const depth = Math.floor(/^\s*/.exec(line)![0].replace(/\t/g, '  ').length / 2);
+    const heading = /^(#{1,6})\s+(.*?)\s*#*$/.exec(line);
+    const bullet = /^\s*[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/.exec(line);
+    const numbered = /^\s*(\d+)[.)]\s+(.*)$/.exec(line);
+    const quote = /^\s*>\s?(.*)$/.exec(line);
+
+    if (/^\s*```/.test(line)) {
+      endParagraph();
+      code = [];
+    } else if (heading) {
+      endParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, spans: parseInline(heading[2]) });
+    } else if (bullet) {
+      endParagraph();
+      const checked = bullet[1] === undefined ? null : bullet[1] !== ' ';
+      blocks.push({ type: 'bullet', depth, checked, spans: parseInline(bullet[2]) });
+    } else if (numbered) {
+      endParagraph();
+      blocks.push({ type: 'numbered', depth, number: Number(numbered[1]), spans: parseInline(numbered[2]) });
+    } else if (quote) {
+      endParagraph();
+      blocks.push({ type: 'quote', spans: parseInline(quote[1]) });
+    } else if (line.trim() === '') {
+      endParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+
+  endParagraph();
+  // An unclosed fence runs to the end of the notes
+  if (code) blocks.push({ type: 'code', text: code.join('\n') });
+  return blocks;
+}
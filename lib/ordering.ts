@@ -0,0 +1,48 @@
+import Task from '@/app/(tabs)/Task';
+
+/**
+ * Manual order is a number per task rather than array position, so moving a task only
+ * changes that task: it takes a value between its new neighbours.
+ */
+export function orderBetween(before: number | undefined, after: number | undefined): number {
+  if (before === undefined && after === undefined) return 0;
+  if (before === undefined) return after! - 1;
+  if (after === undefined) return before + 1;
+  return (before + after) / 2;
+}
+
+export function byOrder(a: Task, b: Task): number {
+  return a.order - b.order;
+}
+
+// Order for a new task at the end of everything
+export function nextOrder(tasks: Task[]): number {
+  return tasks.reduce((max, task) => Math.max(max, task.order + 1), 0);
+}
+
+// Order that places a task directly after `task` without moving anything else
+export function orderAfter(tasks: Task[], task: Task): number {
+  const following = tasks
+    .filter(other => other.order > task.order)
+    .reduce<number | undefined>((min, other) => Math.min(min ?? Infinity, other.order), undefined);
+  return orderBetween(task.order, following);
+}
+
+/**
+ * New order for the task at `from` in `visible` (sorted by order) after dropping it at `to`.
+ * Returns null when the drop doesn't move it.
+ */
+export function orderForMove(visible: Task[], from: number, to: number): number | null {
+  if (from === to || to < 0 || to >= visible.length) return null;
+  const rest = visible.filter((_, index) => index !== from);
+  return orderBetween(rest[to - 1]?.order, rest[to]?.order);
+}
+
+// Spread orders back out to whole numbers once repeated halving gets too fine
+export function normalizeOrders(tasks: Task[]): Task[] {
+  const sorted = [...tasks].sort(byOrder);
+  const tooClose = sorted.some((task, i) => i > 0 && task.order - sorted[i - 1].order < 1e-6);
+  if (!tooClose) return tasks;
+  const orders = new Map(sorted.map((task, index) => [task.id, index]));
+  return tasks.map(task => ({ ...task, order: orders.get(task.id)! }));
+}
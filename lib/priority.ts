@@ -0,0 +1,14 @@
+export type Priority = 'none' | 'low' | 'medium' | 'high' | 'urgent';
+
+// Most urgent first; `rank` orders tasks when sorting by priority
+export const PRIORITIES: { value: Priority; label: string; color: string; rank: number }[] = [
+  { value: 'urgent', label: 'Urgent', color: '#dc3545', rank: 4 },
+  { value: 'high', label: 'High', color: '#fd7e14', rank: 3 },
+  { value: 'medium', label: 'Medium', color: '#ffc107', rank: 2 },
+  { value: 'low', label: 'Low', color: '#28a745', rank: 1 },
+  { value: 'none', label: 'None', color: '#adb5bd', rank: 0 },
+];
+
+export function getPriority(value: Priority) {
+  return PRIORITIES.find(priority => priority.value === value) ?? PRIORITIES[PRIORITIES.length - 1];
+}
@@ -0,0 +1,384 @@
+import { DEFAULT_DUE_HOUR, endOfDay, startOfDay } from '@/lib/dueDates';
+import type { Priority } from '@/lib/priority';
+import { createRule, type Frequency, type RecurrenceRule } from '@/lib/recurrence';
+import { addTag } from '@/lib/tags';
+
+/**
+ * Parses quick-add input such as "Call bank tomorrow 9am #finance !high every monday"
+ * into a title plus the task fields it mentions. Whatever isn't recognised stays in the title.
+ *
+ * - Tags: `#finance`; numbers such as "issue #12" stay in the title
+ * - Priority: `!urgent`, `!high`, `!medium` (`!med`), `!low`, or `!1` (urgent) to `!4` (low)
+ * - Dates: `today`, `tonight`, `tomorrow`, `monday` (the coming one, today included),
+ *   `next fri` (after today), `next week`, `next month`, `in 3 days`, `in 2 hours`,
+ *   `jun 3`, `3 june 2025`, `2025-06-03`
+ * - Times: `9am`, `9:30 pm`, `at 17:00`, `at 9`, `noon`, `midnight`. A bare hour from 1 to 7,
+ *   as in `at 5`, means the afternoon or evening, since hardly anything is planned for 5am.
+ * - Repeats: `daily`, `weekly`, `monthly`, `every day`, `every other week`, `every 3 days`,
+ *   `every weekday`, `every mon and thu`, `every first monday`, `every last fri`,
+ *   optionally followed by `5 times`
+ */
+
+export type QuickAddPartKind = 'tag' | 'priority' | 'recurrence' | 'date' | 'time';
+
+export type QuickAddPart = {
+  kind: QuickAddPartKind;
+  // The recognised text as typed
+  text: string;
+};
+
+export type QuickAddResult = {
+  title: string;
+  dueDate: number | null;
+  tags: string[];
+  priority: Priority;
+  recurrence: RecurrenceRule | null;
+  // Recognised pieces in the order they were typed, for previewing
+  parts: QuickAddPart[];
+};
+
+const TONIGHT_HOUR = 20;
+
+const FULL_WEEKDAY = 'sunday|monday|tuesday|wednesday|thursday|friday|saturday';
+const WEEKDAY = 'sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?';
+const MONTH =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4, last: -1,
+};
+const PRIORITY_WORDS: Record<string, Priority> = {
+  urgent: 'urgent', '1': 'urgent',
+  high: 'high', '2': 'high',
+  medium: 'medium', med: 'medium', '3': 'medium',
+  low: 'low', '4': 'low',
+};
+// Words that only tie a date or time to the title, e.g. "pay rent *by* friday"
+const CONNECTOR = '(?:(?:on|by|due|at)\\s+)?';
+
+const weekdayNumber = (name: string) => WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase());
+const monthNumber = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+function addDays(time: number, days: number): number {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function addMonths(time: number, months: number): number {
+  const date = new Date(time);
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  // Clamp e.g. Jan 31 + 1 month to the end of February
+  date.setDate(Math.min(day, new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()));
+  return date.getTime();
+}
+
+// Start of the first day on or after `from` (after, when `skipToday`) that falls on `weekday`
+function upcomingWeekday(from: number, weekday: number, skipToday = false): number {
+  const offset = (weekday - new Date(from).getDay() + 7) % 7;
+  return startOfDay(addDays(from, offset === 0 && skipToday ? 7 : offset));
+}
+
+function setTime(day: number, hours: number, minutes: number): number {
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date.getTime();
+}
+
+// Converts a 12-hour clock reading to 24-hour; `meridiem` is 'am', 'pm' or undefined
+function toHours(hour: number, meridiem: string | undefined): number {
+  if (!meridiem) return hour;
+  return (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+}
+
+type Day = { day: number; time?: number };
+
+type Handler = (match: RegExpExecArray) => boolean | void;
+
+/**
+ * The input is consumed piece by piece: each recognised match is blanked out so later
+ * patterns can't see it, and what remains becomes the title.
+ */
+class Scanner {
+  private rest: string;
+  parts: (QuickAddPart & { index: number })[] = [];
+
+  constructor(input: string) {
+    this.rest = input;
+  }
+
+  // Consume the first match of `pattern`, if any. `handle` can reject a match by returning false.
+  take(kind: QuickAddPartKind, pattern: RegExp, handle: Handler): boolean {
+    const match = new RegExp(pattern.source, 'i').exec(this.rest);
+    if (!match || handle(match) === false) return false;
+    // Leading whitespace from a `(?:^|\s)` prefix isn't part of the token
+    const lead = match[0].length - match[0].trimStart().length;
+    const index = match.index + lead;
+    const text = match[0].trim();
+    this.parts.push({ kind, text, index });
+    this.rest = this.rest.slice(0, index) + ' '.repeat(text.length) + this.rest.slice(index + text.length);
+    return true;
+  }
+
+  // Try patterns in order and consume the first one that matches
+  takeFirst(kind: QuickAddPartKind, attempts: [RegExp, Handler][]): boolean {
+    return attempts.some(([pattern, handle]) => this.take(kind, pattern, handle));
+  }
+
+  takeAll(kind: QuickAddPartKind, pattern: RegExp, handle: Handler) {
+    let found = true;
+    while (found) found = this.take(kind, pattern, handle);
+  }
+
+  title(): string {
+    return this.rest
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/^(?:on|by|due|at)\s+|\s+(?:on|by|due|at)$/i, '')
+      .replace(/^[\s,;:-]+|[\s,;:-]+$/g, '');
+  }
+}
+
+function parseTags(scanner: Scanner): string[] {
+  let tags: string[] = [];
+  scanner.takeAll('tag', /(?:^|\s)#([^\s#!]*[^\s#!\d][^\s#!]*)/, match => {
+    tags = addTag(tags, match[1]);
+  });
+  return tags;
+}
+
+function parsePriority(scanner: Scanner): Priority {
+  let priority: Priority = 'none';
+  scanner.take('priority', /(?:^|\s)!(urgent|high|medium|med|low|[1-4])\b/, match => {
+    priority = PRIORITY_WORDS[match[1].toLowerCase()];
+  });
+  return priority;
+}
+
+function parseRecurrence(scanner: Scanner): RecurrenceRule | null {
+  let rule: RecurrenceRule | null = null;
+  const found = scanner.takeFirst('recurrence', [
+    [
+      /\b(daily|weekly|monthly)\b/,
+      match => {
+        rule = createRule(match[1].toLowerCase() as Frequency);
+      },
+    ],
+    [
+      /\bevery\s+(?:(other)\s+|(\d+)\s+)?(day|week|month)s?\b/,
+      match => {
+        const frequency = { day: 'daily', week: 'weekly', month: 'monthly' } as const;
+        rule = createRule(frequency[match[3].toLowerCase() as keyof typeof frequency]);
+        rule.interval = match[1] ? 2 : Math.max(1, Number(match[2] ?? 1));
+      },
+    ],
+    [
+      /\bevery\s+(weekday|weekend)s?\b/,
+      match => {
+        rule = createRule('weekly');
+        rule.weekdays = match[1].toLowerCase() === 'weekday' ? [1, 2, 3, 4, 5] : [0, 6];
+      },
+    ],
+    [
+      new RegExp(`\\bevery\\s+(first|second|third|fourth|last|1st|2nd|3rd|4th)\\s+(${WEEKDAY})\\b`),
+      match => {
+        rule = createRule('monthly');
+        rule.monthlyWeekday = {
+          ordinal: ORDINALS[match[1].toLowerCase()],
+          weekday: weekdayNumber(match[2]),
+        };
+      },
+    ],
+    [
+      new RegExp(`\\bevery\\s+(?:${WEEKDAY})(?:\\s*(?:,|and|&)\\s*(?:${WEEKDAY}))*\\b`),
+      match => {
+        const names = match[0].slice('every'.length).match(new RegExp(`\\b(?:${WEEKDAY})\\b`, 'gi'));
+        rule = createRule('weekly');
+        rule.weekdays = [...new Set((names ?? []).map(weekdayNumber))].sort();
+      },
+    ],
+  ]);
+
+  if (found) {
+    scanner.take('recurrence', /\b(?:for\s+)?(\d+)\s+times\b/, match => {
+      rule!.count = Math.max(1, Number(match[1]));
+    });
+  }
+  return rule;
+}
+
+function parseDate(scanner: Scanner, now: number): Day | null {
+  let result: Day | null = null;
+  const today = startOfDay(now);
+
+  scanner.takeFirst('date', [
+    [
+      new RegExp(`\\b${CONNECTOR}(\\d{4})-(\\d{2})-(\\d{2})\\b`),
+      match => {
+        const month = Number(match[2]) - 1;
+        const date = new Date(Number(match[1]), month, Number(match[3]));
+        // Reject days the month doesn't have instead of rolling over into the next one
+        if (date.getMonth() !== month) return false;
+        result = { day: date.getTime() };
+      },
+    ],
+    [
+      new RegExp(
+        `\\b${CONNECTOR}(?:(${MONTH})\\s+(\\d{1,2})(?:st|nd|rd|th)?|(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH}))(?:,?\\s+(\\d{4}))?\\b`
+      ),
+      match => {
+        const month = monthNumber(match[1] ?? match[4]);
+        const dayOfMonth = Number(match[2] ?? match[3]);
+        const year = match[5] ? Number(match[5]) : new Date(now).getFullYear();
+        let date = new Date(year, month, dayOfMonth);
+        if (date.getMonth() !== month) return false;
+        // Without a year, a date that has already passed means next year's
+        if (!match[5] && date.getTime() < today) date = new Date(year + 1, month, dayOfMonth);
+        result = { day: date.getTime() };
+      },
+    ],
+    [
+      /\bin\s+(an?|\d+)\s+(minute|min|hour|hr|day|week|month)s?\b/,
+      match => {
+        const amount = /^an?$/i.test(match[1]) ? 1 : Number(match[1]);
+        const unit = match[2].toLowerCase();
+        if (unit.startsWith('min') || unit.startsWith('h')) {
+          const time = now + amount * (unit.startsWith('h') ? 60 : 1) * 60 * 1000;
+          result = { day: startOfDay(time), time };
+        } else if (unit === 'month') {
+          result = { day: addMonths(today, amount) };
+        } else {
+          result = { day: addDays(today, amount * (unit === 'week' ? 7 : 1)) };
+        }
+      },
+    ],
+    [
+      new RegExp(`\\b${CONNECTOR}(today|tonight|tomorrow|tmrw?|tmr)\\b`),
+      match => {
+        const word = match[1].toLowerCase();
+        if (word === 'tonight') result = { day: today, time: setTime(today, TONIGHT_HOUR, 0) };
+        else result = { day: word === 'today' ? today : addDays(today, 1) };
+      },
+    ],
+    [
+      /\bnext\s+(week|month)\b/,
+      match => {
+        result = { day: match[1].toLowerCase() === 'week' ? addDays(today, 7) : addMonths(today, 1) };
+      },
+    ],
+    // Short day names like "sun" or "sat" double as ordinary words, so on their own
+    // only full names count; "on sat" or "next sat" are unambiguous
+    [
+      new RegExp(`\\b(?:(?:on|by|due)\\s+|(next)\\s+)(${WEEKDAY})\\b`),
+      match => {
+        result = { day: upcomingWeekday(now, weekdayNumber(match[2]), Boolean(match[1])) };
+      },
+    ],
+    [
+      new RegExp(`\\b(${FULL_WEEKDAY})\\b`),
+      match => {
+        result = { day: upcomingWeekday(now, weekdayNumber(match[1])) };
+      },
+    ],
+  ]);
+
+  return result;
+}
+
+// Minutes past midnight of a typed time of day
+function parseTime(scanner: Scanner): number | null {
+  let minutes: number | null = null;
+  scanner.takeFirst('time', [
+    [
+      /\b(?:at\s+|@\s*)?(\d{1,2})(?::([0-5]\d))?\s*(am|pm)\b/,
+      match => {
+        const hour = Number(match[1]);
+        if (hour < 1 || hour > 12) return false;
+        minutes = toHours(hour, match[3]) * 60 + Number(match[2] ?? 0);
+      },
+    ],
+    [
+      /\b(?:at\s+|@\s*)?([01]?\d|2[0-3]):([0-5]\d)\b/,
+      match => {
+        minutes = Number(match[1]) * 60 + Number(match[2]);
+      },
+    ],
+    [
+      /\bat\s+([01]?\d|2[0-3])\b/,
+      match => {
+        const hour = Number(match[1]);
+        minutes = (hour >= 1 && hour <= 7 ? hour + 12 : hour) * 60;
+      },
+    ],
+    [
+      /\b(?:at\s+)?(noon|midnight)\b/,
+      match => {
+        minutes = match[1].toLowerCase() === 'noon' ? 12 * 60 : 0;
+      },
+    ],
+  ]);
+  return minutes;
+}
+
+// First day a rule that pins specific days lands on, for repeats typed without a date
+function firstOccurrence(rule: RecurrenceRule, now: number): number | null {
+  if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+    return Math.min(...rule.weekdays.map(weekday => upcomingWeekday(now, weekday)));
+  }
+  if (rule.frequency === 'monthly' && rule.monthlyWeekday) {
+    const { ordinal, weekday } = rule.monthlyWeekday;
+    for (let months = 0; months < 2; months++) {
+      const month = new Date(addMonths(startOfDay(now), months));
+      month.setDate(1);
+      const first = (weekday - month.getDay() + 7) % 7 + 1;
+      const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+      const day = ordinal > 0 ? first + (ordinal - 1) * 7 : first + Math.floor((lastDay - first) / 7) * 7;
+      month.setDate(day);
+      if (month.getTime() >= startOfDay(now)) return month.getTime();
+    }
+  }
+  return null;
+}
+
+export function parseQuickAdd(input: string, now = Date.now()): QuickAddResult {
+  const scanner = new Scanner(input);
+  const tags = parseTags(scanner);
+  const priority = parsePriority(scanner);
+  // Repeats go before dates so "every monday" isn't read as a due date of Monday
+  const recurrence = parseRecurrence(scanner);
+  const date = parseDate(scanner, now);
+  const minutes = parseTime(scanner);
+
+  let dueDate: number | null = null;
+  const firstDay = recurrence ? firstOccurrence(recurrence, now) : null;
+  const atTime = (day: number) =>
+    minutes === null ? setTime(day, DEFAULT_DUE_HOUR, 0) : setTime(day, Math.floor(minutes / 60), minutes % 60);
+
+  if (date?.time !== undefined) {
+    dueDate = date.time;
+  } else if (date) {
+    dueDate = atTime(date.day);
+    // "today" typed after the default hour means some time today, not already overdue
+    if (minutes === null && dueDate < now) dueDate = endOfDay(date.day);
+  } else if (recurrence && firstDay !== null) {
+    // A repeat on set days starts at its first occurrence that is still ahead
+    dueDate = atTime(firstDay);
+    if (dueDate < now) dueDate = atTime(firstOccurrence(recurrence, addDays(startOfDay(now), 1))!);
+  } else if (minutes !== null) {
+    // A time on its own means its next occurrence
+    dueDate = atTime(startOfDay(now));
+    if (dueDate <= now) dueDate = addDays(dueDate, 1);
+  }
+
+  return {
+    title: scanner.title(),
+    dueDate,
+    tags,
+    priority,
+    recurrence,
+    parts: scanner.parts.sort((a, b) => a.index - b.index).map(({ kind, text }) => ({ kind, text })),
+  };
+}
@@ -0,0 +1,187 @@
+import Task from '@/app/(tabs)/Task';
+import { startOfDay } from '@/lib/dueDates';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { setSubtasksCompleted } from '@/lib/subtasks';
+
+export type Frequency = 'daily' | 'weekly' | 'monthly';
+
+export type RecurrenceRule = {
+  frequency: Frequency;
+  // Repeat every `interval` days, weeks or months
+  interval: number;
+  // Weekly only: days of the week (0 = Sunday) the task falls on; empty keeps the due date's day
+  weekdays: number[];
+  // Monthly only: repeat on e.g. the first Monday (ordinal 1) or last Friday (ordinal -1)
+  // instead of the same day of the month
+  monthlyWeekday: { ordinal: number; weekday: number } | null;
+  // Monthly only: the day of the month the series falls on, which a short month clamps for
+  // that month alone; null until the first repeat, which takes it from the due date
+  monthDay: number | null;
+  // Stop after this date (epoch milliseconds)
+  until: number | null;
+  // Occurrences left, counting the current one; null repeats forever
+  count: number | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createRule(frequency: Frequency): RecurrenceRule {
+  return { frequency, interval: 1, weekdays: [], monthlyWeekday: null, monthDay: null, until: null, count: null };
+}
+
+function addDays(time: number, days: number): number {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// The nth (or last, for -1) given weekday of a month, keeping the time of day of `time`
+function nthWeekdayOfMonth(time: number, year: number, month: number, ordinal: number, weekday: number) {
+  const date = new Date(time);
+  if (ordinal > 0) {
+    const firstOffset = (weekday - new Date(year, month, 1).getDay() + 7) % 7;
+    date.setFullYear(year, month, 1 + firstOffset + (ordinal - 1) * 7);
+  } else {
+    const last = daysInMonth(year, month);
+    const lastOffset = (new Date(year, month, last).getDay() - weekday + 7) % 7;
+    date.setFullYear(year, month, last - lastOffset);
+  }
+  return date.getTime();
+}
+
+// Which ordinal weekday of its month a date is, e.g. the first Monday
+export function getMonthlyWeekday(time: number) {
+  const date = new Date(time);
+  const ordinal = Math.ceil(date.getDate() / 7);
+  // There is no reliable fifth weekday, so the 29th-31st count as the last one
+  return { ordinal: ordinal > 4 ? -1 : ordinal, weekday: date.getDay() };
+}
+
+/**
+ * The day of the month a monthly series falls on. A due date of the 28th in February carries
+ * on to the 31st when that's the anchor, but a due date moved to another day starts anew from there.
+ */
+function anchorDay(rule: RecurrenceRule, from: number): number {
+  const date = new Date(from);
+  if (!rule.monthDay) return date.getDate();
+  const clamped = Math.min(rule.monthDay, daysInMonth(date.getFullYear(), date.getMonth()));
+  return clamped === date.getDate() ? rule.monthDay : date.getDate();
+}
+
+function nextAfter(rule: RecurrenceRule, from: number): number {
+  const interval = Math.max(1, rule.interval);
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, interval);
+    case 'weekly': {
+      if (rule.weekdays.length === 0) return addDays(from, 7 * interval);
+      // Walk forward to the next listed weekday in a week that is a multiple of `interval` away
+      const weekStart = (time: number) => startOfDay(addDays(time, -new Date(time).getDay()));
+      const fromWeek = weekStart(from);
+      for (let day = 1; day <= 7 * interval + 7; day++) {
+        const candidate = addDays(from, day);
+        const weeks = Math.round((weekStart(candidate) - fromWeek) / (7 * DAY_MS));
+        if (weeks % interval === 0 && rule.weekdays.includes(new Date(candidate).getDay())) {
+          return candidate;
+        }
+      }
+      return addDays(from, 7 * interval);
+    }
+    case 'monthly': {
+      const date = new Date(from);
+      const target = new Date(date.getFullYear(), date.getMonth() + interval, 1);
+      const year = target.getFullYear();
+      const month = target.getMonth();
+      if (rule.monthlyWeekday) {
+        const { ordinal, weekday } = rule.monthlyWeekday;
+        return nthWeekdayOfMonth(from, year, month, ordinal, weekday);
+      }
+      // Clamp e.g. the 31st to the last day of shorter months
+      date.setFullYear(year, month, Math.min(anchorDay(rule, from), daysInMonth(year, month)));
+      return date.getTime();
+    }
+  }
+}
+
+// A monthly rule with its anchor day taken from `dueDate`, so later occurrences keep to it
+function withMonthDay(rule: RecurrenceRule, dueDate: number): RecurrenceRule {
+  if (rule.frequency !== 'monthly' || rule.monthlyWeekday) return rule;
+  const monthDay = anchorDay(rule, dueDate);
+  return monthDay === rule.monthDay ? rule : { ...rule, monthDay };
+}
+
+/**
+ * Due date of the occurrence after one due at `dueDate`, or null when the series has ended.
+ * Occurrences that would already be in the past at `now` are skipped so a late completion
+ * doesn't spawn a task that is overdue from the start.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, dueDate: number, now = Date.now()): number | null {
+  if (rule.count !== null && rule.count <= 1) return null;
+  const anchored = withMonthDay(rule, dueDate);
+  let next = nextAfter(anchored, dueDate);
+  while (next <= now) next = nextAfter(anchored, next);
+  if (rule.until !== null && next > rule.until) return null;
+  return next;
+}
+
+/**
+ * The task to add when a recurring task is completed, or null when its series has ended.
+ * Offset reminders follow the new due date; fixed-time reminders belong to the finished occurrence.
+ * Checklist steps start over unchecked.
+ */
+export function createNextOccurrence(task: Task, now = Date.now()): Task | null {
+  const rule = task.recurrence;
+  if (!rule) return null;
+  const from = task.dueDate ?? now;
+  const dueDate = getNextOccurrence(rule, from, now);
+  if (dueDate === null) return null;
+  const anchored = withMonthDay(rule, from);
+
+  const next = new Task(now.toString(), task.title);
+  next.listId = task.listId;
+  next.dueDate = dueDate;
+  next.reminders = task.reminders.filter(reminder => reminder.type === 'offset');
+  next.subtasks = setSubtasksCompleted(task.subtasks, false);
+  next.tags = task.tags;
+  next.priority = task.priority;
+  next.recurrence = anchored.count === null ? anchored : { ...anchored, count: anchored.count - 1 };
+  return next;
+}
+
+// "Mon", "Tue"... in the translator's locale; January 4, 1970 was a Sunday
+function weekdayName(weekday: number, i18n: Translator): string {
+  return new Date(1970, 0, 4 + weekday).toLocaleDateString(i18n.locale, { weekday: 'short' });
+}
+
+// The shortest form of a weekday's name, e.g. "M" in English
+export function weekdayInitial(weekday: number, i18n: Translator = defaultTranslator): string {
+  return new Date(1970, 0, 4 + weekday).toLocaleDateString(i18n.locale, { weekday: 'narrow' });
+}
+
+export function describeMonthlyWeekday(
+  { ordinal, weekday }: { ordinal: number; weekday: number },
+  i18n: Translator = defaultTranslator
+) {
+  return i18n.t('recurrence.monthlyWeekday', { ordinal, weekday: weekdayName(weekday, i18n) });
+}
+
+export function describeRecurrence(rule: RecurrenceRule, i18n: Translator = defaultTranslator): string {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = i18n.t('recurrence.every', { interval: rule.interval, unit });
+  if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+    const days = [...rule.weekdays].sort().map(day => weekdayName(day, i18n)).join(', ');
+    text = i18n.t('recurrence.on', { rule: text, days });
+  }
+  if (rule.frequency === 'monthly' && rule.monthlyWeekday) {
+    text = i18n.t('recurrence.on', { rule: text, days: describeMonthlyWeekday(rule.monthlyWeekday, i18n) });
+  }
+  if (rule.count !== null) text = i18n.t('recurrence.left', { rule: text, count: rule.count });
+  if (rule.until !== null) {
+    text = i18n.t('recurrence.until', { rule: text, date: new Date(rule.until).toLocaleDateString(i18n.locale) });
+  }
+  return text;
+}
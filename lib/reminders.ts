@@ -0,0 +1,126 @@
+import Task from '@/app/(tabs)/Task';
+import { formatDueDate } from '@/lib/dueDates';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+
+export type Reminder =
+  | { id: string; type: 'absolute'; at: number }
+  | { id: string; type: 'offset'; minutesBefore: number };
+
+// A single notification the notifier should deliver
+export type PlannedReminder = {
+  key: string;
+  taskId: string;
+  fireAt: number;
+  title: string;
+  body: string;
+};
+
+/**
+ * Delivers planned reminders. The app uses expo-notifications; tests and platforms
+ * without local notifications can plug in `createMemoryNotifier`.
+ */
+export interface Notifier {
+  schedule(reminder: PlannedReminder): Promise<void>;
+  cancel(key: string): Promise<void>;
+  getScheduledKeys(): Promise<string[]>;
+}
+
+// Offsets offered in the reminder picker, in minutes before the due date
+export const REMINDER_OFFSETS = [0, 15, 60, 24 * 60];
+
+export function describeReminder(reminder: Reminder, now = Date.now(), i18n: Translator = defaultTranslator): string {
+  const { t } = i18n;
+  if (reminder.type === 'absolute') return formatDueDate(reminder.at, now, i18n);
+  const minutes = reminder.minutesBefore;
+  if (minutes === 0) return t('reminder.atDueTime');
+  if (minutes % (24 * 60) === 0) return t('reminder.daysBefore', { count: minutes / (24 * 60) });
+  if (minutes % 60 === 0) return t('reminder.hoursBefore', { count: minutes / 60 });
+  return t('reminder.minutesBefore', { count: minutes });
+}
+
+// When a reminder fires for a task, or null if it can't (offset without a due date)
+export function getFireTime(reminder: Reminder, task: Task): number | null {
+  if (reminder.type === 'absolute') return reminder.at;
+  if (task.dueDate === null) return null;
+  return task.dueDate - reminder.minutesBefore * 60 * 1000;
+}
+
+// A short, stable fingerprint of a notification's text (32-bit FNV-1a, in base 36)
+function textHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Every reminder still to fire for open tasks, soonest first, worded in the translator's language
+export function planReminders(
+  tasks: Task[],
+  now = Date.now(),
+  i18n: Translator = defaultTranslator
+): PlannedReminder[] {
+  const planned: PlannedReminder[] = [];
+  for (const task of tasks) {
+    if (task.completed) continue;
+    for (const reminder of task.reminders) {
+      const fireAt = getFireTime(reminder, task);
+      if (fireAt === null || fireAt <= now) continue;
+      const title = task.title;
+      const body =
+        task.dueDate === null
+          ? i18n.t('reminder.body')
+          : i18n.t('reminder.bodyDue', { date: formatDueDate(task.dueDate, fireAt, i18n) });
+      planned.push({
+        // The fire time is part of the key so a moved due date reschedules the reminder, and
+        // the text so renaming the task or switching language rewords it
+        key: `${task.id}:${reminder.id}:${fireAt}:${textHash(`${title}\n${body}`)}`,
+        taskId: task.id,
+        fireAt,
+        title,
+        body,
+      });
+    }
+  }
+  return planned.sort((a, b) => a.fireAt - b.fireAt);
+}
+
+/**
+ * Bring the notifier in line with the tasks: cancel reminders that no longer apply
+ * and schedule new ones. Returns the resulting plan.
+ */
+export async function syncReminders(
+  notifier: Notifier,
+  tasks: Task[],
+  now = Date.now(),
+  i18n: Translator = defaultTranslator
+): Promise<PlannedReminder[]> {
+  const plan = planReminders(tasks, now, i18n);
+  const wanted = new Set(plan.map(reminder => reminder.key));
+  const scheduled = new Set(await notifier.getScheduledKeys());
+
+  for (const key of scheduled) {
+    if (!wanted.has(key)) await notifier.cancel(key);
+  }
+  for (const reminder of plan) {
+    if (!scheduled.has(reminder.key)) await notifier.schedule(reminder);
+  }
+  return plan;
+}
+
+export function createMemoryNotifier(): Notifier & { scheduled: Map<string, PlannedReminder> } {
+  const scheduled = new Map<string, PlannedReminder>();
+  return {
+    scheduled,
+    async schedule(reminder) {
+      scheduled.set(reminder.key, reminder);
+    },
+    async cancel(key) {
+      scheduled.delete(key);
+    },
+    async getScheduledKeys() {
+      return [...scheduled.keys()];
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import Task from '@/app/(tabs)/Task';
+
+export type SearchResult = {
+  task: Task;
+  score: number;
+  // Character positions in the title that matched, for highlighting
+  titleMatches: number[];
+};
+
+type TokenMatch = { score: number; indices: number[] };
+
+// Fields searched besides the title, and how much a match in them counts
+const FIELD_WEIGHTS = { title: 1, tags: 0.7, notes: 0.4 };
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start }, (_, i) => start + i);
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[\s\-_#/.]/.test(text[index - 1]);
+}
+
+// Characters of `token` in order, preferring runs of consecutive characters
+function matchSubsequence(token: string, text: string): TokenMatch | null {
+  const indices: number[] = [];
+  let from = 0;
+  for (const char of token) {
+    const index = text.indexOf(char, from);
+    if (index === -1) return null;
+    indices.push(index);
+    from = index + 1;
+  }
+  const span = indices[indices.length - 1] - indices[0] + 1;
+  // Letters scattered across a long title are a coincidence, not a match
+  if (span > token.length * 3) return null;
+  return { score: 50 * (token.length / span) + (isWordStart(text, indices[0]) ? 10 : 0), indices };
+}
+
+/**
+ * Best approximate occurrence of `token` in `text` within `maxErrors` edits (Sellers' algorithm),
+ * so "grocereis" still finds "groceries".
+ */
+function matchApproximate(token: string, text: string, maxErrors: number): TokenMatch | null {
+  const m = token.length;
+  // Cheap rejection: each edit can account for at most one of the token's characters
+  // missing from the text, which rules out most titles before the O(m·n) table
+  const available = new Map<string, number>();
+  for (const char of text) available.set(char, (available.get(char) ?? 0) + 1);
+  let missing = 0;
+  for (const char of token) {
+    const count = available.get(char) ?? 0;
+    if (count === 0) missing++;
+    else available.set(char, count - 1);
+  }
+  if (missing > maxErrors) return null;
+
+  let previous = Array.from({ length: m + 1 }, (_, i) => i);
+  let best = { errors: maxErrors + 1, end: -1 };
+
+  for (let j = 1; j <= text.length; j++) {
+    // Row 0 stays at zero so a match can start anywhere in the text
+    const current = [0];
+    for (let i = 1; i <= m; i++) {
+      const cost = token[i - 1] === text[j - 1] ? 0 : 1;
+      current[i] = Math.min(previous[i] + 1, current[i - 1] + 1, previous[i - 1] + cost);
+    }
+    if (current[m] < best.errors) best = { errors: current[m], end: j };
+    previous = current;
+  }
+
+  if (best.end === -1) return null;
+  const start = Math.max(0, best.end - m);
+  return { score: 30 - best.errors * 10, indices: range(start, best.end) };
+}
+
+export function matchToken(token: string, text: string): TokenMatch | null {
+  const index = text.indexOf(token);
+  if (index !== -1) {
+    return {
+      score: 100 + (isWordStart(text, index) ? 20 : 0) - index * 0.1,
+      indices: range(index, index + token.length),
+    };
+  }
+  const subsequence = matchSubsequence(token, text);
+  if (subsequence) return subsequence;
+  // Short tokens are too easy to match with a typo allowed
+  if (token.length < 3) return null;
+  return matchApproximate(token, text, token.length <= 5 ? 1 : 2);
+}
+
+/**
+ * Ranked, typo-tolerant search over titles, tags and notes. Every word of the query must match
+ * somewhere; results keep their original order when they score the same.
+ */
+export function searchTasks(tasks: Task[], query: string): SearchResult[] {
+  const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return tasks.map(task => ({ task, score: 0, titleMatches: [] }));
+
+  const results: SearchResult[] = [];
+  for (const task of tasks) {
+    const title = task.title.toLowerCase();
+    const tags = task.tags.join(' ');
+    const notes = task.notes.toLowerCase();
+    let score = 0;
+    const titleMatches = new Set<number>();
+
+    for (const token of tokens) {
+      const inTitle = matchToken(token, title);
+      const inTags = tags ? matchToken(token.replace(/^#/, ''), tags) : null;
+      const titleScore = (inTitle?.score ?? 0) * FIELD_WEIGHTS.title;
+      const tagScore = (inTags?.score ?? 0) * FIELD_WEIGHTS.tags;
+      const inNotes = notes ? matchToken(token, notes) : null;
+      const notesScore = (inNotes?.score ?? 0) * FIELD_WEIGHTS.notes;
+      if (!inTitle && !inTags && !inNotes) {
+        score = -1;
+        break;
+      }
+      score += Math.max(titleScore, tagScore, notesScore);
+      inTitle?.indices.forEach(index => titleMatches.add(index));
+    }
+
+    if (score >= 0) {
+      results.push({ task, score, titleMatches: [...titleMatches].sort((a, b) => a - b) });
+    }
+  }
+  return results.sort((a, b) => b.score - a.score);
+}
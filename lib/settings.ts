@@ -0,0 +1,79 @@
+import { LANGUAGE_OPTIONS, type LanguagePreference } from '@/lib/i18n';
+import { SORT_OPTIONS, type SortOrder } from '@/lib/sorting';
+import { isHexColor, THEME_OPTIONS, type ThemePreference } from '@/lib/theme';
+
+// Where completed tasks go in a list: among the others, after them, or out of sight
+export type CompletedPosition = 'inline' | 'bottom' | 'hidden';
+
+export const COMPLETED_POSITIONS: { value: CompletedPosition; label: string }[] = [
+  { value: 'inline', label: 'In place' },
+  { value: 'bottom', label: 'At the bottom' },
+  { value: 'hidden', label: 'Hidden' },
+];
+
+// Day weeks start on, as in Date#getDay: Sunday is 0
+export type WeekStart = 0 | 1 | 6;
+
+export const WEEK_STARTS: { value: WeekStart; label: string }[] = [
+  { value: 1, label: 'Monday' },
+  { value: 0, label: 'Sunday' },
+  { value: 6, label: 'Saturday' },
+];
+
+// Preferences that apply across the app, saved on this device
+export type Settings = {
+  language: LanguagePreference;
+  theme: ThemePreference;
+  // Replaces the theme's accent color; null keeps the theme's own
+  accent: string | null;
+  // How new lists are sorted; each list remembers its own sort after that
+  defaultSort: SortOrder;
+  confirmDelete: boolean;
+  haptics: boolean;
+  // Turns animations off even when the system's reduce motion setting is off
+  reduceMotion: boolean;
+  completedTasks: CompletedPosition;
+  weekStartsOn: WeekStart;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  language: 'system',
+  theme: 'system',
+  accent: null,
+  defaultSort: 'manual',
+  confirmDelete: false,
+  haptics: true,
+  reduceMotion: false,
+  completedTasks: 'inline',
+  weekStartsOn: 1,
+};
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isOneOf = (options: { value: unknown }[]) => (value: unknown) =>
+  options.some(option => option.value === value);
+
+const validators: { [K in keyof Settings]: (value: unknown) => boolean } = {
+  language: isOneOf(LANGUAGE_OPTIONS),
+  theme: isOneOf(THEME_OPTIONS),
+  accent: value => value === null || isHexColor(value),
+  defaultSort: isOneOf(SORT_OPTIONS),
+  confirmDelete: isBoolean,
+  haptics: isBoolean,
+  reduceMotion: isBoolean,
+  completedTasks: isOneOf(COMPLETED_POSITIONS),
+  weekStartsOn: isOneOf(WEEK_STARTS),
+};
+
+/**
+ * Settings from untrusted data, like storage written by another version of the app. Each
+ * setting that's missing or invalid falls back to `fallback` on its own, so one bad value
+ * never resets the rest.
+ */
+export function validateSettings(value: unknown, fallback = DEFAULT_SETTINGS): Settings {
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const settings = { ...fallback };
+  for (const key of Object.keys(validators) as (keyof Settings)[]) {
+    if (validators[key](raw[key])) Object.assign(settings, { [key]: raw[key] });
+  }
+  return settings;
+}
@@ -0,0 +1,21 @@
+import { DEFAULT_SETTINGS, validateSettings, type Settings } from '@/lib/settings';
+import { createVersionedStore, type Migration } from '@/lib/versionedStore';
+
+// See `createVersionedStore` for how migrations run.
+const migrations: Migration[] = [];
+
+const store = createVersionedStore<Settings>({
+  key: '@settings',
+  field: 'settings',
+  migrations,
+  fallback: () => DEFAULT_SETTINGS,
+});
+
+export async function loadSettings(): Promise<Settings> {
+  // Settings added since they were last saved take their defaults
+  return validateSettings(await store.load());
+}
+
+export async function saveSettings(settings: Settings) {
+  await store.save(settings);
+}
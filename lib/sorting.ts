@@ -0,0 +1,46 @@
+import Task from '@/app/(tabs)/Task';
+import { byOrder } from '@/lib/ordering';
+import { getPriority } from '@/lib/priority';
+import { type CompletedPosition } from '@/lib/settings';
+
+export type SortOrder = 'manual' | 'priority' | 'dueDate' | 'title' | 'createdAt' | 'completedLast';
+
+export const SORT_OPTIONS: { value: SortOrder; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'dueDate', label: 'Due date' },
+  { value: 'title', label: 'Title' },
+  { value: 'createdAt', label: 'Created date' },
+  { value: 'completedLast', label: 'Completed last' },
+];
+
+type Comparator = (a: Task, b: Task) => number;
+
+const byCompleted: Comparator = (a, b) => Number(a.completed) - Number(b.completed);
+// Tasks without a due date go after those with one. Infinity - Infinity is NaN, so they're
+// compared by hand rather than as an infinitely late date
+const byDueDate: Comparator = (a, b) => {
+  if (a.dueDate === null || b.dueDate === null) return Number(a.dueDate === null) - Number(b.dueDate === null);
+  return a.dueDate - b.dueDate;
+};
+
+const comparators: Record<SortOrder, Comparator> = {
+  manual: byOrder,
+  priority: (a, b) => getPriority(b.priority).rank - getPriority(a.priority).rank || byDueDate(a, b),
+  dueDate: (a, b) => byDueDate(a, b) || getPriority(b.priority).rank - getPriority(a.priority).rank,
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }),
+  createdAt: (a, b) => b.createdAt - a.createdAt,
+  completedLast: byCompleted,
+};
+
+// Returns a sorted copy; ties keep their manual order since Array#sort is stable
+export function sortTasks(tasks: Task[], order: SortOrder): Task[] {
+  const manual = [...tasks].sort(byOrder);
+  return order === 'manual' ? manual : manual.sort(comparators[order]);
+}
+
+// Where settings put completed tasks: left where they sort, moved after the open ones, or left out
+export function placeCompleted(tasks: Task[], position: CompletedPosition): Task[] {
+  if (position === 'hidden') return tasks.filter(task => !task.completed);
+  return position === 'bottom' ? [...tasks].sort(byCompleted) : tasks;
+}
@@ -0,0 +1,191 @@
+import Task from '@/app/(tabs)/Task';
+import { startOfDay } from '@/lib/dueDates';
+import { defaultTranslator, type Translator } from '@/lib/i18n';
+import { type Priority } from '@/lib/priority';
+
+/**
+ * Productivity stats, worked out from a history of completions kept apart from the tasks
+ * themselves, so deleting or archiving a task doesn't rewrite what was done.
+ */
+
+export type CompletionRecord = {
+  taskId: string;
+  listId: string;
+  tags: string[];
+  priority: Priority;
+  createdAt: number;
+  completedAt: number;
+};
+
+export type CompletionHistory = {
+  // When each task this device has seen was created, by task id
+  created: Record<string, number>;
+  completions: CompletionRecord[];
+};
+
+export const EMPTY_COMPLETION_HISTORY: CompletionHistory = { created: {}, completions: [] };
+
+const toRecord = (task: Task, completedAt: number): CompletionRecord => ({
+  taskId: task.id,
+  listId: task.listId,
+  tags: task.tags,
+  priority: task.priority,
+  createdAt: task.createdAt,
+  completedAt,
+});
+
+/**
+ * Record what changed between two versions of the task list: new tasks, tasks ticked off,
+ * and tasks un-ticked, which take back their latest completion. Without a `before` (the
+ * first load) completed tasks that were never recorded are backfilled instead. Returns
+ * `history` itself when nothing changed.
+ */
+export function recordCompletions(
+  history: CompletionHistory,
+  before: Task[] | null,
+  after: Task[],
+  now = Date.now()
+): CompletionHistory {
+  let created = history.created;
+  let completions = history.completions;
+  const previous = new Map(before?.map(task => [task.id, task]));
+
+  for (const task of after) {
+    if (!(task.id in created)) created = { ...created, [task.id]: task.createdAt };
+
+    if (before === null) {
+      if (task.completed && !completions.some(record => record.taskId === task.id)) {
+        completions = [...completions, toRecord(task, task.completedAt ?? task.updatedAt)];
+      }
+      continue;
+    }
+    const prev = previous.get(task.id);
+    if (!prev || prev.completed === task.completed) continue;
+    if (task.completed) {
+      completions = [...completions, toRecord(task, task.completedAt ?? now)];
+    } else {
+      const index = completions.findLastIndex(record => record.taskId === task.id);
+      if (index !== -1) completions = completions.filter((_, i) => i !== index);
+    }
+  }
+
+  return created === history.created && completions === history.completions
+    ? history
+    : { created, completions };
+}
+
+export type StatsPeriod = 'day' | 'week';
+
+export type ActivityBucket = {
+  // Start of the day or week
+  start: number;
+  created: number;
+  completed: number;
+};
+
+// Start of the week containing `time`; weeks start on `weekStartsOn` (0 is Sunday)
+export function startOfWeek(time: number, weekStartsOn = 1): number {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() - ((date.getDay() - weekStartsOn + 7) % 7));
+  return date.getTime();
+}
+
+// Calendar arithmetic rather than fixed lengths, so daylight saving changes don't shift buckets
+function addDays(time: number, days: number): number {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+// Tasks created and completed in each of the last `count` days or weeks, oldest first
+export function getActivity(
+  history: CompletionHistory,
+  period: StatsPeriod,
+  count: number,
+  now = Date.now(),
+  weekStartsOn = 1
+): ActivityBucket[] {
+  const step = period === 'day' ? 1 : 7;
+  const current = period === 'day' ? startOfDay(now) : startOfWeek(now, weekStartsOn);
+  const buckets = Array.from({ length: count }, (_, i) => ({
+    start: addDays(current, (i - count + 1) * step),
+    created: 0,
+    completed: 0,
+  }));
+  const end = addDays(buckets[buckets.length - 1].start, step);
+  const bucketFor = (time: number) =>
+    time >= end ? undefined : buckets.findLast(bucket => time >= bucket.start);
+
+  for (const createdAt of Object.values(history.created)) {
+    const bucket = bucketFor(createdAt);
+    if (bucket) bucket.created++;
+  }
+  for (const record of history.completions) {
+    const bucket = bucketFor(record.completedAt);
+    if (bucket) bucket.completed++;
+  }
+  return buckets;
+}
+
+export type Streaks = {
+  // Days in a row with at least one completion, up to today; a day without any yet doesn't break it
+  current: number;
+  longest: number;
+};
+
+export function getStreaks(history: CompletionHistory, now = Date.now()): Streaks {
+  const days = [...new Set(history.completions.map(record => startOfDay(record.completedAt)))].sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && addDays(days[i - 1], 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const today = startOfDay(now);
+  const done = new Set(days);
+  let current = 0;
+  let day = done.has(today) ? today : addDays(today, -1);
+  while (done.has(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+  return { current, longest };
+}
+
+// Mean time from creation to completion, or null before anything has been completed
+export function getAverageTimeToComplete(history: CompletionHistory): number | null {
+  if (history.completions.length === 0) return null;
+  const total = history.completions.reduce(
+    (sum, record) => sum + Math.max(0, record.completedAt - record.createdAt),
+    0
+  );
+  return total / history.completions.length;
+}
+
+export type Breakdown = 'list' | 'tag' | 'priority';
+
+/**
+ * Completions grouped by list id, tag or priority, most first. A task with several tags
+ * counts once for each of them; untagged tasks are grouped under ''.
+ */
+export function getBreakdown(history: CompletionHistory, by: Breakdown): { key: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const record of history.completions) {
+    const keys = by === 'list' ? [record.listId] : by === 'priority' ? [record.priority] : record.tags;
+    for (const key of keys.length > 0 ? keys : ['']) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// "3 days", "5 hours", "20 minutes"
+export function formatDuration(ms: number, i18n: Translator = defaultTranslator): string {
+  const { t } = i18n;
+  if (ms >= 24 * HOUR_MS) return t('stats.durationDays', { count: Math.round(ms / (24 * HOUR_MS)) });
+  if (ms >= HOUR_MS) return t('stats.durationHours', { count: Math.round(ms / HOUR_MS) });
+  return t('stats.durationMinutes', { count: Math.round(ms / (60 * 1000)) });
+}
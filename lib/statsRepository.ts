@@ -0,0 +1,21 @@
+import { EMPTY_COMPLETION_HISTORY, type CompletionHistory } from '@/lib/stats';
+import { createVersionedStore, type Migration } from '@/lib/versionedStore';
+
+// See `createVersionedStore` for how migrations run.
+const migrations: Migration[] = [];
+
+// Kept apart from `@tasks` so stats outlive the tasks they count
+const store = createVersionedStore<CompletionHistory>({
+  key: '@stats',
+  field: 'stats',
+  migrations,
+  fallback: () => EMPTY_COMPLETION_HISTORY,
+});
+
+export async function loadCompletionHistory(): Promise<CompletionHistory> {
+  return store.load();
+}
+
+export async function saveCompletionHistory(history: CompletionHistory) {
+  await store.save(history);
+}
@@ -0,0 +1,31 @@
+import Task from '@/app/(tabs)/Task';
+
+/**
+ * A checklist step inside a task. Steps live and die with their parent: removing a task
+ * removes its steps, completing it completes them all, and reopening any step reopens
+ * the parent so a done task never hides unfinished work.
+ */
+export type Subtask = {
+  id: string;
+  title: string;
+  completed: boolean;
+};
+
+export function getSubtaskProgress(task: Task) {
+  const done = task.subtasks.filter(subtask => subtask.completed).length;
+  return { done, total: task.subtasks.length };
+}
+
+export function setSubtasksCompleted(subtasks: Subtask[], completed: boolean): Subtask[] {
+  return subtasks.map(subtask => ({ ...subtask, completed }));
+}
+
+export function toggleSubtask(task: Task, subtaskId: string): Partial<Task> {
+  const subtasks = task.subtasks.map(subtask =>
+    subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask
+  );
+  const reopened = subtasks.some(subtask => subtask.id === subtaskId && !subtask.completed);
+  return task.completed && reopened
+    ? { subtasks, completed: false, completedAt: null }
+    : { subtasks };
+}
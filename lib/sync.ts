@@ -0,0 +1,249 @@
+import Task, { type TaskData } from '@/app/(tabs)/Task';
+import { type ArchivedTask } from '@/lib/archive';
+import { toData, toTask } from '@/lib/taskRepository';
+
+/**
+ * Offline-first sync of tasks between devices. Local changes become ops that are applied
+ * straight away and queued for the server, which keeps nothing but an ordered log of ops.
+ * Every device merges ops field by field, the latest write winning, so devices converge on
+ * the same tasks whatever order they see each other's changes in. Archiving is synced as a
+ * change to `archivedAt`, so other devices archive the task too rather than deleting it.
+ */
+
+// When a write happened and which device made it; the device id breaks ties
+export type Stamp = { time: number; device: string };
+
+// A task as synced: active and archived tasks alike, with `archivedAt` null for active ones
+type SyncedTask = TaskData & { archivedAt: number | null };
+type SyncedData = Omit<SyncedTask, 'id'>;
+type SyncedField = keyof SyncedData;
+
+export type SyncOp = {
+  id: string;
+  taskId: string;
+  stamp: Stamp;
+  // The fields written, or null when the task was deleted
+  fields: Partial<SyncedData> | null;
+  // Position in the server's log, once it has one
+  revision?: number;
+};
+
+export type SyncRecord = {
+  id: string;
+  fields: Partial<Record<SyncedField, { value: unknown; stamp: Stamp }>>;
+  // Tombstone: the task was deleted at this stamp, unless a field has been written since
+  deleted: Stamp | null;
+  // Revision of the last server op applied to the task, and the time of its latest write
+  revision: number;
+  updatedAt: number;
+};
+
+export type SyncState = {
+  deviceId: string;
+  // Base URL of the sync server, or null while sync is off
+  endpoint: string | null;
+  records: Record<string, SyncRecord>;
+  // Local ops the server hasn't acknowledged yet
+  queue: SyncOp[];
+  // Server revision we've pulled up to
+  cursor: number;
+  // Latest write time seen from any device, so our next write sorts after all of them
+  clock: number;
+  lastSyncedAt: number | null;
+};
+
+export interface SyncTransport {
+  // Append ops to the server's log; ops it already has are ignored
+  push(ops: SyncOp[]): Promise<void>;
+  // Ops logged after revision `since`, and the revision they bring us up to
+  pull(since: number): Promise<{ ops: SyncOp[]; revision: number }>;
+}
+
+export function createSyncState(deviceId: string, endpoint: string | null = null): SyncState {
+  return { deviceId, endpoint, records: {}, queue: [], cursor: 0, clock: 0, lastSyncedAt: null };
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.time !== b.time) return a.time - b.time;
+  return a.device < b.device ? -1 : a.device > b.device ? 1 : 0;
+}
+
+export function isAlive(record: SyncRecord): boolean {
+  const { deleted } = record;
+  return deleted === null || Object.values(record.fields).some(field => compareStamps(field.stamp, deleted) > 0);
+}
+
+// Merge one op into the records. Applying an op twice, or ops in any order, gives the same result.
+export function applyOp(records: Record<string, SyncRecord>, op: SyncOp): Record<string, SyncRecord> {
+  const record = records[op.taskId] ?? { id: op.taskId, fields: {}, deleted: null, revision: 0, updatedAt: 0 };
+  const next: SyncRecord = {
+    ...record,
+    fields: { ...record.fields },
+    revision: Math.max(record.revision, op.revision ?? 0),
+    updatedAt: Math.max(record.updatedAt, op.stamp.time),
+  };
+
+  if (op.fields === null) {
+    if (!next.deleted || compareStamps(op.stamp, next.deleted) > 0) next.deleted = op.stamp;
+  } else {
+    for (const [field, value] of Object.entries(op.fields) as [SyncedField, unknown][]) {
+      const current = next.fields[field];
+      if (!current || compareStamps(op.stamp, current.stamp) > 0) next.fields[field] = { value, stamp: op.stamp };
+    }
+  }
+  return { ...records, [op.taskId]: next };
+}
+
+const activeData = (task: Task): SyncedTask => ({ ...toData(task), archivedAt: null });
+
+function dataFromRecord(record: SyncRecord): SyncedTask {
+  const data: SyncedTask = activeData(new Task(record.id, ''));
+  for (const [field, { value }] of Object.entries(record.fields)) {
+    (data as Record<string, unknown>)[field] = value;
+  }
+  return data;
+}
+
+// Fields of a task that differ from what the records hold; all of them for a task the records don't have
+function changedFields(data: SyncedTask, record: SyncRecord | undefined): Partial<SyncedData> {
+  const { id, ...fields } = data;
+  const known = record && isAlive(record);
+  return Object.fromEntries(
+    Object.entries(fields).filter(
+      ([field, value]) =>
+        !known || JSON.stringify(record.fields[field as SyncedField]?.value) !== JSON.stringify(value)
+    )
+  );
+}
+
+/**
+ * Turn whatever changed in the tasks since the records last saw them into queued ops, already
+ * applied to the records. Comparing against the records rather than the previous render means
+ * changes made while sync was off are picked up too.
+ */
+export function recordLocalChanges(
+  state: SyncState,
+  tasks: Task[],
+  archived: ArchivedTask[],
+  now = Date.now()
+): SyncState {
+  const stamp: Stamp = { time: Math.max(now, state.clock + 1), device: state.deviceId };
+  const opId = (taskId: string) => `${stamp.device}-${stamp.time}-${taskId}`;
+  const ops: SyncOp[] = [];
+
+  // Only a task that's neither in the list nor in the archive has been deleted
+  const synced: SyncedTask[] = [...tasks.map(activeData), ...archived];
+  const present = new Set(synced.map(task => task.id));
+  for (const task of synced) {
+    const fields = changedFields(task, state.records[task.id]);
+    if (Object.keys(fields).length > 0) ops.push({ id: opId(task.id), taskId: task.id, stamp, fields });
+  }
+  for (const record of Object.values(state.records)) {
+    if (!present.has(record.id) && isAlive(record)) {
+      ops.push({ id: opId(record.id), taskId: record.id, stamp, fields: null });
+    }
+  }
+
+  if (ops.length === 0) return state;
+  return {
+    ...state,
+    records: ops.reduce(applyOp, state.records),
+    queue: [...state.queue, ...ops],
+    clock: stamp.time,
+  };
+}
+
+// Drop ops the server has accepted from the queue
+export function acknowledge(state: SyncState, pushed: SyncOp[]): SyncState {
+  const ids = new Set(pushed.map(op => op.id));
+  return { ...state, queue: state.queue.filter(op => !ids.has(op.id)) };
+}
+
+// Merge ops pulled from the server, returning the ids of the tasks they touched
+export function receive(
+  state: SyncState,
+  ops: SyncOp[],
+  revision: number,
+  now = Date.now()
+): { state: SyncState; taskIds: string[] } {
+  return {
+    state: {
+      ...state,
+      records: ops.reduce(applyOp, state.records),
+      cursor: Math.max(state.cursor, revision),
+      clock: ops.reduce((clock, op) => Math.max(clock, op.stamp.time), state.clock),
+      lastSyncedAt: now,
+    },
+    taskIds: [...new Set(ops.map(op => op.taskId))],
+  };
+}
+
+// Bring `items` with the given ids in line with the records. `fromSynced` turns a record's data
+// into an item, or null when the task belongs in the other collection.
+function mergeRecords<T extends { id: string }>(
+  items: T[],
+  records: Record<string, SyncRecord>,
+  taskIds: string[],
+  toSynced: (item: T) => SyncedTask,
+  fromSynced: (data: SyncedTask, previous: T | undefined) => T | null
+): T[] {
+  const remaining = new Set(taskIds);
+  const next = items.flatMap(item => {
+    if (!remaining.delete(item.id)) return [item];
+    const record = records[item.id];
+    if (!record || !isAlive(record)) return [];
+    if (Object.keys(changedFields(toSynced(item), record)).length === 0) return [item];
+    const updated = fromSynced(dataFromRecord(record), item);
+    return updated ? [updated] : [];
+  });
+
+  for (const id of remaining) {
+    const record = records[id];
+    const added = record && isAlive(record) ? fromSynced(dataFromRecord(record), undefined) : null;
+    if (added) next.push(added);
+  }
+  return next;
+}
+
+/**
+ * Bring the tasks with the given ids in line with the records: updated in place, removed if
+ * deleted or archived, or added at the end if new or restored. Other tasks, and tasks that
+ * didn't change, keep their identity so nothing else sees a change.
+ */
+export function applyRecords(tasks: Task[], records: Record<string, SyncRecord>, taskIds: string[]): Task[] {
+  return mergeRecords(tasks, records, taskIds, activeData, ({ archivedAt, ...data }, previous) =>
+    archivedAt === null ? Object.assign(toTask(data), { isEditing: previous?.isEditing ?? false }) : null
+  );
+}
+
+// The same for the archive, which holds the tasks whose records have an archive time
+export function applyArchivedRecords(
+  archived: ArchivedTask[],
+  records: Record<string, SyncRecord>,
+  taskIds: string[]
+): ArchivedTask[] {
+  return mergeRecords(archived, records, taskIds, task => task, ({ archivedAt, ...data }) =>
+    archivedAt === null ? null : { ...data, archivedAt }
+  );
+}
+
+// Talks to a server with the API of scripts/mock-sync-server.js
+export function createHttpTransport(endpoint: string): SyncTransport {
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.json();
+  };
+
+  return {
+    async push(ops) {
+      await request('/ops', { method: 'POST', body: JSON.stringify({ ops }) });
+    },
+    async pull(since) {
+      return request(`/ops?since=${since}`);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { createSyncState, type SyncState } from '@/lib/sync';
+import { createVersionedStore, type Migration } from '@/lib/versionedStore';
+
+// See `createVersionedStore` for how migrations run.
+const migrations: Migration[] = [];
+
+// Identifies this install in sync stamps, and breaks ties between writes made in the same millisecond
+function createDeviceId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+const store = createVersionedStore<SyncState>({
+  key: '@sync',
+  field: 'sync',
+  migrations,
+  // A build can ship with a server configured, e.g. EXPO_PUBLIC_SYNC_URL=http://192.168.1.20:4000
+  fallback: () => createSyncState(createDeviceId(), process.env.EXPO_PUBLIC_SYNC_URL || null),
+});
+
+export async function loadSyncState(): Promise<SyncState> {
+  return store.load();
+}
+
+export async function saveSyncState(state: SyncState) {
+  await store.save(state);
+}
@@ -0,0 +1,91 @@
+import Task from '@/app/(tabs)/Task';
+
+export type StatusFilter = 'all' | 'open' | 'completed';
+
+export type TaskFilter = {
+  status: StatusFilter;
+  // A task must carry every selected tag
+  tags: string[];
+};
+
+export const EMPTY_FILTER: TaskFilter = { status: 'all', tags: [] };
+
+// Tags are stored lowercase without the leading '#', with spaces turned into dashes
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+}
+
+export function addTag(tags: string[], tag: string): string[] {
+  const normalized = normalizeTag(tag);
+  return normalized === '' || tags.includes(normalized) ? tags : [...tags, normalized];
+}
+
+// Tags in use across tasks, most used first
+export function getTagCounts(tasks: Task[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const task of tasks) {
+    for (const tag of task.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// Tags in use that start with (or otherwise contain) what's been typed so far
+export function getTagSuggestions(tasks: Task[], query: string, exclude: string[] = []): string[] {
+  const normalized = normalizeTag(query);
+  const candidates = getTagCounts(tasks)
+    .map(({ tag }) => tag)
+    .filter(tag => !exclude.includes(tag) && tag.includes(normalized));
+  return [
+    ...candidates.filter(tag => tag.startsWith(normalized)),
+    ...candidates.filter(tag => !tag.startsWith(normalized)),
+  ];
+}
+
+// Rename a tag on every task; renaming onto an existing tag merges the two
+export function renameTag(tasks: Task[], from: string, to: string): Task[] {
+  const target = normalizeTag(to);
+  if (target === '' || target === from) return tasks;
+  return tasks.map(task =>
+    task.tags.includes(from)
+      ? { ...task, tags: addTag(task.tags.filter(tag => tag !== from), target) }
+      : task
+  );
+}
+
+export function deleteTag(tasks: Task[], tag: string): Task[] {
+  return tasks.map(task =>
+    task.tags.includes(tag) ? { ...task, tags: task.tags.filter(t => t !== tag) } : task
+  );
+}
+
+// Tags carried by every one of `tasks`
+export function getSharedTags(tasks: Task[]): string[] {
+  if (tasks.length === 0) return [];
+  return tasks[0].tags.filter(tag => tasks.every(task => task.tags.includes(tag)));
+}
+
+/**
+ * Retag several tasks at once. `from` and `to` are the tags the tasks shared before and
+ * after the edit, so tags only some of them carry are left alone.
+ */
+export function retagTasks(tasks: Task[], ids: string[], from: string[], to: string[]): Task[] {
+  const added = to.filter(tag => !from.includes(tag));
+  const removed = from.filter(tag => !to.includes(tag));
+  return tasks.map(task =>
+    ids.includes(task.id)
+      ? { ...task, tags: added.reduce(addTag, task.tags.filter(tag => !removed.includes(tag))) }
+      : task
+  );
+}
+
+export function matchesFilter(task: Task, filter: TaskFilter): boolean {
+  if (filter.status === 'open' && task.completed) return false;
+  if (filter.status === 'completed' && !task.completed) return false;
+  return filter.tags.every(tag => task.tags.includes(tag));
+}
+
+export function isFilterActive(filter: TaskFilter): boolean {
+  return filter.status !== 'all' || filter.tags.length > 0;
+}
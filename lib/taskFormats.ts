@@ -0,0 +1,591 @@
+import Task, { type TaskData } from '@/app/(tabs)/Task';
+import { type MessageKey } from '@/constants/Messages';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { DEFAULT_DUE_HOUR } from '@/lib/dueDates';
+import { type MessageValues } from '@/lib/i18n';
+import { parseICalendar, toICalendar } from '@/lib/ical';
+import { type TaskList } from '@/lib/lists';
+import { PRIORITIES, type Priority } from '@/lib/priority';
+import { createRule, type RecurrenceRule } from '@/lib/recurrence';
+import { addTag } from '@/lib/tags';
+import { migrateTasks, SCHEMA_VERSION, toData } from '@/lib/taskRepository';
+
+/**
+ * Serialising tasks to and from the formats we import and export. JSON keeps every field of
+ * the tasks and lists, though not archived tasks; CSV, Markdown checklists, todo.txt and
+ * iCalendar carry what those formats can express.
+ */
+
+export type TransferFormat = 'json' | 'csv' | 'markdown' | 'todotxt' | 'ical';
+
+export const TRANSFER_FORMATS: { value: TransferFormat; label: string; extension: string }[] = [
+  { value: 'json', label: 'JSON', extension: 'json' },
+  { value: 'csv', label: 'CSV', extension: 'csv' },
+  { value: 'markdown', label: 'Markdown', extension: 'md' },
+  { value: 'todotxt', label: 'todo.txt', extension: 'txt' },
+  { value: 'ical', label: 'iCalendar', extension: 'ics' },
+];
+
+// A task read from a file, with the name of the list it came from when the format has lists
+export type ImportEntry = {
+  task: TaskData;
+  listName: string | null;
+  // The fields the file carries, when replacing an existing task should leave the rest alone
+  fields?: (keyof TaskData)[];
+};
+
+// A catalog message and its values, translated by the screen that shows it
+export type ImportText = { key: MessageKey; values?: MessageValues };
+
+export type ImportIssue = {
+  // Where in the file, e.g. "Line 4"
+  where: ImportText;
+  message: ImportText;
+};
+
+const inFile: ImportText = { key: 'transfer.where.file' };
+const atLine = (line: number): ImportText => ({ key: 'transfer.where.line', values: { line } });
+const atTask = (index: number): ImportText => ({ key: 'transfer.where.task', values: { index } });
+
+export type ParsedImport = {
+  entries: ImportEntry[];
+  errors: ImportIssue[];
+};
+
+const CSV_COLUMNS = ['title', 'completed', 'due', 'priority', 'tags', 'list', 'repeat', 'created', 'completed_at', 'id'];
+
+// todo.txt priorities run from (A) down; anything past (D) reads as low
+const PRIORITY_LETTERS: Partial<Record<Priority, string>> = { urgent: 'A', high: 'B', medium: 'C', low: 'D' };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Line-based formats have one task per line, so titles can't carry line breaks
+const oneLine = (text: string) => text.replace(/\s*[\r\n]+\s*/g, ' ');
+
+// Local calendar day as YYYY-MM-DD
+function formatDay(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// A YYYY-MM-DD day, at `hour` local time; null if it isn't a real date
+function parseDay(text: string, hour = 0): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), hour);
+  return date.getMonth() === Number(match[2]) - 1 ? date.getTime() : null;
+}
+
+// A full ISO timestamp, or a bare day which gets the default due time
+export function parseDate(text: string): number | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return parseDay(text, DEFAULT_DUE_HOUR);
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? null : time;
+}
+
+function parsePriorityWord(word: string): Priority | null {
+  return PRIORITIES.find(priority => priority.value === word.toLowerCase())?.value ?? null;
+}
+
+function parsePriorityLetter(letter: string): Priority {
+  const priority = Object.entries(PRIORITY_LETTERS).find(([, value]) => value === letter.toUpperCase());
+  return (priority?.[0] as Priority | undefined) ?? 'low';
+}
+
+/**
+ * Repeats in the `rec:` style used by todo.txt clients: `1d`, `2w`, `1m`, `1y`, and `1b` for
+ * weekdays. Specific weekdays, monthly weekdays and end conditions have no equivalent.
+ */
+function encodeRepeat(rule: RecurrenceRule): string {
+  if (rule.frequency === 'weekly' && rule.weekdays.join() === '1,2,3,4,5') return '1b';
+  return `${rule.interval}${{ daily: 'd', weekly: 'w', monthly: 'm' }[rule.frequency]}`;
+}
+
+function decodeRepeat(text: string): RecurrenceRule | null {
+  const match = /^\+?(\d+)([dwmyb])$/i.exec(text);
+  if (!match || Number(match[1]) < 1) return null;
+  const interval = Number(match[1]);
+  switch (match[2].toLowerCase()) {
+    case 'd':
+      return { ...createRule('daily'), interval };
+    case 'w':
+      return { ...createRule('weekly'), interval };
+    case 'm':
+      return { ...createRule('monthly'), interval };
+    case 'y':
+      return { ...createRule('monthly'), interval: interval * 12 };
+    default:
+      return { ...createRule('weekly'), weekdays: [1, 2, 3, 4, 5] };
+  }
+}
+
+function createTaskData(id: string, title: string, now: number): TaskData {
+  return toData(new Task(id, title, false, false, now));
+}
+
+// Lists are matched by name, ignoring case and the dashes todo.txt uses for spaces
+export function sameListName(a: string, b: string): boolean {
+  const normalize = (name: string) => name.trim().toLowerCase().replace(/[-_\s]+/g, ' ');
+  return normalize(a) === normalize(b);
+}
+
+type Inline = {
+  title: string;
+  tags: string[];
+  lists: string[];
+  priority: Priority | null;
+  dueDate: number | null;
+  recurrence: RecurrenceRule | null;
+  errors: ImportText[];
+};
+
+/**
+ * Split a Markdown item or todo.txt line into its title and `key:value`, `#tag`, `@tag`,
+ * `+list` and `!priority` markers. Words that merely contain a colon, like URLs, stay in the title.
+ */
+function parseInline(text: string, style: 'markdown' | 'todotxt'): Inline {
+  const result: Inline = { title: '', tags: [], lists: [], priority: null, dueDate: null, recurrence: null, errors: [] };
+  const words: string[] = [];
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const [key, value] = word.split(/:(.*)/s);
+    if (style === 'markdown' && /^#[^#\s]+$/.test(word)) {
+      result.tags = addTag(result.tags, word);
+    } else if (style === 'markdown' && /^![a-z]+$/i.test(word) && parsePriorityWord(word.slice(1))) {
+      result.priority = parsePriorityWord(word.slice(1));
+    } else if (style === 'todotxt' && /^@\S+$/.test(word)) {
+      result.tags = addTag(result.tags, word.slice(1));
+    } else if (style === 'todotxt' && /^\+\S+$/.test(word)) {
+      result.lists.push(word.slice(1));
+    } else if (style === 'todotxt' && key === 'pri' && value) {
+      result.priority = parsePriorityLetter(value);
+    } else if (key === 'due' && value) {
+      result.dueDate = parseDay(value, DEFAULT_DUE_HOUR);
+      if (result.dueDate === null) result.errors.push({ key: 'transfer.issue.invalidDueDate', values: { value } });
+    } else if (key === 'rec' && value) {
+      result.recurrence = decodeRepeat(value);
+      if (!result.recurrence) result.errors.push({ key: 'transfer.issue.invalidRepeat', values: { value } });
+    } else {
+      words.push(word);
+    }
+  }
+
+  result.title = words.join(' ');
+  if (result.title === '') result.errors.push({ key: 'transfer.issue.noTitle' });
+  return result;
+}
+
+// Markers shared by the Markdown and todo.txt exports
+function inlineMarkers(task: Task): string[] {
+  return [
+    task.dueDate !== null ? `due:${formatDay(task.dueDate)}` : '',
+    task.recurrence ? `rec:${encodeRepeat(task.recurrence)}` : '',
+  ].filter(Boolean);
+}
+
+function exportJson(tasks: Task[], lists: TaskList[], now: number): string {
+  return JSON.stringify(
+    {
+      app: 'todoapp',
+      version: SCHEMA_VERSION,
+      exportedAt: new Date(now).toISOString(),
+      lists,
+      tasks: tasks.map(toData),
+    },
+    null,
+    2
+  );
+}
+
+function exportCsv(tasks: Task[], lists: TaskList[]): string {
+  const listName = (id: string) => lists.find(list => list.id === id)?.name ?? '';
+  const iso = (time: number | null) => (time === null ? '' : new Date(time).toISOString());
+  return toCsv([
+    CSV_COLUMNS,
+    ...tasks.map(task => [
+      task.title,
+      String(task.completed),
+      iso(task.dueDate),
+      task.priority === 'none' ? '' : task.priority,
+      task.tags.join(' '),
+      listName(task.listId),
+      task.recurrence ? encodeRepeat(task.recurrence) : '',
+      iso(task.createdAt),
+      iso(task.completedAt),
+      task.id,
+    ]),
+  ]);
+}
+
+function exportMarkdown(tasks: Task[], lists: TaskList[]): string {
+  const checkbox = (completed: boolean) => (completed ? '[x]' : '[ ]');
+  return lists
+    .map(list => ({ list, tasks: tasks.filter(task => task.listId === list.id) }))
+    .filter(group => group.tasks.length > 0)
+    .map(({ list, tasks }) => {
+      const lines = tasks.flatMap(task => [
+        [
+          `- ${checkbox(task.completed)} ${oneLine(task.title)}`,
+          ...task.tags.map(tag => `#${tag}`),
+          task.priority === 'none' ? '' : `!${task.priority}`,
+          ...inlineMarkers(task),
+        ]
+          .filter(Boolean)
+          .join(' '),
+        ...task.subtasks.map(step => `  - ${checkbox(step.completed)} ${oneLine(step.title)}`),
+      ]);
+      return [`## ${list.name}`, '', ...lines].join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+function exportTodoTxt(tasks: Task[], lists: TaskList[]): string {
+  const listName = (id: string) => lists.find(list => list.id === id)?.name;
+  return tasks
+    .map(task => {
+      const letter = PRIORITY_LETTERS[task.priority];
+      const list = listName(task.listId);
+      const dates = task.completed
+        ? // A completion date must be followed by the creation date
+          task.completedAt !== null ? [formatDay(task.completedAt), formatDay(task.createdAt)] : []
+        : [formatDay(task.createdAt)];
+      return [
+        task.completed ? 'x' : '',
+        // Completed tasks keep their priority as a tag, as the format suggests
+        !task.completed && letter ? `(${letter})` : '',
+        ...dates,
+        oneLine(task.title),
+        list ? `+${list.replace(/\s+/g, '-')}` : '',
+        ...task.tags.map(tag => `@${tag}`),
+        ...inlineMarkers(task),
+        task.completed && letter ? `pri:${letter}` : '',
+      ]
+        .filter(Boolean)
+        .join(' ');
+    })
+    .join('\n') + '\n';
+}
+
+export function exportTasks(format: TransferFormat, tasks: Task[], lists: TaskList[], now = Date.now()): string {
+  switch (format) {
+    case 'json':
+      return exportJson(tasks, lists, now);
+    case 'csv':
+      return exportCsv(tasks, lists);
+    case 'markdown':
+      return exportMarkdown(tasks, lists);
+    case 'todotxt':
+      return exportTodoTxt(tasks, lists);
+    case 'ical':
+      return toICalendar(tasks, now);
+  }
+}
+
+const isString = (value: unknown) => typeof value === 'string';
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isTimeOrNull = (value: unknown) => value === null || isNumber(value);
+const isInteger = (value: unknown, min: number, max = Infinity): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+const isArrayOf = (isItem: (item: any) => boolean) => (value: unknown) => Array.isArray(value) && value.every(isItem);
+
+const isReminder = (value: any) =>
+  isString(value?.id) &&
+  ((value.type === 'absolute' && isNumber(value.at)) || (value.type === 'offset' && isNumber(value.minutesBefore)));
+
+const isSubtask = (value: any) => isString(value?.id) && isString(value.title) && isBoolean(value.completed);
+
+function isRecurrence(value: any): boolean {
+  if (value === null) return true;
+  const monthlyWeekday = value?.monthlyWeekday;
+  return (
+    ['daily', 'weekly', 'monthly'].includes(value?.frequency) &&
+    isInteger(value.interval, 1) &&
+    isArrayOf(day => isInteger(day, 0, 6))(value.weekdays) &&
+    (monthlyWeekday === null ||
+      (isInteger(monthlyWeekday?.ordinal, -1, 4) && monthlyWeekday.ordinal !== 0 && isInteger(monthlyWeekday.weekday, 0, 6))) &&
+    (value.monthDay === null || isInteger(value.monthDay, 1, 31)) &&
+    isTimeOrNull(value.until) &&
+    (value.count === null || isInteger(value.count, 1))
+  );
+}
+
+// What each field of an imported task may hold; ids are handled separately since a missing one is made up
+const TASK_FIELDS: { [K in keyof Omit<TaskData, 'id'>]: (value: unknown) => boolean } = {
+  title: isString,
+  completed: isBoolean,
+  createdAt: isNumber,
+  updatedAt: isNumber,
+  dueDate: isTimeOrNull,
+  reminders: isArrayOf(isReminder),
+  recurrence: isRecurrence,
+  completedAt: isTimeOrNull,
+  subtasks: isArrayOf(isSubtask),
+  listId: isString,
+  tags: isArrayOf(isString),
+  priority: value => PRIORITIES.some(priority => priority.value === value),
+  order: isNumber,
+  notes: isString,
+};
+
+/**
+ * A task from a JSON file, which may have been edited by hand. Missing fields get their
+ * defaults; fields that are present but malformed are reported rather than imported.
+ */
+function readJsonTask(item: Record<string, unknown>, id: string, now: number): { task: TaskData; problems: ImportText[] } {
+  const task = createTaskData(id, String(item.title), now);
+  const problems: ImportText[] = [];
+  for (const field of Object.keys(TASK_FIELDS) as (keyof typeof TASK_FIELDS)[]) {
+    const value = item[field];
+    if (value === undefined) continue;
+    if (TASK_FIELDS[field](value)) Object.assign(task, { [field]: value });
+    else {
+      problems.push({
+        key: 'transfer.issue.invalidField',
+        values: { field, value: JSON.stringify(value)?.slice(0, 40) ?? String(value) },
+      });
+    }
+  }
+  task.tags = task.tags.reduce(addTag, []);
+  return { task, problems };
+}
+
+function parseJson(text: string, now: number): ParsedImport {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return {
+      entries: [],
+      errors: [{ where: inFile, message: { key: 'transfer.issue.invalidJson', values: { detail: (e as Error).message } } }],
+    };
+  }
+
+  // A bare array is the pre-versioning storage format
+  const version = Array.isArray(parsed) ? 0 : parsed?.version;
+  const items = Array.isArray(parsed) ? parsed : parsed?.tasks;
+  if (typeof version !== 'number' || !Array.isArray(items)) {
+    return { entries: [], errors: [{ where: inFile, message: { key: 'transfer.issue.notAnExport' } }] };
+  }
+  if (version > SCHEMA_VERSION) {
+    return { entries: [], errors: [{ where: inFile, message: { key: 'transfer.issue.newerVersion', values: { version } } }] };
+  }
+
+  const lists: TaskList[] = Array.isArray(parsed.lists) ? parsed.lists : [];
+  const entries: ImportEntry[] = [];
+  const errors: ImportIssue[] = [];
+  // Migrations expect objects, so anything else is reported before they run
+  const positions: number[] = [];
+  const valid = items.filter((item, index) => {
+    const ok = item !== null && typeof item === 'object' && typeof item.title === 'string' && item.title.trim() !== '';
+    if (ok) positions.push(index);
+    else errors.push({ where: atTask(index + 1), message: { key: 'transfer.issue.noTitle' } });
+    return ok;
+  });
+
+  let migrated: TaskData[];
+  try {
+    migrated = migrateTasks(valid, version);
+  } catch (e) {
+    return {
+      entries: [],
+      errors: [{ where: inFile, message: { key: 'transfer.issue.upgradeFailed', values: { detail: (e as Error).message } } }],
+    };
+  }
+
+  migrated.forEach((item, index) => {
+    const id = typeof item.id === 'string' && item.id !== '' ? item.id : `${now}-${index}`;
+    const { task, problems } = readJsonTask(item, id, now);
+    if (problems.length > 0) {
+      errors.push(...problems.map(message => ({ where: atTask(positions[index] + 1), message })));
+    } else {
+      entries.push({ task, listName: lists.find(list => list.id === task.listId)?.name ?? null });
+    }
+  });
+  return { entries, errors };
+}
+
+function parseCsvTasks(text: string, now: number): ParsedImport {
+  const { rows, error } = parseCsv(text);
+  const errors: ImportIssue[] = error ? [{ where: atLine(error.line), message: { key: error.message } }] : [];
+  const [header, ...body] = rows;
+  const columns = header?.cells.map(cell => cell.trim().toLowerCase()) ?? [];
+  if (!columns.includes('title')) {
+    return { entries: [], errors: [...errors, { where: atLine(1), message: { key: 'transfer.issue.noTitleColumn' } }] };
+  }
+
+  const entries: ImportEntry[] = [];
+  body.forEach(({ line, cells }, index) => {
+    const cell = (column: string) => (cells[columns.indexOf(column)] ?? '').trim();
+    const problems: ImportText[] = [];
+    const date = (column: string) => {
+      if (cell(column) === '') return null;
+      const time = parseDate(cell(column));
+      if (time === null) problems.push({ key: 'transfer.issue.invalidColumnDate', values: { value: cell(column), column } });
+      return time;
+    };
+
+    const task = createTaskData(cell('id') || `${now}-${index}`, cell('title'), now);
+    if (task.title === '') problems.push({ key: 'transfer.issue.noTitle' });
+    task.completed = /^(true|yes|y|1|x|done)$/i.test(cell('completed'));
+    task.dueDate = date('due');
+    task.createdAt = date('created') ?? now;
+    task.completedAt = task.completed ? date('completed_at') : null;
+    if (cell('priority') !== '') {
+      const priority = parsePriorityWord(cell('priority'));
+      if (priority) task.priority = priority;
+      else problems.push({ key: 'transfer.issue.invalidPriority', values: { value: cell('priority') } });
+    }
+    task.tags = cell('tags').split(/[\s,]+/).reduce(addTag, [] as string[]);
+    if (cell('repeat') !== '') {
+      task.recurrence = decodeRepeat(cell('repeat'));
+      if (!task.recurrence) problems.push({ key: 'transfer.issue.invalidRepeat', values: { value: cell('repeat') } });
+    }
+
+    if (problems.length > 0) {
+      errors.push(...problems.map(message => ({ where: atLine(line), message })));
+    } else {
+      entries.push({ task, listName: cell('list') || null });
+    }
+  });
+  return { entries, errors };
+}
+
+function parseMarkdown(text: string, now: number): ParsedImport {
+  const entries: ImportEntry[] = [];
+  const errors: ImportIssue[] = [];
+  let listName: string | null = null;
+  let parent: { entry: ImportEntry; indent: number } | null = null;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const where = atLine(index + 1);
+    const heading = /^#{1,6}\s+(.+?)\s*#*$/.exec(line);
+    if (heading) {
+      listName = heading[1];
+      parent = null;
+      return;
+    }
+    const item = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/.exec(line);
+    if (!item) {
+      // Other prose is skipped, but a checkbox we can't read is worth reporting
+      if (/^\s*[-*+]\s+\[[^\]]*\]/.test(line)) errors.push({ where, message: { key: 'transfer.issue.badCheckbox' } });
+      return;
+    }
+
+    const indent = item[1].replace(/\t/g, '  ').length;
+    const completed = item[2] !== ' ';
+    if (parent && indent > parent.indent) {
+      const title = item[3].trim();
+      if (title === '') {
+        errors.push({ where, message: { key: 'transfer.issue.noStepTitle' } });
+      } else {
+        const { task } = parent.entry;
+        task.subtasks = [...task.subtasks, { id: `${task.id}-${task.subtasks.length}`, title, completed }];
+      }
+      return;
+    }
+    if (indent > 0 && !parent) {
+      errors.push({ where, message: { key: 'transfer.issue.orphanStep' } });
+      return;
+    }
+
+    const inline = parseInline(item[3], 'markdown');
+    if (inline.errors.length > 0) {
+      errors.push(...inline.errors.map(message => ({ where, message })));
+      parent = null;
+      return;
+    }
+    const task = createTaskData(`${now}-${index}`, inline.title, now);
+    task.completed = completed;
+    task.completedAt = completed ? now : null;
+    task.tags = inline.tags;
+    task.priority = inline.priority ?? 'none';
+    task.dueDate = inline.dueDate;
+    task.recurrence = inline.recurrence;
+    const entry = { task, listName };
+    entries.push(entry);
+    parent = { entry, indent };
+  });
+  return { entries, errors };
+}
+
+function parseTodoTxt(text: string, now: number): ParsedImport {
+  const entries: ImportEntry[] = [];
+  const errors: ImportIssue[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const where = atLine(index + 1);
+    let rest = line.trim();
+    if (rest === '') return;
+
+    const completed = rest.startsWith('x ');
+    let priority: Priority | null = null;
+    let completedAt: number | null = null;
+    let createdAt: number | null = null;
+    const day = /^(\d{4}-\d{2}-\d{2})\s+/;
+    const takeDay = () => {
+      const match = day.exec(rest);
+      if (!match) return null;
+      rest = rest.slice(match[0].length);
+      const time = parseDay(match[1]);
+      if (time === null) errors.push({ where, message: { key: 'transfer.issue.invalidDate', values: { value: match[1] } } });
+      return time;
+    };
+
+    if (completed) {
+      rest = rest.slice(2).trimStart();
+      completedAt = takeDay();
+      createdAt = completedAt === null ? null : takeDay();
+    } else {
+      const letter = /^\(([A-Z])\)\s+/.exec(rest);
+      if (letter) {
+        priority = parsePriorityLetter(letter[1]);
+        rest = rest.slice(letter[0].length);
+      }
+      createdAt = takeDay();
+    }
+
+    const inline = parseInline(rest, 'todotxt');
+    if (inline.errors.length > 0) {
+      errors.push(...inline.errors.map(message => ({ where, message })));
+      return;
+    }
+    const task = createTaskData(`${now}-${index}`, inline.title, createdAt ?? now);
+    task.completed = completed;
+    task.completedAt = completed ? (completedAt ?? now) : null;
+    task.priority = priority ?? inline.priority ?? 'none';
+    task.dueDate = inline.dueDate;
+    task.recurrence = inline.recurrence;
+    // The first project names the list; any others are kept as tags
+    const [list, ...projects] = inline.lists;
+    task.tags = projects.reduce(addTag, inline.tags);
+    entries.push({ task, listName: list ?? null });
+  });
+  return { entries, errors };
+}
+
+export function parseTasks(format: TransferFormat, text: string, now = Date.now()): ParsedImport {
+  switch (format) {
+    case 'json':
+      return parseJson(text, now);
+    case 'csv':
+      return parseCsvTasks(text, now);
+    case 'markdown':
+      return parseMarkdown(text, now);
+    case 'todotxt':
+      return parseTodoTxt(text, now);
+    case 'ical':
+      return parseICalendar(text, now);
+  }
+}
+
+// Best guess at the format of pasted text
+export function detectFormat(text: string): TransferFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  if (/^BEGIN:VCALENDAR/i.test(trimmed)) return 'ical';
+  if (/^\s*[-*+]\s+\[[ xX]\]/m.test(trimmed) || /^#{1,6}\s/.test(trimmed)) return 'markdown';
+  const header = trimmed.split(/\r?\n/)[0].toLowerCase();
+  if (header.includes(',') && /(^|,)"?title"?(,|$)/.test(header)) return 'csv';
+  return 'todotxt';
+}
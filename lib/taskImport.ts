@@ -0,0 +1,96 @@
+import Task from '@/app/(tabs)/Task';
+import { createList, type TaskList } from '@/lib/lists';
+import { nextOrder } from '@/lib/ordering';
+import { sameListName, type ImportEntry } from '@/lib/taskFormats';
+import { toTask } from '@/lib/taskRepository';
+
+export type DuplicateMode = 'skip' | 'replace' | 'keep';
+
+export const DUPLICATE_MODES: { value: DuplicateMode; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'replace', label: 'Replace' },
+  { value: 'keep', label: 'Keep both' },
+];
+
+export type ImportItem = {
+  entry: ImportEntry;
+  // Existing list the task goes to, or null when a list named `entry.listName` will be created
+  listId: string | null;
+  // The existing task this one repeats, if any
+  duplicateOf: Task | null;
+};
+
+const pick = <T extends object>(source: T, keys: (keyof T)[]): Partial<T> =>
+  Object.fromEntries(keys.map(key => [key, source[key]])) as Partial<T>;
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Work out where each imported task goes and which ones we already have. A task is a
+ * duplicate when it has the id of an existing task (re-importing a JSON backup or a calendar
+ * by UID) or, unless `matchTitles` is off, the same title as one in the list it is going to.
+ */
+export function planImport(
+  entries: ImportEntry[],
+  tasks: Task[],
+  lists: TaskList[],
+  fallbackListId: string,
+  matchTitles = true
+): ImportItem[] {
+  return entries.map(entry => {
+    const listId = entry.listName
+      ? (lists.find(list => sameListName(list.name, entry.listName!))?.id ?? null)
+      : fallbackListId;
+    const duplicateOf =
+      tasks.find(task => task.id === entry.task.id) ??
+      (matchTitles ? tasks.find(task => task.listId === listId && sameTitle(task.title, entry.task.title)) : undefined) ??
+      null;
+    return { entry, listId, duplicateOf };
+  });
+}
+
+// Apply a planned import, creating any lists the file named that don't exist yet
+export function applyImport(
+  items: ImportItem[],
+  tasks: Task[],
+  lists: TaskList[],
+  mode: DuplicateMode,
+  now = Date.now()
+): { tasks: Task[]; lists: TaskList[] } {
+  const nextLists = [...lists];
+  const listIdFor = (item: ImportItem) => {
+    if (item.listId !== null) return item.listId;
+    const existing = nextLists.find(list => sameListName(list.name, item.entry.listName!));
+    if (existing) return existing.id;
+    const list = createList(item.entry.listName!, nextLists, `${now}-${nextLists.length}`);
+    nextLists.push(list);
+    return list.id;
+  };
+
+  const replacements = new Map<string, Task>();
+  const added: Task[] = [];
+  const usedIds = new Set(tasks.map(task => task.id));
+  let order = nextOrder(tasks);
+
+  items.forEach((item, index) => {
+    if (item.duplicateOf && mode === 'skip') return;
+    const task = toTask({ ...item.entry.task, listId: listIdFor(item) });
+
+    if (item.duplicateOf && mode === 'replace') {
+      // Keep the existing task's identity and place in the list, and whatever the file doesn't carry
+      const { fields } = item.entry;
+      const updated = fields ? { ...item.duplicateOf, ...pick(task, fields) } : task;
+      replacements.set(item.duplicateOf.id, { ...updated, id: item.duplicateOf.id, order: item.duplicateOf.order });
+      return;
+    }
+    if (usedIds.has(task.id)) task.id = `${now}-import-${index}`;
+    usedIds.add(task.id);
+    task.order = order++;
+    added.push(task);
+  });
+
+  return {
+    tasks: [...tasks.map(task => replacements.get(task.id) ?? task), ...added],
+    lists: nextLists,
+  };
+}
@@ -0,0 +1,83 @@
+import Task, { type TaskData } from '@/app/(tabs)/Task';
+import type { Archive } from '@/lib/archive';
+import { DEFAULT_LIST_ID } from '@/lib/lists';
+import { createVersionedStore, type Migration } from '@/lib/versionedStore';
+
+// See `createVersionedStore` for how migrations run.
+const migrations: Migration<any[]>[] = [
+  // 0 -> 1: the original bare array. Editing state stops being persisted and ids,
+  // which were `Date.now()` strings, give us a creation time.
+  tasks =>
+    tasks.map(({ isEditing, ...task }) => ({
+      ...task,
+      createdAt: Number(task.id) || Date.now(),
+    })),
+  // 1 -> 2: optional due dates.
+  tasks => tasks.map(task => ({ ...task, dueDate: null })),
+  // 2 -> 3: reminders, either at a fixed time or relative to the due date.
+  tasks => tasks.map(task => ({ ...task, reminders: [] })),
+  // 3 -> 4: recurrence rules and completion times. We never knew when old tasks were done.
+  tasks => tasks.map(task => ({ ...task, recurrence: null, completedAt: null })),
+  // 4 -> 5: checklist steps.
+  tasks => tasks.map(task => ({ ...task, subtasks: [] })),
+  // 5 -> 6: multiple lists. Everything so far lived in the one default list.
+  tasks => tasks.map(task => ({ ...task, listId: DEFAULT_LIST_ID })),
+  // 6 -> 7: free-form tags.
+  tasks => tasks.map(task => ({ ...task, tags: [] })),
+  // 7 -> 8: priority levels.
+  tasks => tasks.map(task => ({ ...task, priority: 'none' })),
+  // 8 -> 9: explicit manual order, taken from the order tasks were stored in.
+  tasks => tasks.map((task, index) => ({ ...task, order: index })),
+  // 9 -> 10: notes, and when a task last changed. Completion is the latest change we know of.
+  tasks => tasks.map(task => ({ ...task, notes: '', updatedAt: task.completedAt ?? task.createdAt })),
+  // 10 -> 11: monthly repeats remember their day of the month, picked up at the next repeat.
+  tasks => tasks.map(task => ({ ...task, recurrence: task.recurrence && { ...task.recurrence, monthDay: null } })),
+];
+
+const store = createVersionedStore<TaskData[]>({
+  key: '@tasks',
+  field: 'tasks',
+  migrations,
+  fallback: () => [],
+});
+
+export const SCHEMA_VERSION = store.version;
+
+// Archived tasks live under their own key so they don't weigh on loading and saving `@tasks`.
+// They share the task schema, so every task migration is applied to them as well.
+const archiveStore = createVersionedStore<Archive>({
+  key: '@archive',
+  field: 'archive',
+  migrations: migrations.map(migrate => (archive: Archive) => ({ ...archive, tasks: migrate(archive.tasks) })),
+  fallback: () => ({ tasks: [], autoArchiveDays: null }),
+});
+
+export function toTask(data: TaskData): Task {
+  return Object.assign(new Task(data.id, data.title), data);
+}
+
+export function toData(task: Task): TaskData {
+  const { isEditing, ...data } = task;
+  return data;
+}
+
+// Bring task data exported by an older version of the app up to the current schema
+export function migrateTasks(data: unknown[], fromVersion: number): TaskData[] {
+  return store.migrate(data, fromVersion);
+}
+
+export async function loadTasks(): Promise<Task[]> {
+  return (await store.load()).map(toTask);
+}
+
+export async function saveTasks(tasks: Task[]) {
+  await store.save(tasks.map(toData));
+}
+
+export async function loadArchive(): Promise<Archive> {
+  return archiveStore.load();
+}
+
+export async function saveArchive(archive: Archive) {
+  await archiveStore.save(archive);
+}
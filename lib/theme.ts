@@ -0,0 +1,74 @@
+import { Palettes, type Palette } from '@/constants/Colors';
+
+export type ThemeName = keyof typeof Palettes;
+
+// What the user picked; 'system' follows the device's light/dark setting
+export type ThemePreference = 'system' | ThemeName;
+
+export const THEME_OPTIONS: { value: ThemePreference; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'highContrast', label: 'High contrast' },
+];
+
+export type Theme = {
+  name: ThemeName;
+  // Light or dark, for the status bar, navigation and other system chrome
+  scheme: 'light' | 'dark';
+  colors: Palette;
+};
+
+const parseHex = (color: string): number[] => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? [...hex].map(digit => digit + digit).join('') : hex;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16));
+};
+
+const toHex = (channels: number[]) =>
+  `#${channels.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+// `amount` of `color` over `base`, e.g. a translucent accent flattened onto a card
+function mix(color: string, base: string, amount: number): string {
+  const top = parseHex(color);
+  return toHex(parseHex(base).map((channel, i) => channel + (top[i] - channel) * amount));
+}
+
+// Relative luminance from WCAG, 0 for black to 1 for white
+function luminance(color: string): number {
+  const [r, g, b] = parseHex(color).map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+/**
+ * The theme to draw with: the picked one, or the system's scheme under 'system', with the
+ * user's accent (if any) in place of the theme's own and its companion colors worked out.
+ */
+export function resolveTheme(
+  preference: ThemePreference,
+  systemScheme: 'light' | 'dark' | null | undefined,
+  accent: string | null
+): Theme {
+  const name = preference === 'system' ? (systemScheme ?? 'light') : preference;
+  const scheme = name === 'light' ? 'light' : 'dark';
+  const palette = Palettes[name];
+  if (!isHexColor(accent)) return { name, scheme, colors: palette };
+
+  return {
+    name,
+    scheme,
+    colors: {
+      ...palette,
+      accent,
+      onAccent: luminance(accent) > 0.4 ? '#000' : '#fff',
+      accentMuted: mix(accent, palette.surface, scheme === 'light' ? 0.12 : 0.3),
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import Task from '@/app/(tabs)/Task';
+import { toData } from '@/lib/taskRepository';
+
+// Everything that counts as changing a task; `updatedAt` itself is left out
+function content(task: Task): string {
+  const { updatedAt, ...data } = toData(task);
+  return JSON.stringify(data);
+}
+
+/**
+ * Stamp `updatedAt` on the tasks an update changed. Tasks are replaced, never mutated, so
+ * only tasks with a new identity are compared, and one that only entered or left editing
+ * mode is left as it was. New tasks keep the time they were created with.
+ */
+export function touchChanged(before: Task[], after: Task[], now = Date.now()): Task[] {
+  const previous = new Map(before.map(task => [task.id, task]));
+  let touched = false;
+  const next = after.map(task => {
+    const old = previous.get(task.id);
+    if (!old || old === task || content(old) === content(task)) return task;
+    touched = true;
+    return { ...task, updatedAt: now };
+  });
+  // An update that changed nothing keeps its identity, so nothing re-renders or saves
+  return touched ? next : after;
+}
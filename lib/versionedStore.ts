@@ -0,0 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type Migration<T = any> = (data: T) => T;
+
+type Options<T> = {
+  key: string;
+  // Property of the stored envelope that holds the data, e.g. `{ version: 3, tasks: [...] }`
+  field: string;
+  /**
+   * Ordered schema migrations: `migrations[n]` upgrades stored data from version n to n + 1.
+   * Never edit a shipped migration; append a new one and the schema version follows.
+   */
+  migrations: Migration[];
+  // Value used when nothing has been stored yet
+  fallback: () => T;
+};
+
+/**
+ * AsyncStorage-backed value stored alongside its schema version. Loading runs any pending
+ * migrations and writes the upgraded data back, keeping the pre-migration payload under a
+ * versioned backup key so a bad migration never loses a user's data.
+ */
+export function createVersionedStore<T>({ key, field, migrations, fallback }: Options<T>) {
+  const version = migrations.length;
+
+  const parse = (json: string): { version: number; data: unknown } => {
+    const parsed = JSON.parse(json);
+    // Data written before versioning was introduced is a bare value
+    if (Array.isArray(parsed)) {
+      return { version: 0, data: parsed };
+    }
+    if (parsed && typeof parsed.version === 'number' && field in parsed) {
+      return { version: parsed.version, data: parsed[field] };
+    }
+    throw new Error(`Unrecognised storage format for ${key}.`);
+  };
+
+  // Upgrade data written at schema version `from`, e.g. from a backup file
+  const migrate = (data: unknown, from: number): T => {
+    if (from > version) {
+      throw new Error(`${key} uses schema v${from}, newer than the supported v${version}.`);
+    }
+    for (let next = from; next < version; next++) {
+      data = migrations[next](data);
+    }
+    return data as T;
+  };
+
+  const save = async (data: T) => {
+    await AsyncStorage.setItem(key, JSON.stringify({ version, [field]: data }));
+  };
+
+  const load = async (): Promise<T> => {
+    const json = await AsyncStorage.getItem(key);
+    if (!json) return fallback();
+
+    const stored = parse(json);
+    const data = migrate(stored.data, stored.version);
+    if (stored.version < version) {
+      await AsyncStorage.setItem(`${key}:backup-v${stored.version}`, json);
+      await save(data);
+    }
+    return data;
+  };
+
+  return { version, migrate, load, save };
+}
@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+/**
+ * A local stand-in for the task sync backend, for trying sync between devices and simulators.
+ * It only keeps an ordered, in-memory log of ops; devices do all the merging (see lib/sync.ts).
+ *
+ *   POST /ops            { ops: [...] }   appends the ops it hasn't seen, returns { revision }
+ *   GET  /ops?since=<n>                   returns { ops, revision } for everything after revision n
+ *
+ * Run with `npm run sync-server`, optionally `-- --port 4000`, and point the app's Sync
+ * screen at http://<this computer's address>:<port>. Restarting the server empties the log.
+ */
+
+const http = require("http");
+
+const portFlag = process.argv.indexOf("--port");
+const port = Number(portFlag === -1 ? process.env.PORT || 4000 : process.argv[portFlag + 1]);
+
+const log = [];
+const seen = new Set();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The web build is served from a different origin
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (url.pathname !== "/ops") return send(res, 404, { error: "Not found" });
+
+  if (req.method === "GET") {
+    const since = Number(url.searchParams.get("since") || 0);
+    if (!Number.isInteger(since) || since < 0) {
+      return send(res, 400, { error: '"since" must be a revision number' });
+    }
+    return send(res, 200, { ops: log.slice(since), revision: log.length });
+  }
+
+  if (req.method === "POST") {
+    let ops;
+    try {
+      ops = JSON.parse(await readBody(req)).ops;
+    } catch {
+      return send(res, 400, { error: "Expected a JSON body" });
+    }
+    if (!Array.isArray(ops) || ops.some((op) => !op || typeof op.id !== "string" || typeof op.taskId !== "string")) {
+      return send(res, 400, { error: 'Expected { "ops": [...] }' });
+    }
+    // A device retries a push whose response it never got, so ops are only logged once
+    let added = 0;
+    for (const op of ops) {
+      if (seen.has(op.id)) continue;
+      seen.add(op.id);
+      log.push({ ...op, revision: log.length + 1 });
+      added++;
+    }
+    console.log(`${new Date().toLocaleTimeString()}  +${added} ops, now at revision ${log.length}`);
+    return send(res, 200, { revision: log.length });
+  }
+
+  send(res, 405, { error: "Method not allowed" });
+});
+
+server.listen(port, () => {
+  console.log(`Mock sync server listening on http://localhost:${port}`);
+});